@@ -0,0 +1,129 @@
+// Service worker: keeps piano discovery usable with flaky or no signal.
+// The piano dataset, app shell and piano thumbnails are served stale-while-revalidate.
+
+const VERSION = 'v2'; // v2 drops the map tiles v1 kept in the image cache
+const SHELL_CACHE = `sfh-shell-${VERSION}`;
+const DATA_CACHE = `sfh-data-${VERSION}`;
+const IMAGE_CACHE = `sfh-images-${VERSION}`;
+
+// Must match CACHED_AT_HEADER in src/lib/offline.ts
+const CACHED_AT_HEADER = 'X-SW-Cached-At';
+
+const SHELL_URLS = ['/', '/pianos', '/gallery', '/singforhopepianos.jpg', '/favicon.svg', '/logo.svg'];
+
+// The first page requested by fetchAllPianos() in PianoDiscovery and PianoGallery
+const DATASET_URLS = ['/api/pianos?limit=500', '/api/pianos?sort=year_desc&limit=500'];
+
+const MAX_IMAGES = 400;
+
+// Where piano images live (see image.remotePatterns in astro.config.mjs). Map tiles and other
+// third-party images go straight to the network: tiles must not be served stale, and their
+// opaque responses would crowd the piano thumbnails out of the cache.
+const PIANO_IMAGE_HOSTS = ['sfhmedia.nyc3.digitaloceanspaces.com', 'app.singforhope.org'];
+
+function isPianoImage(url) {
+  if (url.origin === self.location.origin) return true;
+  if (url.protocol !== 'https:') return false;
+  if (PIANO_IMAGE_HOSTS.includes(url.hostname)) return true;
+  // Public Supabase storage only; signed URLs for private media change on every page load
+  return url.hostname.endsWith('.supabase.co') && url.pathname.startsWith('/storage/v1/object/public/');
+}
+
+async function stampResponse(response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, new Date().toISOString());
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+async function putInCache(cacheName, key, response, stamp) {
+  const cache = await caches.open(cacheName);
+  await cache.put(key, stamp ? await stampResponse(response) : response);
+}
+
+// Drop the oldest entries once the image cache grows past its limit
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map(key => cache.delete(key)));
+}
+
+async function precache(cacheName, urls, stamp) {
+  // One missing URL should not stop the worker from installing
+  await Promise.allSettled(urls.map(async url => {
+    const response = await fetch(url, { cache: 'reload' });
+    if (response.ok) await putInCache(cacheName, url, response, stamp);
+  }));
+}
+
+function staleWhileRevalidate(event, cacheName, { key = event.request, stamp = false, matchOptions } = {}) {
+  const network = fetch(event.request).then(async response => {
+    if (response.ok || response.type === 'opaque') {
+      await putInCache(cacheName, key, response.clone(), stamp);
+      if (cacheName === IMAGE_CACHE) await trimCache(IMAGE_CACHE, MAX_IMAGES);
+    }
+    return response;
+  });
+
+  event.waitUntil(network.catch(() => undefined));
+  event.respondWith(
+    caches.open(cacheName)
+      .then(cache => cache.match(key, matchOptions))
+      .then(cached => cached || network)
+  );
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([precache(SHELL_CACHE, SHELL_URLS, false), precache(DATA_CACHE, DATASET_URLS, true)])
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  const current = [SHELL_CACHE, DATA_CACHE, IMAGE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => !current.includes(name)).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (sameOrigin && url.pathname === '/api/pianos') {
+    staleWhileRevalidate(event, DATA_CACHE, { stamp: true });
+  } else if (sameOrigin && url.pathname.startsWith('/_astro/')) {
+    staleWhileRevalidate(event, SHELL_CACHE);
+  } else if (request.mode === 'navigate' && sameOrigin && SHELL_URLS.includes(url.pathname)) {
+    // Shared links such as /pianos?trail=... still open the cached page
+    staleWhileRevalidate(event, SHELL_CACHE, { key: url.pathname, matchOptions: { ignoreSearch: true } });
+  } else if (request.destination === 'image' && isPianoImage(url)) {
+    staleWhileRevalidate(event, IMAGE_CACHE);
+  }
+});
+
+// Pages send the thumbnails worth keeping offline, e.g. the current program's pianos
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'PRECACHE_IMAGES' || !Array.isArray(event.data.urls)) return;
+
+  event.waitUntil(
+    caches.open(IMAGE_CACHE).then(async cache => {
+      await Promise.allSettled(event.data.urls.map(async url => {
+        if (!isPianoImage(new URL(url, self.location.origin)) || await cache.match(url)) return;
+        const request = new Request(url, { mode: 'no-cors' });
+        const response = await fetch(request);
+        if (response.ok || response.type === 'opaque') await cache.put(request, response);
+      }));
+      await trimCache(IMAGE_CACHE, MAX_IMAGES);
+    })
+  );
+});
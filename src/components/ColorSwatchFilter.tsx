@@ -0,0 +1,51 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { COLOR_FAMILIES, type ColorFamily } from '../lib/palette';
+
+interface ColorSwatchFilterProps {
+  selected: ColorFamily[];
+  onChange: (colors: ColorFamily[]) => void;
+  counts?: Partial<Record<ColorFamily, number>>; // pianos per colour, shown in the tooltip
+  className?: string;
+}
+
+// "Search by colour": pianos match when their artwork has any of the picked colours
+const ColorSwatchFilter: React.FC<ColorSwatchFilterProps> = ({ selected, onChange, counts, className = '' }) => {
+  const toggle = (color: ColorFamily) => {
+    onChange(selected.includes(color) ? selected.filter(other => other !== color) : [...selected, color]);
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`} role="group" aria-label="Filter by colour">
+      <span className="text-sm font-medium text-gray-700 flex-shrink-0">Colour:</span>
+      <div className="flex flex-wrap gap-1.5">
+        {COLOR_FAMILIES.map(family => {
+          const isSelected = selected.includes(family.id);
+          const count = counts?.[family.id];
+          const label = count !== undefined ? `${family.label} (${count})` : family.label;
+          return (
+            <button
+              key={family.id}
+              type="button"
+              onClick={() => toggle(family.id)}
+              aria-pressed={isSelected}
+              aria-label={label}
+              title={label}
+              disabled={count === 0 && !isSelected}
+              className={`w-7 h-7 rounded-full border flex items-center justify-center transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+                isSelected ? 'ring-2 ring-offset-1 ring-green-500 border-transparent' : 'border-gray-300 hover:scale-110'
+              }`}
+              style={{ backgroundColor: family.swatch }}
+            >
+              {isSelected && (
+                <Check className={`w-4 h-4 ${['white', 'yellow'].includes(family.id) ? 'text-gray-900' : 'text-white'}`} aria-hidden="true" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ColorSwatchFilter;
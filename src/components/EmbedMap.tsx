@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, ExternalLink } from 'lucide-react';
+import PianoMap from './PianoMap';
+import type { Piano } from '../lib/supabase';
+import {
+  embedPianoSummary,
+  parseEmbedCommand,
+  postToHost,
+  type EmbedTheme
+} from '../lib/embed';
+
+interface EmbedMapProps {
+  pianos: Piano[];
+  theme?: EmbedTheme;
+  siteUrl: string; // origin for links out of the frame
+}
+
+/**
+ * Chrome-less piano map for partner sites, framed from /embed/map. Talks to the
+ * host page over postMessage: `ready` once a map provider has loaded, `select`
+ * when a piano is picked or cleared and `resize` whenever the frame's content
+ * size changes. Hosts can send `{ source: 'sfh-piano-map', type: 'select', pianoId }`.
+ */
+const EmbedMap: React.FC<EmbedMapProps> = ({ pianos, theme = 'light', siteUrl }) => {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const [selectedPiano, setSelectedPiano] = useState<Piano | null>(null);
+  const selected = useMemo(
+    () => (selectedPiano ? embedPianoSummary(selectedPiano, siteUrl) : null),
+    [selectedPiano, siteUrl]
+  );
+
+  // Selections from either side are reported, so the host can mirror them
+  const reportedRef = useRef<number | null>(null);
+  useEffect(() => {
+    const id = selected?.id ?? null;
+    if (id === reportedRef.current) return;
+    reportedRef.current = id;
+    postToHost({ type: 'select', piano: selected });
+  }, [selected]);
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      const command = parseEmbedCommand(event.data);
+      if (!command) return;
+      setSelectedPiano(command.pianoId == null ? null : pianos.find(piano => piano.id === command.pianoId) || null);
+    };
+
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [pianos]);
+
+  useEffect(() => {
+    if (!rootRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      postToHost({
+        type: 'resize',
+        width: Math.round(entry.contentRect.width),
+        height: Math.round(entry.contentRect.height)
+      });
+    });
+    observer.observe(rootRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={rootRef} className={`${theme === 'dark' ? 'dark' : ''} relative w-full h-full`}>
+      <PianoMap
+        pianos={pianos}
+        selectedPiano={selectedPiano}
+        onPianoSelect={setSelectedPiano}
+        onReady={provider => postToHost({ type: 'ready', provider, count: pianos.length })}
+        showControls={false}
+        height="100%"
+        minHeight="0"
+        className="w-full"
+      />
+
+      {selected && (
+        <div className="absolute bottom-3 left-3 right-3 sm:right-auto sm:w-80 z-[1000] flex items-center gap-3 rounded-xl p-3 shadow-lg bg-white text-gray-900 dark:bg-gray-900 dark:text-white">
+          <img
+            src={selected.image}
+            alt={selected.title}
+            className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+          />
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold truncate">{selected.title}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-300 truncate">
+              {selected.artist}{selected.year ? ` · ${selected.year}` : ''}
+            </p>
+            <a
+              href={selected.url}
+              target="_blank"
+              rel="noopener"
+              className="inline-flex items-center gap-1 mt-1 text-sm font-medium text-green-700 dark:text-green-400 hover:underline"
+            >
+              View piano
+              <ExternalLink className="w-3.5 h-3.5" />
+            </a>
+          </div>
+          <button
+            onClick={() => setSelectedPiano(null)}
+            className="self-start p-1 rounded-full text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <a
+        href={new URL('/pianos', siteUrl).toString()}
+        target="_blank"
+        rel="noopener"
+        className="absolute top-3 right-3 z-[1000] rounded-full px-3 py-1 text-xs font-semibold shadow bg-white/95 text-gray-700 hover:text-green-700 dark:bg-gray-900/90 dark:text-gray-200"
+      >
+        Sing for Hope Pianos
+      </a>
+    </div>
+  );
+};
+
+export default EmbedMap;
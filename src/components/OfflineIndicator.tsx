@@ -0,0 +1,21 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { formatOfflineDate } from '../lib/offline';
+
+interface OfflineIndicatorProps {
+  dataDate: string | null; // when the pianos on screen were fetched
+  className?: string;
+}
+
+// Shown while the visitor is offline so they know how fresh the piano data is
+const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ dataDate, className = '' }) => (
+  <div
+    className={`flex items-center px-3 py-2 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-xs ${className}`}
+    role="status"
+  >
+    <WifiOff className="w-3.5 h-3.5 mr-2 flex-shrink-0" aria-hidden="true" />
+    {dataDate ? `Offline data from ${formatOfflineDate(dataDate)}` : "You're offline"}
+  </div>
+);
+
+export default OfflineIndicator;
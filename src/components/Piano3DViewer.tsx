@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Rotate3d, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import type { PianoImage } from '../lib/supabase';
+import { focalPosition, normalizeImageUrl } from '../lib/piano-images';
+import { canRender3D, loadPianoScene, prefersReducedMotion, type PianoScene } from '../lib/piano-3d';
+
+interface Piano3DViewerProps {
+  images: PianoImage[];
+  title: string;
+  autoLoad?: boolean; // skip the poster, except for reduced motion
+  className?: string;
+}
+
+type ViewerStatus = 'poster' | 'loading' | 'ready' | 'error' | 'unsupported';
+
+// three.js is fetched only when the viewer opens, so pages that never open it don't pay for it
+const Piano3DViewer: React.FC<Piano3DViewerProps> = ({
+  images,
+  title,
+  autoLoad = false,
+  className = 'h-80 w-full'
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sceneRef = useRef<PianoScene | null>(null);
+  const [status, setStatus] = useState<ViewerStatus>('poster');
+  const [reducedMotion, setReducedMotion] = useState(false);
+  const [requested, setRequested] = useState(false);
+
+  useEffect(() => {
+    if (!canRender3D()) {
+      setStatus('unsupported');
+      return;
+    }
+    const reduced = prefersReducedMotion();
+    setReducedMotion(reduced);
+    if (autoLoad && !reduced) setRequested(true);
+  }, []);
+
+  useEffect(() => {
+    if (!requested || !containerRef.current) return;
+    let cancelled = false;
+    setStatus('loading');
+
+    loadPianoScene()
+      .then(createPianoScene => createPianoScene(containerRef.current, { title, images, animate: !reducedMotion }))
+      .then(scene => {
+        if (cancelled) {
+          scene.destroy();
+          return;
+        }
+        sceneRef.current = scene;
+        setStatus('ready');
+      })
+      .catch(error => {
+        console.error('Failed to load 3D piano viewer:', error);
+        if (!cancelled) setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      sceneRef.current?.destroy();
+      sceneRef.current = null;
+    };
+  }, [requested, images]);
+
+  const cover = images[0];
+
+  return (
+    <div className={`relative overflow-hidden bg-gradient-to-b from-gray-100 to-gray-200 ${className}`}>
+      <div ref={containerRef} className="absolute inset-0" />
+
+      {status !== 'ready' && status !== 'loading' && (
+        <>
+          {cover && (
+            <img
+              src={normalizeImageUrl(cover.src)}
+              alt={cover.alt || title}
+              className="absolute inset-0 w-full h-full object-cover"
+              style={{ objectPosition: focalPosition(cover) }}
+              loading="lazy"
+            />
+          )}
+          <div className="absolute inset-x-0 bottom-0 p-4 bg-gradient-to-t from-black/70 to-transparent text-white">
+            {status === 'poster' && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setRequested(true)}
+                  className="inline-flex items-center px-4 py-2 bg-white/90 hover:bg-white text-gray-900 text-sm font-semibold rounded-lg shadow transition-colors"
+                >
+                  <Rotate3d className="w-4 h-4 mr-2" aria-hidden="true" />
+                  View in 3D
+                </button>
+                {reducedMotion && (
+                  <p className="text-xs mt-2 text-white/90">Reduced motion is on, so the model stays still until you turn it.</p>
+                )}
+              </>
+            )}
+            {status === 'unsupported' && (
+              <p className="text-sm">The 3D view needs WebGL, which this browser doesn't support.</p>
+            )}
+            {status === 'error' && (
+              <p className="text-sm">The 3D view couldn't be loaded. Please try again later.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {status === 'loading' && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-600" role="status">
+          <div className="w-4 h-4 border-2 border-green-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+          Loading 3D view…
+        </div>
+      )}
+
+      {status === 'ready' && (
+        <>
+          <div className="absolute bottom-3 right-3 flex gap-1">
+            {[
+              { label: 'Zoom in', icon: ZoomIn, action: () => sceneRef.current?.zoom(0.8) },
+              { label: 'Zoom out', icon: ZoomOut, action: () => sceneRef.current?.zoom(1.25) },
+              { label: 'Reset view', icon: RotateCcw, action: () => sceneRef.current?.reset() }
+            ].map(({ label, icon: Icon, action }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={action}
+                className="bg-white/90 hover:bg-white rounded-full p-2 shadow transition-colors"
+                aria-label={label}
+                title={label}
+              >
+                <Icon className="w-4 h-4 text-gray-700" aria-hidden="true" />
+              </button>
+            ))}
+          </div>
+          <p className="absolute bottom-3 left-3 text-xs text-gray-600 bg-white/80 rounded px-2 py-1 pointer-events-none">
+            Drag to turn · scroll or pinch to zoom
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Piano3DViewer;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle, Loader, Music, Upload } from 'lucide-react';
+import {
+  CHECKIN_MEDIA_LIMITS,
+  CHECKIN_NAME_MAX,
+  CHECKIN_NOTE_MAX,
+  submitCheckin,
+  validateCheckinMedia
+} from '../lib/checkins';
+
+interface PianoCheckinFormProps {
+  pianoId: number;
+  pianoTitle: string;
+}
+
+const ACCEPTED_TYPES = [...CHECKIN_MEDIA_LIMITS.image.types, ...CHECKIN_MEDIA_LIMITS.video.types].join(',');
+
+// "I played this piano" form. Posts are held for moderation, so the thank-you says so.
+const PianoCheckinForm: React.FC<PianoCheckinFormProps> = ({ pianoId, pianoTitle }) => {
+  const [displayName, setDisplayName] = useState('');
+  const [note, setNote] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [website, setWebsite] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setErrorMessage('');
+
+    if (selected) {
+      const invalid = validateCheckinMedia(selected.type, selected.size);
+      if (invalid) {
+        setErrorMessage(invalid);
+        e.target.value = '';
+        setFile(null);
+        return;
+      }
+    }
+
+    setFile(selected);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim() && !file) {
+      setErrorMessage('Add a note or a photo or video of your performance');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage('');
+
+    try {
+      await submitCheckin(pianoId, { displayName, note, file, website });
+      setSubmitted(true);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Could not post your check-in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-4 rounded-lg flex items-start" role="status">
+        <CheckCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" aria-hidden="true" />
+        <div>
+          <p className="font-semibold">Thanks for playing {pianoTitle}!</p>
+          <p className="text-sm mt-1">Your check-in will appear here once our team has reviewed it.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {errorMessage && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center" role="alert">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" aria-hidden="true" />
+          {errorMessage}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="checkin-name" className="block text-sm font-medium text-gray-900 mb-2">
+          Your name (optional)
+        </label>
+        <input
+          id="checkin-name"
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          maxLength={CHECKIN_NAME_MAX}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          placeholder="Shown with your check-in"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="checkin-note" className="block text-sm font-medium text-gray-900 mb-2">
+          What did you play?
+        </label>
+        <textarea
+          id="checkin-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={CHECKIN_NOTE_MAX}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent resize-vertical"
+          placeholder="Tell us about the song, the moment, or who stopped to listen..."
+        />
+        <p className="text-xs text-gray-500 text-right mt-1">{note.length}/{CHECKIN_NOTE_MAX}</p>
+      </div>
+
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center hover:border-green-500 transition-colors">
+        <Upload className="w-6 h-6 text-gray-400 mx-auto mb-2" aria-hidden="true" />
+        <input
+          type="file"
+          accept={ACCEPTED_TYPES}
+          onChange={handleFileChange}
+          className="hidden"
+          id="checkin-media"
+        />
+        <label htmlFor="checkin-media" className="cursor-pointer text-green-600 hover:text-green-700 font-medium">
+          Add a photo or video
+        </label>
+        <p className="text-xs text-gray-500 mt-1">Photos up to 10MB, videos up to 50MB</p>
+        {file && <p className="text-sm text-gray-700 mt-2">Selected: {file.name}</p>}
+      </div>
+
+      {/* Honeypot: hidden from people, filled in by bots */}
+      <div className="hidden" aria-hidden="true">
+        <label htmlFor="checkin-website">Website</label>
+        <input
+          id="checkin-website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full inline-flex items-center justify-center px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isSubmitting ? (
+          <>
+            <Loader className="w-4 h-4 animate-spin mr-2" aria-hidden="true" />
+            Posting...
+          </>
+        ) : (
+          <>
+            <Music className="w-4 h-4 mr-2" aria-hidden="true" />
+            I played this piano
+          </>
+        )}
+      </button>
+    </form>
+  );
+};
+
+export default PianoCheckinForm;
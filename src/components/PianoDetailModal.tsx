@@ -1,21 +1,51 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, Music, User, Calendar, MapPin, ExternalLink } from 'lucide-react';
+import { X, Music, User, Calendar, MapPin, ExternalLink, AlertTriangle, Footprints, Rotate3d } from 'lucide-react';
 import type { Piano } from '../lib/supabase';
+import { artistUrl } from '../lib/artists';
+import { formatTimesPlayed } from '../lib/checkins';
+import PianoImageGallery from './PianoImageGallery';
+import Piano3DViewer from './Piano3DViewer';
+import SavePianoButton from './SavePianoButton';
+import { coverAsGallery, fetchPianoGallery, type GalleryImage } from '../lib/piano-images';
 
 interface PianoDetailModalProps {
   piano: Piano | null;
   isOpen: boolean;
   onClose: () => void;
+  inTrail?: boolean;
+  onToggleTrail?: (piano: Piano) => void;
 }
 
 const PianoDetailModal: React.FC<PianoDetailModalProps> = ({
   piano,
   isOpen,
-  onClose
+  onClose,
+  inTrail = false,
+  onToggleTrail
 }) => {
   const modalRef = useRef<HTMLDivElement>(null);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const [images, setImages] = useState<GalleryImage[]>([]);
+  const [show3D, setShow3D] = useState(false);
+
+  // Show the cover straight away, then swap in the full gallery
+  useEffect(() => {
+    if (!piano || !isOpen) return;
+    let cancelled = false;
+    setImages(coverAsGallery(piano));
+    setShow3D(false);
+
+    fetchPianoGallery(piano.id, '(min-width: 640px) 448px, 100vw')
+      .then(gallery => {
+        if (!cancelled && gallery.length) setImages(gallery);
+      })
+      .catch(error => console.warn('Failed to load piano gallery:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [piano?.id, isOpen]);
 
   // Focus management
   useEffect(() => {
@@ -67,15 +97,26 @@ const PianoDetailModal: React.FC<PianoDetailModalProps> = ({
       >
         {/* Header */}
         <div className="relative">
-          {piano.piano_image && (
-            <div className="w-full h-48 bg-gray-200 overflow-hidden">
-              <img
-                src={piano.piano_image}
-                alt={piano.piano_title}
-                className="w-full h-full object-cover"
-                loading="lazy"
-              />
-            </div>
+          {show3D ? (
+            <Piano3DViewer images={images} title={piano.piano_title} autoLoad className="h-64 w-full" />
+          ) : images.length > 0 && (
+            <PianoImageGallery
+              images={images}
+              title={piano.piano_title}
+              aspectClassName="h-48 w-full"
+              showCaptions={false}
+            />
+          )}
+
+          {images.length > 0 && (
+            <button
+              onClick={() => setShow3D(!show3D)}
+              aria-pressed={show3D}
+              className="absolute top-4 left-4 inline-flex items-center bg-white bg-opacity-90 hover:bg-opacity-100 rounded-full px-3 py-2 text-sm font-semibold text-gray-700 transition-all duration-200 shadow-lg"
+            >
+              <Rotate3d className="w-4 h-4 mr-1" aria-hidden="true" />
+              {show3D ? 'Photos' : '3D'}
+            </button>
           )}
           
           {/* Close button */}
@@ -88,8 +129,14 @@ const PianoDetailModal: React.FC<PianoDetailModalProps> = ({
             <X className="w-5 h-5 text-gray-700" aria-hidden="true" />
           </button>
 
+          <SavePianoButton
+            pianoId={piano.id}
+            pianoTitle={piano.piano_title}
+            className="absolute top-4 right-16 bg-white bg-opacity-90 hover:bg-opacity-100 rounded-full p-2 shadow-lg"
+          />
+
           {/* Piano year badge */}
-          {piano.piano_year && (
+          {piano.piano_year && !show3D && (
             <div className="absolute bottom-4 left-4 bg-green-600 text-white px-3 py-1 rounded-full text-sm font-semibold">
               {piano.piano_year}
             </div>
@@ -105,7 +152,11 @@ const PianoDetailModal: React.FC<PianoDetailModalProps> = ({
             </h2>
             <div id="piano-modal-desc" className="flex items-center text-gray-600 mb-1">
               <User className="w-4 h-4 mr-2" aria-hidden="true" />
-              <span className="font-medium">by {piano.artist_name}</span>
+              <span className="font-medium">
+                by {piano.artists ? (
+                  <a href={artistUrl(piano.artists)} className="hover:text-green-700 hover:underline">{piano.artists.name}</a>
+                ) : piano.artist_name}
+              </span>
             </div>
             
             {piano.piano_year && (
@@ -114,6 +165,13 @@ const PianoDetailModal: React.FC<PianoDetailModalProps> = ({
                 <span>{piano.piano_year}</span>
               </div>
             )}
+
+            {formatTimesPlayed(piano.times_played) && (
+              <div className="flex items-center text-gray-500 text-sm mt-1">
+                <Music className="w-4 h-4 mr-2" />
+                <span>{formatTimesPlayed(piano.times_played)}</span>
+              </div>
+            )}
           </div>
 
           {/* Location Info */}
@@ -169,6 +227,29 @@ const PianoDetailModal: React.FC<PianoDetailModalProps> = ({
             )}
           </div>
 
+          {onToggleTrail && (piano.perm_lat && piano.perm_lng) && (
+            <button
+              onClick={() => onToggleTrail(piano)}
+              aria-pressed={inTrail}
+              className={`w-full mt-3 inline-flex items-center justify-center py-3 px-4 rounded-lg font-semibold border transition-colors duration-200 ${
+                inTrail ? 'border-green-600 bg-green-50 text-green-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Footprints className="w-4 h-4 mr-2" />
+              {inTrail ? 'On your trail' : 'Add to trail'}
+            </button>
+          )}
+
+          {piano.piano_url && (
+            <a
+              href={`/piano/${piano.piano_url}#report`}
+              className="inline-flex items-center mt-3 text-xs text-gray-500 hover:text-red-700"
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Report a problem
+            </a>
+          )}
+
           {/* Piano search terms (if available) */}
           {piano.piano_search && (
             <div className="mt-4 pt-4 border-t border-gray-200">
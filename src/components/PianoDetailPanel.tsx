@@ -1,13 +1,18 @@
 import React from 'react';
-import { Music, User, Calendar, MapPin, ExternalLink } from 'lucide-react';
+import { Music, User, Calendar, MapPin, ExternalLink, AlertTriangle, Footprints } from 'lucide-react';
 import type { Piano } from '../lib/supabase';
+import { artistUrl } from '../lib/artists';
+import { formatTimesPlayed } from '../lib/checkins';
+import SavePianoButton from './SavePianoButton';
 
 interface PianoDetailPanelProps {
   piano: Piano | null;
+  inTrail?: boolean;
+  onToggleTrail?: (piano: Piano) => void;
   className?: string;
 }
 
-const PianoDetailPanel: React.FC<PianoDetailPanelProps> = ({ piano, className = '' }) => {
+const PianoDetailPanel: React.FC<PianoDetailPanelProps> = ({ piano, inTrail = false, onToggleTrail, className = '' }) => {
   return (
     <aside className={`h-full bg-white border-l border-gray-200 ${className}`}>
       {!piano ? (
@@ -29,10 +34,17 @@ const PianoDetailPanel: React.FC<PianoDetailPanelProps> = ({ piano, className =
           {/* Content */}
           <div className="p-4 overflow-y-auto flex-1 space-y-4">
             <div>
-              <h2 className="text-lg font-bold text-gray-900 leading-tight">{piano.piano_title}</h2>
+              <div className="flex items-start justify-between gap-2">
+                <h2 className="text-lg font-bold text-gray-900 leading-tight">{piano.piano_title}</h2>
+                <SavePianoButton pianoId={piano.id} pianoTitle={piano.piano_title} className="flex-shrink-0 p-1 rounded-full hover:bg-gray-100" />
+              </div>
               <div className="flex items-center text-gray-600 mt-1">
                 <User className="w-4 h-4 mr-2" />
-                <span className="text-sm">by {piano.artist_name}</span>
+                <span className="text-sm">
+                  by {piano.artists ? (
+                    <a href={artistUrl(piano.artists)} className="hover:text-green-700 hover:underline">{piano.artists.name}</a>
+                  ) : piano.artist_name}
+                </span>
               </div>
               {piano.piano_year && (
                 <div className="flex items-center text-gray-500 text-sm mt-1">
@@ -40,6 +52,12 @@ const PianoDetailPanel: React.FC<PianoDetailPanelProps> = ({ piano, className =
                   <span>{piano.piano_year}</span>
                 </div>
               )}
+              {formatTimesPlayed(piano.times_played) && (
+                <div className="flex items-center text-gray-500 text-sm mt-1">
+                  <Music className="w-4 h-4 mr-2" />
+                  <span>{formatTimesPlayed(piano.times_played)}</span>
+                </div>
+              )}
             </div>
 
             {(piano.perm_lat && piano.perm_lng) && (
@@ -87,6 +105,29 @@ const PianoDetailPanel: React.FC<PianoDetailPanelProps> = ({ piano, className =
                 </a>
               )}
             </div>
+
+            {onToggleTrail && (piano.perm_lat && piano.perm_lng) && (
+              <button
+                onClick={() => onToggleTrail(piano)}
+                aria-pressed={inTrail}
+                className={`w-full inline-flex items-center justify-center px-3 py-2 rounded-md text-sm font-semibold border transition-colors ${
+                  inTrail ? 'border-green-600 bg-green-50 text-green-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Footprints className="w-4 h-4 mr-1" />
+                {inTrail ? 'On your trail' : 'Add to trail'}
+              </button>
+            )}
+
+            {piano.piano_url && (
+              <a
+                href={`/piano/${piano.piano_url}#report`}
+                className="inline-flex items-center text-xs text-gray-500 hover:text-red-700"
+              >
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                Report a problem
+              </a>
+            )}
           </div>
         </div>
       )}
@@ -1,45 +1,83 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Map, Grid, Music } from 'lucide-react';
-import PianoMapML from './PianoMapML';
-import PianoListSidebar from './PianoListSidebar';
+import { Map, Grid, Music, Navigation } from 'lucide-react';
+import PianoMap from './PianoMap';
+import PianoListSidebar, { nearbyMessages, type PianoListMode } from './PianoListSidebar';
 import PianoDetailPanel from './PianoDetailPanel';
 import PianoFilters from './PianoFilters';
 import type { PianoFiltersState } from './PianoFilters';
 import PianoDetailModal from './PianoDetailModal';
-import { fetchPianos, type Piano } from '../lib/supabase';
+import type { Piano } from '../lib/supabase';
+import { fetchPianoDataset } from '../lib/piano-query';
+import { positionPianos, type LocationMode } from '../lib/piano-lifecycle';
+import { useNearbyPianos } from '../lib/nearby';
+import { formatDistance, type DistanceUnit } from '../lib/geo';
+import { decodeTrail, encodeTrail, orderTrail, trailLine, MAX_TRAIL_STOPS, TRAIL_PARAM } from '../lib/trail';
+import PianoTrailPanel from './PianoTrailPanel';
+import { currentProgramImages, precacheImages, useOnlineStatus } from '../lib/offline';
+import OfflineIndicator from './OfflineIndicator';
+import PianoTimeline from './PianoTimeline';
+import { deployedBy, yearCounts } from '../lib/timeline';
+import { colorCounts, matchesColors } from '../lib/palette';
+import { matchesTags, tagCounts } from '../lib/tags';
+import { readBrowseState, viewportCenter, writeBrowseState, type MapView } from '../lib/url-state';
 
 const PianoDiscovery: React.FC = () => {
   const [pianos, setPianos] = useState<Piano[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [dataDate, setDataDate] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'map' | 'gallery'>('map');
   const [selectedPiano, setSelectedPiano] = useState<Piano | null>(null);
+  const [locationMode, setLocationMode] = useState<LocationMode>('today');
+  const [listMode, setListMode] = useState<PianoListMode>('all');
+  const [trailIds, setTrailIds] = useState<number[]>([]);
+  const [timelineYear, setTimelineYear] = useState<number | null>(null);
   const [filters, setFilters] = useState<PianoFiltersState>({
     selectedYear: null,
     selectedProgram: null,
+    selectedColors: [],
+    selectedTags: [],
     searchQuery: ''
   });
+  const [mapView, setMapView] = useState<MapView | null>(null); // from a shared link or the back button
+  const [currentView, setCurrentView] = useState<MapView | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+
+  const isOnline = useOnlineStatus();
+
+  // The service worker answers from its offline copy when there is no signal
+  const loadPianos = async () => {
+    try {
+      setIsLoading(true);
+      setLoadError(false);
+      console.log('PianoDiscovery: Fetching pianos...');
+      const { pianos: pianosData, cachedAt } = await fetchPianoDataset();
+      console.log('PianoDiscovery: Fetched', pianosData.length, 'pianos');
+      console.log('PianoDiscovery: Sample piano data:', pianosData[0]);
+      setPianos(pianosData);
+      setDataDate(cachedAt || new Date().toISOString());
+      precacheImages(currentProgramImages(pianosData));
+    } catch (error) {
+      console.error('Failed to fetch pianos:', error);
+      setLoadError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   // Load pianos on mount
   useEffect(() => {
-    const loadPianos = async () => {
-      try {
-        setIsLoading(true);
-        console.log('PianoDiscovery: Fetching pianos...');
-        const pianosData = await fetchPianos();
-        console.log('PianoDiscovery: Fetched', pianosData.length, 'pianos');
-        console.log('PianoDiscovery: Sample piano data:', pianosData[0]);
-        setPianos(pianosData);
-      } catch (error) {
-        console.error('Failed to fetch pianos:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
     loadPianos();
+    // A shared trail link restores its stops
+    setTrailIds(decodeTrail(new URLSearchParams(window.location.search).get(TRAIL_PARAM)));
   }, []);
 
+  // Try again once the signal comes back
+  useEffect(() => {
+    if (isOnline && loadError) loadPianos();
+  }, [isOnline]);
+
   // Get available years from pianos
   const availableYears = useMemo(() => {
     const years = pianos
@@ -50,6 +88,9 @@ const PianoDiscovery: React.FC = () => {
     return [...new Set(years)];
   }, [pianos]);
 
+  // How many pianos each colour swatch would find
+  const swatchCounts = useMemo(() => colorCounts(pianos), [pianos]);
+
   // Filter pianos based on current filters
   const filteredPianos = useMemo(() => {
     let filtered = [...pianos];
@@ -67,6 +108,16 @@ const PianoDiscovery: React.FC = () => {
       console.log('PianoDiscovery: After program filter:', filtered.length, 'pianos');
     }
 
+    // Filter by colour
+    if (filters.selectedColors.length) {
+      filtered = filtered.filter(piano => matchesColors(piano.piano_colors, filters.selectedColors));
+    }
+
+    // Filter by tags
+    if (filters.selectedTags.length) {
+      filtered = filtered.filter(piano => matchesTags(piano.piano_tag_slugs, filters.selectedTags));
+    }
+
     // Filter by search query
     if (filters.searchQuery.trim()) {
       const query = filters.searchQuery.toLowerCase();
@@ -82,6 +133,135 @@ const PianoDiscovery: React.FC = () => {
     return filtered;
   }, [pianos, filters]);
 
+  // Tag facet counts within the current results, so every option says what it would leave
+  const facetCounts = useMemo(() => tagCounts(filteredPianos), [filteredPianos]);
+
+  // The map timeline counts the filtered pianos and shows those deployed up to its year
+  const timelineCounts = useMemo(() => yearCounts(filteredPianos), [filteredPianos]);
+
+  // Keep the timeline's year inside the range the current filters cover
+  useEffect(() => {
+    if (timelineYear === null) return;
+    const first = timelineCounts[0]?.year;
+    const last = timelineCounts[timelineCounts.length - 1]?.year;
+    if (timelineCounts.length < 2 || timelineYear > last) setTimelineYear(null);
+    else if (timelineYear < first) setTimelineYear(first);
+  }, [timelineCounts]);
+
+  // Plot each piano where it is today or where it debuted
+  const mappedPianos = useMemo(
+    () => positionPianos(deployedBy(filteredPianos, timelineYear), locationMode),
+    [filteredPianos, timelineYear, locationMode]
+  );
+
+  // "Nearest to you" mode: the server applies program/year, search is applied here
+  const nearby = useNearbyPianos(listMode === 'nearest', {
+    programs: filters.selectedProgram !== null ? [filters.selectedProgram] : [],
+    yearFrom: filters.selectedYear,
+    yearTo: filters.selectedYear
+  }, { fallback: pianos });
+
+  const nearbyPianos = useMemo(() => {
+    const query = filters.searchQuery.trim().toLowerCase();
+    const matches = query
+      ? nearby.pianos.filter(piano =>
+          piano.piano_title.toLowerCase().includes(query) ||
+          piano.artist_name.toLowerCase().includes(query) ||
+          (piano.piano_search && piano.piano_search.toLowerCase().includes(query))
+        )
+      : nearby.pianos;
+    return positionPianos(matches, locationMode);
+  }, [nearby.pianos, filters.searchQuery, locationMode]);
+
+  const listedPianos = listMode === 'nearest' ? nearbyPianos : mappedPianos;
+
+  // Trail stops stay on the map whatever the filters, in walking order
+  const trailStops = useMemo(() => {
+    const positioned = positionPianos(pianos, locationMode);
+    return orderTrail(trailIds
+      .map(id => positioned.find(piano => piano.id === id))
+      .filter((piano): piano is Piano => !!piano));
+  }, [pianos, trailIds, locationMode]);
+
+  const trailRoute = useMemo(() => trailLine(trailStops), [trailStops]);
+  const trailLabels = useMemo(
+    () => Object.fromEntries(trailStops.map((piano, index) => [piano.id, String(index + 1)])),
+    [trailStops]
+  );
+
+  const mapPianos = useMemo(() => {
+    const shown = new Set(mappedPianos.map(piano => piano.id));
+    return [...mappedPianos, ...trailStops.filter(piano => !shown.has(piano.id))];
+  }, [mappedPianos, trailStops]);
+
+  const toggleTrail = (piano: Piano) => {
+    setTrailIds(ids => ids.includes(piano.id)
+      ? ids.filter(id => id !== piano.id)
+      : ids.length < MAX_TRAIL_STOPS ? [...ids, piano.id] : ids);
+  };
+
+  // Keep the address bar shareable once the pianos (and so the trail) have loaded
+  useEffect(() => {
+    if (isLoading) return;
+    const url = new URL(window.location.href);
+    if (trailStops.length) url.searchParams.set(TRAIL_PARAM, encodeTrail(trailStops));
+    else url.searchParams.delete(TRAIL_PARAM);
+    window.history.replaceState(window.history.state, '', url);
+  }, [trailStops, isLoading]);
+
+  // Reads the address bar; a ref so the popstate listener sees the current pianos
+  const restoreRef = useRef<() => void>(() => {});
+  restoreRef.current = () => {
+    const state = readBrowseState();
+    setFilters({
+      selectedYear: state.year,
+      selectedProgram: state.program,
+      selectedColors: state.colors,
+      selectedTags: state.tags,
+      searchQuery: state.search
+    });
+    setViewMode(state.view);
+    setSelectedPiano(positionPianos(pianos, locationMode).find(piano => piano.id === state.piano) || null);
+    setMapView(state.map);
+    setCurrentView(state.map);
+  };
+
+  // Restore a shared link once the pianos are in, and again on back/forward
+  useEffect(() => {
+    if (isLoading) return;
+    restoreRef.current();
+    setIsRestored(true);
+    const onPopState = () => restoreRef.current();
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [isLoading]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    writeBrowseState({
+      year: filters.selectedYear,
+      program: filters.selectedProgram,
+      colors: filters.selectedColors,
+      tags: filters.selectedTags,
+      search: filters.searchQuery,
+      view: viewMode,
+      piano: selectedPiano?.id ?? null,
+      page: 1,
+      map: currentView
+    });
+  }, [isRestored, filters, viewMode, selectedPiano?.id, currentView]);
+
+  // New filters let the map fit their results again rather than hold a restored view
+  const updateFilters = (next: PianoFiltersState) => {
+    setFilters(next);
+    setMapView(null);
+  };
+
+  const hasPlacementHistory = useMemo(
+    () => pianos.some(piano => piano.current_location || piano.debut_location),
+    [pianos]
+  );
+
   // When switching to map view or after filters change, trigger a resize to
   // help map libraries recalc dimensions after animations/layout changes.
   useEffect(() => {
@@ -114,11 +294,33 @@ const PianoDiscovery: React.FC = () => {
     );
   }
 
+  if (loadError && pianos.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center max-w-sm px-4">
+          <Music className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-900 font-medium mb-1">Couldn't load the pianos</p>
+          <p className="text-gray-600 text-sm mb-4">
+            {isOnline
+              ? 'Something went wrong. Please try again.'
+              : "You're offline and there is no saved copy yet. We'll try again when you're back online."}
+          </p>
+          <button
+            onClick={loadPianos}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Try again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex-1 flex flex-col">
       {/* View Mode Toggle */}
       <div className="bg-white border-b border-gray-200 px-4 py-3">
-        <div className="flex items-center justify-center">
+        <div className="flex flex-wrap items-center justify-center gap-y-2">
           <div className="bg-gray-100 rounded-lg p-1 flex">
             <button
               onClick={() => setViewMode('map')}
@@ -143,15 +345,77 @@ const PianoDiscovery: React.FC = () => {
               <span>Gallery View</span>
             </button>
           </div>
+
+          {viewMode === 'map' && hasPlacementHistory && (
+            <div className="ml-3 bg-gray-100 rounded-lg p-1 flex" role="group" aria-label="Piano location">
+              {([
+                { id: 'today', label: 'Where they are today' },
+                { id: 'debut', label: 'Where they debuted' }
+              ] as { id: LocationMode; label: string }[]).map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setLocationMode(option.id)}
+                  aria-pressed={locationMode === option.id}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    locationMode === option.id
+                      ? 'bg-white text-green-700 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Phones get no sidebar, and neither does the gallery, so "Nearest to you" lives here too */}
+          <div
+            className={`ml-3 bg-gray-100 rounded-lg p-1 flex ${viewMode === 'map' ? 'lg:hidden' : ''}`}
+            role="group"
+            aria-label="List pianos"
+          >
+            {([
+              { id: 'all', label: 'All' },
+              { id: 'nearest', label: 'Nearest' }
+            ] as { id: PianoListMode; label: string }[]).map(option => (
+              <button
+                key={option.id}
+                onClick={() => setListMode(option.id)}
+                aria-pressed={listMode === option.id}
+                className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  listMode === option.id
+                    ? 'bg-white text-green-700 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option.id === 'nearest' && <Navigation className="w-4 h-4 mr-1" />}
+                {option.label}
+              </button>
+            ))}
+          </div>
         </div>
+        {listMode === 'nearest' && nearbyMessages[nearby.status] && (
+          <p className={`mt-2 text-center text-xs text-gray-500 ${viewMode === 'map' ? 'lg:hidden' : ''}`} role="status">
+            {nearbyMessages[nearby.status]}
+          </p>
+        )}
+        {/* The sidebar shows this in map view on large screens */}
+        {!isOnline && (
+          <OfflineIndicator
+            dataDate={dataDate}
+            className={`mt-3 max-w-md mx-auto justify-center ${viewMode === 'map' ? 'lg:hidden' : ''}`}
+          />
+        )}
       </div>
 
       {/* Filters */}
       <PianoFilters
         availableYears={availableYears}
         filters={filters}
-        onFiltersChange={setFilters}
-        pianoCount={filteredPianos.length}
+        onFiltersChange={updateFilters}
+        colorCounts={swatchCounts}
+        tagCounts={facetCounts}
+        pianoCount={listMode === 'nearest' ? nearbyPianos.length : filteredPianos.length}
       />
 
       {/* Main Content */}
@@ -169,28 +433,64 @@ const PianoDiscovery: React.FC = () => {
               {/* Left sidebar (desktop) */}
               <div className="hidden lg:block w-80 flex-shrink-0">
                 <PianoListSidebar
-                  pianos={filteredPianos}
+                  pianos={listedPianos}
                   selectedPiano={selectedPiano}
                   onSelect={handlePianoSelect}
-                  onSearch={(q) => setFilters(f => ({ ...f, searchQuery: q }))}
+                  onSearch={(q) => updateFilters({ ...filters, searchQuery: q })}
+                  listMode={listMode}
+                  onListModeChange={setListMode}
+                  nearbyStatus={nearby.status}
+                  distanceUnit={nearby.unit}
+                  isOffline={!isOnline}
+                  offlineDataDate={dataDate}
                   className="h-full"
                 />
               </div>
 
               {/* Map center */}
-              <div className="flex-1 min-w-0">
-                <PianoMapML
-                  pianos={filteredPianos}
-                  onPianoSelect={handlePianoSelect}
-                  selectedPiano={selectedPiano}
-                  className="h-full w-full"
-                  height="100%"
-                />
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex-1 min-h-0 relative">
+                  <PianoMap
+                    pianos={mapPianos}
+                    onPianoSelect={handlePianoSelect}
+                    selectedPiano={selectedPiano}
+                    route={trailRoute}
+                    markerLabels={trailLabels}
+                    autoFit={timelineYear === null} // hold the view still while the timeline adds pianos
+                    view={mapView}
+                    onBoundsChange={viewport => setCurrentView(viewportCenter(viewport))}
+                    className="h-full w-full"
+                    height="100%"
+                    minHeight="480px"
+                  />
+                  {trailStops.length > 0 && (
+                    <PianoTrailPanel
+                      stops={trailStops}
+                      distanceUnit={nearby.unit}
+                      onSelect={handlePianoSelect}
+                      onRemove={toggleTrail}
+                      onClear={() => setTrailIds([])}
+                      className="absolute bottom-4 left-4 z-[1000]"
+                    />
+                  )}
+                </div>
+                {listMode === 'all' && (
+                  <PianoTimeline
+                    counts={timelineCounts}
+                    year={timelineYear}
+                    onYearChange={setTimelineYear}
+                  />
+                )}
               </div>
 
               {/* Right detail panel (large screens) */}
               <div className="hidden xl:block w-[360px] flex-shrink-0">
-                <PianoDetailPanel piano={selectedPiano} className="h-full" />
+                <PianoDetailPanel
+                  piano={selectedPiano}
+                  inTrail={!!selectedPiano && trailIds.includes(selectedPiano.id)}
+                  onToggleTrail={toggleTrail}
+                  className="h-full"
+                />
               </div>
             </motion.div>
           ) : (
@@ -203,8 +503,9 @@ const PianoDiscovery: React.FC = () => {
               transition={{ duration: 0.3 }}
             >
               <PianoGalleryView
-                pianos={filteredPianos}
+                pianos={listMode === 'nearest' ? nearbyPianos : filteredPianos}
                 onPianoSelect={handlePianoSelect}
+                distanceUnit={nearby.unit}
               />
             </motion.div>
           )}
@@ -217,6 +518,8 @@ const PianoDiscovery: React.FC = () => {
           piano={selectedPiano}
           isOpen={!!selectedPiano}
           onClose={handleCloseModal}
+          inTrail={!!selectedPiano && trailIds.includes(selectedPiano.id)}
+          onToggleTrail={toggleTrail}
         />
       </div>
     </div>
@@ -227,9 +530,10 @@ const PianoDiscovery: React.FC = () => {
 interface PianoGalleryViewProps {
   pianos: Piano[];
   onPianoSelect: (piano: Piano) => void;
+  distanceUnit?: DistanceUnit;
 }
 
-const PianoGalleryView: React.FC<PianoGalleryViewProps> = ({ pianos, onPianoSelect }) => {
+const PianoGalleryView: React.FC<PianoGalleryViewProps> = ({ pianos, onPianoSelect, distanceUnit = 'km' }) => {
   if (pianos.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -283,7 +587,7 @@ const PianoGalleryView: React.FC<PianoGalleryViewProps> = ({ pianos, onPianoSele
                 {piano.perm_lat && piano.perm_lng && (
                   <div className="flex items-center text-xs text-gray-500">
                     <Map className="w-3 h-3 mr-1" />
-                    <span>Located</span>
+                    <span>{piano.distance != null ? formatDistance(piano.distance, distanceUnit) : 'Located'}</span>
                   </div>
                 )}
               </div>
@@ -1,11 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Filter, ChevronDown, X, Search } from 'lucide-react';
-import { fetchPianoPrograms } from '../lib/supabase';
+import { Filter, ChevronDown, X, Search, Tag } from 'lucide-react';
+import { fetchPianoPrograms, fetchPianoTags, type PianoTag } from '../lib/supabase';
+import { TAG_CATEGORIES } from '../lib/tags';
+import type { ColorFamily } from '../lib/palette';
+import ColorSwatchFilter from './ColorSwatchFilter';
 
 export interface PianoFiltersState {
   selectedYear: number | null;
   selectedProgram: number | null;
+  selectedColors: ColorFamily[];
+  selectedTags: string[]; // tag slugs; pianos must carry all of them
   searchQuery: string;
 }
 
@@ -13,6 +18,8 @@ interface PianoFiltersProps {
   availableYears: number[];
   filters: PianoFiltersState;
   onFiltersChange: (filters: PianoFiltersState) => void;
+  colorCounts?: Partial<Record<ColorFamily, number>>;
+  tagCounts?: Record<string, number>; // matching pianos that carry each tag
   pianoCount?: number;
   className?: string;
 }
@@ -27,12 +34,16 @@ const PianoFilters: React.FC<PianoFiltersProps> = ({
   availableYears,
   filters,
   onFiltersChange,
+  colorCounts,
+  tagCounts = {},
   pianoCount = 0,
   className = ''
 }) => {
   const [programs, setPrograms] = useState<Program[]>([]);
+  const [tags, setTags] = useState<PianoTag[]>([]);
   const [isYearOpen, setIsYearOpen] = useState(false);
   const [isProgramOpen, setIsProgramOpen] = useState(false);
+  const [isTagsOpen, setIsTagsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   // Fetch programs on mount
@@ -50,6 +61,7 @@ const PianoFilters: React.FC<PianoFiltersProps> = ({
     };
     
     loadPrograms();
+    fetchPianoTags().then(setTags);
   }, []);
 
   const handleYearChange = (year: number | null) => {
@@ -62,6 +74,17 @@ const PianoFilters: React.FC<PianoFiltersProps> = ({
     setIsProgramOpen(false);
   };
 
+  const toggleTag = (slug: string) => {
+    const selectedTags = filters.selectedTags.includes(slug)
+      ? filters.selectedTags.filter(other => other !== slug)
+      : [...filters.selectedTags, slug];
+    onFiltersChange({ ...filters, selectedTags });
+  };
+
+  const handleColorsChange = (colors: ColorFamily[]) => {
+    onFiltersChange({ ...filters, selectedColors: colors });
+  };
+
   const handleSearchChange = (query: string) => {
     onFiltersChange({ ...filters, searchQuery: query });
   };
@@ -70,15 +93,20 @@ const PianoFilters: React.FC<PianoFiltersProps> = ({
     onFiltersChange({
       selectedYear: null,
       selectedProgram: null,
+      selectedColors: [],
+      selectedTags: [],
       searchQuery: ''
     });
   };
 
   const hasActiveFilters = filters.selectedYear !== null || 
                           filters.selectedProgram !== null || 
+                          filters.selectedColors.length > 0 ||
+                          filters.selectedTags.length > 0 ||
                           filters.searchQuery.trim() !== '';
 
   const selectedProgramName = programs.find(p => p.id === filters.selectedProgram)?.act_title;
+  const selectedTagList = tags.filter(tag => filters.selectedTags.includes(tag.slug));
 
   return (
     <div className={`bg-white border-b border-gray-200 ${className}`}>
@@ -227,6 +255,78 @@ const PianoFilters: React.FC<PianoFiltersProps> = ({
             </AnimatePresence>
           </div>
 
+          {/* Tag Facets */}
+          {tags.length > 0 && (
+            <div className="relative flex-shrink-0">
+              <button
+                onClick={() => setIsTagsOpen(!isTagsOpen)}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                  filters.selectedTags.length > 0
+                    ? 'bg-green-50 border-green-200 text-green-700'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Tag className="w-4 h-4" />
+                <span>
+                  {filters.selectedTags.length ? `Tags (${filters.selectedTags.length})` : 'Tags'}
+                </span>
+                <ChevronDown className={`w-4 h-4 transition-transform ${isTagsOpen ? 'rotate-180' : ''}`} />
+              </button>
+
+              <AnimatePresence>
+                {isTagsOpen && (
+                  <>
+                    <div
+                      className="fixed inset-0 z-10"
+                      onClick={() => setIsTagsOpen(false)}
+                    />
+                    <motion.div
+                      className="absolute top-full left-0 mt-2 bg-white rounded-lg shadow-lg border border-gray-200 z-20 min-w-[220px] max-h-72 overflow-y-auto"
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      transition={{ duration: 0.2 }}
+                    >
+                      {TAG_CATEGORIES.map(category => {
+                        const options = tags.filter(tag => tag.category === category.id);
+                        if (!options.length) return null;
+                        return (
+                          <div key={category.id} className="py-2 border-b border-gray-100 last:border-0">
+                            <div className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                              {category.label}
+                            </div>
+                            {options.map(tag => {
+                              const isSelected = filters.selectedTags.includes(tag.slug);
+                              const count = tagCounts[tag.slug] || 0;
+                              return (
+                                <label
+                                  key={tag.slug}
+                                  className={`flex items-center px-4 py-2 text-sm ${
+                                    count === 0 && !isSelected ? 'text-gray-400' : 'text-gray-700 hover:bg-gray-50 cursor-pointer'
+                                  }`}
+                                >
+                                  <input
+                                    type="checkbox"
+                                    checked={isSelected}
+                                    disabled={count === 0 && !isSelected}
+                                    onChange={() => toggleTag(tag.slug)}
+                                    className="mr-3 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                                  />
+                                  <span className="flex-1 truncate">{tag.label}</span>
+                                  <span className="ml-3 text-xs text-gray-500">{count}</span>
+                                </label>
+                              );
+                            })}
+                          </div>
+                        );
+                      })}
+                    </motion.div>
+                  </>
+                )}
+              </AnimatePresence>
+            </div>
+          )}
+
           {/* Clear Filters */}
           {hasActiveFilters && (
             <motion.button
@@ -242,6 +342,29 @@ const PianoFilters: React.FC<PianoFiltersProps> = ({
           )}
         </div>
 
+        {/* Selected Tags */}
+        {selectedTagList.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {selectedTagList.map(tag => (
+              <button
+                key={tag.slug}
+                onClick={() => toggleTag(tag.slug)}
+                className="inline-flex items-center px-3 py-1 rounded-full bg-green-50 border border-green-200 text-green-700 text-xs font-medium hover:bg-green-100"
+                aria-label={`Remove tag ${tag.label}`}
+              >
+                {tag.label}
+                <X className="w-3 h-3 ml-1" />
+              </button>
+            ))}
+          </div>
+        )}
+
+        <ColorSwatchFilter
+          selected={filters.selectedColors}
+          onChange={handleColorsChange}
+          counts={colorCounts}
+        />
+
         {/* Results Count */}
         <div className="flex items-center justify-between text-sm text-gray-600">
           <div>
@@ -1,7 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
-import mapboxgl from 'mapbox-gl';
-import 'mapbox-gl/dist/mapbox-gl.css';
+import { fetchAllPianos } from '../lib/piano-query';
+import { artistUrl, pianoArtistName } from '../lib/artists';
+import { normalizeImageUrl } from '../lib/piano-images';
+import { colorCounts, matchesColors, type ColorFamily } from '../lib/palette';
+import { DEFAULT_BROWSE_STATE, readBrowseState, viewportCenter, writeBrowseState, type MapView } from '../lib/url-state';
+import PianoMap from './PianoMap';
+import ColorSwatchFilter from './ColorSwatchFilter';
 
 interface Piano {
   id: number;
@@ -9,11 +14,13 @@ interface Piano {
   piano_year: number | null;
   piano_image: string;
   artist_name: string;
+  artists?: { name: string; slug: string } | null;
   piano_program: number | null;
   piano_url: string;
   perm_lat: number | null;
   perm_lng: number | null;
   piano_search?: string;
+  piano_colors?: ColorFamily[];
 }
 
 interface Program {
@@ -21,15 +28,6 @@ interface Program {
   act_title: string;
 }
 
-mapboxgl.accessToken = import.meta.env.PUBLIC_MAPBOX_TOKEN;
-
-// Debug logging for Vercel deployment
-console.log('Mapbox token configured:', !!mapboxgl.accessToken);
-console.log('Environment:', import.meta.env.MODE);
-if (!mapboxgl.accessToken) {
-  console.error('Mapbox token is not configured. Please set PUBLIC_MAPBOX_TOKEN in environment variables.');
-}
-
 // Error Boundary Component
 class PianoGalleryErrorBoundary extends React.Component<
   { children: React.ReactNode },
@@ -85,6 +83,7 @@ const PianoGallery: React.FC = () => {
   
   const [selectedProgram, setSelectedProgram] = useState<string>('');
   const [selectedYear, setSelectedYear] = useState<string>('');
+  const [selectedColors, setSelectedColors] = useState<ColorFamily[]>([]);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [selectedPiano, setSelectedPiano] = useState<Piano | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
@@ -92,23 +91,12 @@ const PianoGallery: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [showProgramDropdown, setShowProgramDropdown] = useState(false);
   const [showYearDropdown, setShowYearDropdown] = useState(false);
-  
-  const mapContainer = useRef<HTMLDivElement>(null);
-  const map = useRef<mapboxgl.Map | null>(null);
-  const markers = useRef<mapboxgl.Marker[]>([]);
+  const [mapView, setMapView] = useState<MapView | null>(null); // from a shared link or the back button
+  const [currentView, setCurrentView] = useState<MapView | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
   
   const itemsPerPage = 24;
 
-  // Normalize image URLs that might be stored as relative storage paths
-  const normalizeImageUrl = (src?: string) => {
-    if (!src) return '/pianos-icon.png';
-    if (/^https?:\/\//i.test(src)) return src;
-    const base = import.meta.env.PUBLIC_SUPABASE_URL || '';
-    if (!base) return src; // best effort
-    if (src.startsWith('/')) return `${base}${src}`;
-    return `${base}/${src}`;
-  };
-
   // Check if desktop layout
   useEffect(() => {
     const checkScreenSize = () => {
@@ -125,23 +113,54 @@ const PianoGallery: React.FC = () => {
     fetchInitialData();
   }, []);
 
-  // Initialize map
-  useEffect(() => {
-    if (mapContainer.current && !map.current) {
-      initializeMap();
-    }
-  }, [mapContainer.current]);
-
   // Update filtered pianos when filters change
   useEffect(() => {
     applyFilters();
-  }, [pianos, selectedProgram, selectedYear, searchTerm]);
+  }, [pianos, selectedProgram, selectedYear, selectedColors, searchTerm]);
 
   // Update available options when filters change
   useEffect(() => {
     updateAvailableOptions();
   }, [pianos, selectedProgram, selectedYear]);
 
+  // Reads the address bar; a ref so the popstate listener sees the current pianos
+  const restoreRef = useRef<() => void>(() => {});
+  restoreRef.current = () => {
+    const state = readBrowseState();
+    setSelectedProgram(state.program !== null ? String(state.program) : '');
+    setSelectedYear(state.year !== null ? String(state.year) : '');
+    setSelectedColors(state.colors);
+    setSearchTerm(state.search);
+    setSelectedPiano(pianos.find(piano => piano.id === state.piano) || null);
+    setCurrentPage(state.page);
+    setMapView(state.map);
+    setCurrentView(state.map);
+  };
+
+  // Restore a shared link once the pianos are in, and again on back/forward
+  useEffect(() => {
+    if (isLoading) return;
+    restoreRef.current();
+    setIsRestored(true);
+    const onPopState = () => restoreRef.current();
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [isLoading]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    writeBrowseState({
+      ...DEFAULT_BROWSE_STATE,
+      year: selectedYear ? Number(selectedYear) : null,
+      program: selectedProgram ? Number(selectedProgram) : null,
+      colors: selectedColors,
+      search: searchTerm,
+      piano: selectedPiano?.id ?? null,
+      page: currentPage,
+      map: currentView
+    });
+  }, [isRestored, selectedYear, selectedProgram, selectedColors, searchTerm, selectedPiano?.id, currentPage, currentView]);
+
   // Close dropdowns when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -156,20 +175,10 @@ const PianoGallery: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Update map markers when filtered pianos change
-  useEffect(() => {
-    updateMapMarkers();
-  }, [filteredPianos]);
-
   const fetchInitialData = async () => {
     try {
       // Fetch all pianos
-      const { data: pianosData, error: pianosError } = await supabase
-        .from('pianos')
-        .select('id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng, piano_search')
-        .order('piano_year', { ascending: false });
-
-      if (pianosError) throw pianosError;
+      const pianosData = await fetchAllPianos({ sort: 'year_desc' });
 
       // Fetch programs
       const { data: programsData, error: programsError } = await supabase
@@ -206,22 +215,6 @@ const PianoGallery: React.FC = () => {
     }
   };
 
-  const initializeMap = () => {
-    if (!mapContainer.current) return;
-
-    map.current = new mapboxgl.Map({
-      container: mapContainer.current,
-      style: 'mapbox://styles/mapbox/streets-v12',
-      center: [0, 0],
-      zoom: 1,
-      attributionControl: false,
-    });
-
-    map.current.scrollZoom.disable();
-    map.current.addControl(new mapboxgl.NavigationControl());
-    map.current.addControl(new mapboxgl.FullscreenControl());
-  };
-
   const updateAvailableOptions = () => {
     if (!pianos.length) return;
 
@@ -298,12 +291,18 @@ const PianoGallery: React.FC = () => {
         });
       }
 
+      // Filter by colour
+      if (selectedColors.length) {
+        filtered = filtered.filter(piano => matchesColors(piano.piano_colors, selectedColors));
+      }
+
       // Filter by search term
       if (searchTerm) {
         const term = searchTerm.toLowerCase();
         filtered = filtered.filter(piano => 
           (piano.piano_title && piano.piano_title.toLowerCase().includes(term)) ||
           (piano.artist_name && piano.artist_name.toLowerCase().includes(term)) ||
+          (piano.artists?.name && piano.artists.name.toLowerCase().includes(term)) ||
           (piano.piano_search && piano.piano_search.toLowerCase().includes(term))
         );
       }
@@ -322,7 +321,6 @@ const PianoGallery: React.FC = () => {
       });
 
       setFilteredPianos(filtered);
-      setCurrentPage(1);
       
     } catch (error) {
       console.error('Error applying filters:', error);
@@ -330,75 +328,8 @@ const PianoGallery: React.FC = () => {
     }
   };
 
-  const updateMapMarkers = () => {
-    if (!map.current) return;
-
-    // Clear existing markers
-    markers.current.forEach(marker => marker.remove());
-    markers.current = [];
-
-    const bounds = new mapboxgl.LngLatBounds();
-    let hasValidCoordinates = false;
-
-
-    // Add new markers for filtered pianos
-    filteredPianos.forEach((piano) => {
-      if (piano.perm_lat && piano.perm_lng) {
-        const el = document.createElement('div');
-        el.className = 'piano-marker';
-        el.style.backgroundColor = '#22c55e';
-        el.style.border = '2px solid #ffffff';
-        el.style.borderRadius = '50%';
-        el.style.width = '16px';
-        el.style.height = '16px';
-        el.style.cursor = 'pointer';
-        el.style.boxShadow = '0 2px 4px rgba(0,0,0,0.3)';
-
-        // Highlight selected piano
-        if (selectedPiano && selectedPiano.id === piano.id) {
-          el.style.backgroundColor = '#f59e0b';
-          el.style.width = '20px';
-          el.style.height = '20px';
-          el.style.boxShadow = '0 4px 8px rgba(0,0,0,0.4)';
-        }
-
-        const marker = new mapboxgl.Marker(el)
-          .setLngLat([parseFloat(piano.perm_lng!.toString()), parseFloat(piano.perm_lat!.toString())])
-          .addTo(map.current!);
-
-        el.addEventListener('click', () => {
-          selectPiano(piano);
-        });
-
-        markers.current.push(marker);
-        bounds.extend([parseFloat(piano.perm_lng!.toString()), parseFloat(piano.perm_lat!.toString())]);
-        hasValidCoordinates = true;
-      }
-    });
-
-    // Fit map to show all markers
-    if (hasValidCoordinates && map.current) {
-      map.current.fitBounds(bounds, { 
-        padding: { top: 50, bottom: 50, left: 50, right: 50 },
-        maxZoom: 15
-      });
-    }
-  };
-
   const selectPiano = async (piano: Piano) => {
     setSelectedPiano(piano);
-    
-    if (map.current && piano.perm_lat && piano.perm_lng) {
-      try {
-        map.current.flyTo({
-          center: [parseFloat(piano.perm_lng!.toString()), parseFloat(piano.perm_lat!.toString())],
-          zoom: 15,
-          essential: true
-        });
-      } catch (error) {
-        console.error('Error flying to piano location:', error);
-      }
-    }
 
     // Scroll to piano in list on mobile
     if (!isDesktop) {
@@ -411,8 +342,15 @@ const PianoGallery: React.FC = () => {
     }
   };
 
+  // New filters start from the first page and let the map fit their results again
+  const resetView = () => {
+    setCurrentPage(1);
+    setMapView(null);
+  };
+
   const handleProgramChange = (newProgram: string) => {
     setSelectedProgram(newProgram);
+    resetView();
     
     // If the current year is not available for the new program, clear it
     if (newProgram && selectedYear) {
@@ -431,6 +369,7 @@ const PianoGallery: React.FC = () => {
 
   const handleYearChange = (newYear: string) => {
     setSelectedYear(newYear);
+    resetView();
     
     // If the current program is not available for the new year, clear it
     if (newYear && selectedProgram) {
@@ -450,8 +389,10 @@ const PianoGallery: React.FC = () => {
   const clearFilters = () => {
     setSelectedProgram('');
     setSelectedYear('');
+    setSelectedColors([]);
     setSearchTerm('');
     setSelectedPiano(null);
+    resetView();
   };
 
   const loadMore = () => {
@@ -497,7 +438,10 @@ const PianoGallery: React.FC = () => {
               className="py-2 px-3 ps-10 pe-16 block w-full bg-gray-200 xl:bg-gray-100 border-transparent rounded-lg text-sm focus:border-blue-500 focus:ring-blue-500"
               placeholder="Search pianos, artists..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                resetView();
+              }}
             />
           </div>
         </div>
@@ -617,7 +561,7 @@ const PianoGallery: React.FC = () => {
           </div>
           
           {/* Clear Filters */}
-          {(selectedProgram || selectedYear || searchTerm) && (
+          {(selectedProgram || selectedYear || selectedColors.length > 0 || searchTerm) && (
             <button
               onClick={clearFilters}
               className="py-2 px-3 bg-gray-500 text-white text-sm rounded-md hover:bg-gray-600 transition-colors"
@@ -628,11 +572,34 @@ const PianoGallery: React.FC = () => {
         </div>
       </div>
 
+      <div className="bg-white px-4 py-3 border-b border-gray-200">
+        <ColorSwatchFilter
+          selected={selectedColors}
+          onChange={(colors) => {
+            setSelectedColors(colors);
+            resetView();
+          }}
+          counts={colorCounts(pianos)}
+        />
+      </div>
+
       {/* Main Content - Desktop: Two Column, Mobile: Map + Overlay */}
       <div className={`flex ${isDesktop ? 'lg:flex-row' : 'flex-col'} h-full`}>
         {/* Map Container */}
         <div className={`${isDesktop ? 'lg:w-1/2 lg:h-[80vh]' : 'h-[60vh] relative'} bg-gray-100`}>
-          <div ref={mapContainer} className="w-full h-full" />
+          <PianoMap
+            pianos={filteredPianos}
+            selectedPiano={selectedPiano}
+            onPianoSelect={selectPiano}
+            scrollZoom={false}
+            initialCenter={[0, 0]}
+            initialZoom={1}
+            view={mapView}
+            onBoundsChange={viewport => setCurrentView(viewportCenter(viewport))}
+            height="100%"
+            minHeight="0"
+            className="w-full"
+          />
           
           {/* Selected Piano Info (Mobile Overlay) */}
           {!isDesktop && selectedPiano && (
@@ -646,7 +613,7 @@ const PianoGallery: React.FC = () => {
                 />
                 <div className="flex-1">
                   <h3 className="font-bold text-lg leading-tight">{selectedPiano.piano_title}</h3>
-                  <p className="text-sm text-gray-600">{selectedPiano.artist_name}</p>
+                  <p className="text-sm text-gray-600">{pianoArtistName(selectedPiano)}</p>
                   <span className="inline-block px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full font-medium">{selectedPiano.piano_year || 'N/A'}</span>
                 </div>
                 <div className="flex flex-col gap-2">
@@ -710,7 +677,15 @@ const PianoGallery: React.FC = () => {
                       {piano.piano_title}
                     </h3>
                     <p className="text-sm text-gray-500 mb-2">
-                      {piano.artist_name}
+                      {piano.artists ? (
+                        <a
+                          href={artistUrl(piano.artists)}
+                          className="hover:text-gray-800 hover:underline"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {piano.artists.name}
+                        </a>
+                      ) : piano.artist_name}
                     </p>
                     <a 
                       href={`/piano/${piano.piano_url}`}
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Camera } from 'lucide-react';
+import { focalPosition, type GalleryImage } from '../lib/piano-images';
+
+interface PianoImageGalleryProps {
+  images: GalleryImage[];
+  title: string;
+  aspectClassName?: string;
+  fallbackSrc?: string;
+  showCaptions?: boolean;
+  className?: string;
+}
+
+// Swipeable image gallery: native scroll snapping for touch, buttons and arrow keys otherwise
+const PianoImageGallery: React.FC<PianoImageGalleryProps> = ({
+  images,
+  title,
+  aspectClassName = 'aspect-[4/3]',
+  fallbackSrc = '/singforhopepianos.jpg',
+  showCaptions = true,
+  className = ''
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+
+  // Reset when a different piano's images come in
+  useEffect(() => {
+    setIndex(0);
+    trackRef.current?.scrollTo({ left: 0 });
+  }, [images]);
+
+  const goTo = (next: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    const clamped = Math.max(0, Math.min(images.length - 1, next));
+    track.scrollTo({ left: clamped * track.clientWidth, behavior: 'smooth' });
+  };
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track || !track.clientWidth) return;
+    setIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      goTo(index + 1);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      goTo(index - 1);
+    }
+  };
+
+  if (images.length === 0) {
+    return (
+      <div className={`${aspectClassName} bg-gray-100 ${className}`}>
+        <img src={fallbackSrc} alt={title} className="w-full h-full object-contain" />
+      </div>
+    );
+  }
+
+  const current = images[Math.min(index, images.length - 1)];
+  const hasMany = images.length > 1;
+
+  return (
+    <div className={className}>
+      <div className="relative">
+        <div
+          ref={trackRef}
+          onScroll={handleScroll}
+          onKeyDown={handleKeyDown}
+          tabIndex={hasMany ? 0 : -1}
+          role="region"
+          aria-roledescription="carousel"
+          aria-label={`${title} photos`}
+          className={`${aspectClassName} flex overflow-x-auto snap-x snap-mandatory scroll-smooth bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-green-500 [scrollbar-width:none] [&::-webkit-scrollbar]:hidden`}
+        >
+          {images.map((image, i) => (
+            <div
+              key={image.id || i}
+              className="w-full h-full flex-shrink-0 snap-center"
+              role="group"
+              aria-roledescription="slide"
+              aria-label={`${i + 1} of ${images.length}`}
+            >
+              <img
+                src={image.src}
+                srcSet={image.srcset}
+                sizes={image.sizes}
+                alt={image.alt || title}
+                width={image.width || undefined}
+                height={image.height || undefined}
+                loading={i === 0 ? 'eager' : 'lazy'}
+                decoding="async"
+                draggable={false}
+                className="w-full h-full object-cover"
+                style={{ objectPosition: focalPosition(image) }}
+                onError={(e) => {
+                  const img = e.currentTarget as HTMLImageElement;
+                  img.onerror = null;
+                  img.srcset = '';
+                  img.src = fallbackSrc;
+                  img.style.objectFit = 'contain';
+                }}
+              />
+            </div>
+          ))}
+        </div>
+
+        {hasMany && (
+          <>
+            <button
+              onClick={() => goTo(index - 1)}
+              disabled={index === 0}
+              className="absolute left-3 top-1/2 -translate-y-1/2 bg-white/90 hover:bg-white rounded-full p-2 shadow-lg disabled:opacity-0 transition-opacity"
+              aria-label="Previous photo"
+            >
+              <ChevronLeft className="w-5 h-5 text-gray-700" aria-hidden="true" />
+            </button>
+            <button
+              onClick={() => goTo(index + 1)}
+              disabled={index === images.length - 1}
+              className="absolute right-3 top-1/2 -translate-y-1/2 bg-white/90 hover:bg-white rounded-full p-2 shadow-lg disabled:opacity-0 transition-opacity"
+              aria-label="Next photo"
+            >
+              <ChevronRight className="w-5 h-5 text-gray-700" aria-hidden="true" />
+            </button>
+            <div className="absolute bottom-3 right-3 bg-black/60 text-white text-xs font-medium px-2 py-1 rounded-full" aria-live="polite">
+              {index + 1} / {images.length}
+            </div>
+          </>
+        )}
+      </div>
+
+      {hasMany && (
+        <div className="flex justify-center gap-1.5 mt-3" role="tablist" aria-label="Choose photo">
+          {images.map((image, i) => (
+            <button
+              key={image.id || i}
+              onClick={() => goTo(i)}
+              role="tab"
+              aria-selected={i === index}
+              aria-label={`Photo ${i + 1}`}
+              className={`h-2 rounded-full transition-all ${i === index ? 'w-6 bg-green-600' : 'w-2 bg-gray-300 hover:bg-gray-400'}`}
+            />
+          ))}
+        </div>
+      )}
+
+      {showCaptions && (current.caption || current.credit) && (
+        <div className="px-4 pt-3 text-sm">
+          {current.caption && <p className="text-gray-700">{current.caption}</p>}
+          {current.credit && (
+            <p className="flex items-center text-xs text-gray-500 mt-1">
+              <Camera className="w-3 h-3 mr-1" aria-hidden="true" />
+              {current.credit}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PianoImageGallery;
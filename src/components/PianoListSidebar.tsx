@@ -1,32 +1,83 @@
 import React from 'react';
-import { Search, MapPin, Music } from 'lucide-react';
+import { Search, MapPin, Music, Navigation } from 'lucide-react';
 import type { Piano } from '../lib/supabase';
+import { formatDistance, type DistanceUnit } from '../lib/geo';
+import type { NearbyStatus } from '../lib/nearby';
+import OfflineIndicator from './OfflineIndicator';
+
+export type PianoListMode = 'all' | 'nearest';
 
 interface PianoListSidebarProps {
   pianos: Piano[];
   selectedPiano: Piano | null;
   onSelect: (p: Piano) => void;
   onSearch?: (value: string) => void;
+  listMode?: PianoListMode;
+  onListModeChange?: (mode: PianoListMode) => void;
+  nearbyStatus?: NearbyStatus;
+  distanceUnit?: DistanceUnit;
+  offlineDataDate?: string | null; // set while offline
+  isOffline?: boolean;
   className?: string;
 }
 
+export const nearbyMessages: Partial<Record<NearbyStatus, string>> = {
+  locating: 'Finding your location…',
+  loading: 'Looking for pianos near you…',
+  denied: 'Location access was denied. Allow it in your browser to see the nearest pianos.',
+  unavailable: 'Your location is not available on this device right now.',
+  error: 'Could not load nearby pianos. Please try again.'
+};
+
 const PianoListSidebar: React.FC<PianoListSidebarProps> = ({
   pianos,
   selectedPiano,
   onSelect,
   onSearch,
+  listMode = 'all',
+  onListModeChange,
+  nearbyStatus = 'idle',
+  distanceUnit = 'km',
+  offlineDataDate = null,
+  isOffline = false,
   className = ''
 }) => {
+  const nearbyMessage = listMode === 'nearest' ? nearbyMessages[nearbyStatus] : undefined;
+
   return (
     <aside className={`h-full bg-white border-r border-gray-200 ${className}`}>
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between mb-3">
-          <h3 className="text-sm font-semibold text-gray-700">Pianos in View</h3>
+          <h3 className="text-sm font-semibold text-gray-700">
+            {listMode === 'nearest' ? 'Nearest to You' : 'Pianos in View'}
+          </h3>
           <div className="flex items-center text-xs text-gray-500">
             <Music className="w-3 h-3 mr-1" />
             {pianos.length}
           </div>
         </div>
+        {onListModeChange && (
+          <div className="bg-gray-100 rounded-lg p-1 flex mb-3" role="group" aria-label="List pianos">
+            {([
+              { id: 'all', label: 'In view' },
+              { id: 'nearest', label: 'Nearest to you' }
+            ] as { id: PianoListMode; label: string }[]).map(option => (
+              <button
+                key={option.id}
+                onClick={() => onListModeChange(option.id)}
+                aria-pressed={listMode === option.id}
+                className={`flex-1 flex items-center justify-center px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  listMode === option.id
+                    ? 'bg-white text-green-700 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option.id === 'nearest' && <Navigation className="w-3 h-3 mr-1" />}
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="relative">
           <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
           <input
@@ -38,7 +89,14 @@ const PianoListSidebar: React.FC<PianoListSidebarProps> = ({
         </div>
       </div>
 
-      <div className="overflow-y-auto h-[calc(100%-80px)] p-2 space-y-2">
+      <div className={`overflow-y-auto p-2 space-y-2 ${onListModeChange ? 'h-[calc(100%-124px)]' : 'h-[calc(100%-80px)]'}`}>
+        {isOffline && <OfflineIndicator dataDate={offlineDataDate} />}
+        {nearbyMessage && (
+          <p className="px-2 py-3 text-xs text-gray-500" role="status">{nearbyMessage}</p>
+        )}
+        {listMode === 'nearest' && nearbyStatus === 'ready' && pianos.length === 0 && (
+          <p className="px-2 py-3 text-xs text-gray-500" role="status">No pianos found near you.</p>
+        )}
         {pianos.map((p) => {
           const isActive = selectedPiano && (selectedPiano.id === p.id);
           return (
@@ -65,7 +123,11 @@ const PianoListSidebar: React.FC<PianoListSidebarProps> = ({
                     <div className="text-[11px] text-gray-500 mt-0.5">{p.piano_year}</div>
                   )}
                 </div>
-                {(p.perm_lat && p.perm_lng) && (
+                {p.distance != null ? (
+                  <span className="text-[11px] font-medium text-green-700 bg-green-50 px-2 py-0.5 rounded-full flex-shrink-0">
+                    {formatDistance(p.distance, distanceUnit)}
+                  </span>
+                ) : (p.perm_lat && p.perm_lng) && (
                   <MapPin className="w-4 h-4 text-gray-400 flex-shrink-0" />
                 )}
               </div>
@@ -1,262 +1,272 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import mapboxgl from 'mapbox-gl';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Music, MapPin, Navigation, Maximize2 } from 'lucide-react';
-import type { Piano } from '../lib/supabase';
-
-// Import Mapbox CSS
-import 'mapbox-gl/dist/mapbox-gl.css';
-
-interface PianoMapProps {
-  pianos: Piano[];
-  onPianoSelect?: (piano: Piano) => void;
+import { Music, MapPin, LocateFixed } from 'lucide-react';
+import {
+  boundsOf,
+  clusterMarkers,
+  hasCoordinates,
+  loadMapAdapter,
+  mapProviderChain,
+  markersInView,
+  pianoPopupHtml,
+  shouldSpiderfy,
+  spiderfyMarkers,
+  type MapAdapter,
+  type MapMarker,
+  type MapPiano,
+  type MapProviderId,
+  type MapViewport
+} from '../lib/map-providers';
+import type { MapView } from '../lib/url-state';
+
+interface PianoMapProps<T extends MapPiano> {
+  pianos: T[];
+  onPianoSelect?: (piano: NoInfer<T>) => void;
+  selectedPiano?: MapPiano | null;
+  provider?: MapProviderId; // overrides PUBLIC_MAP_PROVIDER for this map
   className?: string;
   showControls?: boolean;
   height?: string;
-  initialCenter?: [number, number];
+  minHeight?: string;
+  initialCenter?: [number, number]; // [lat, lng]
   initialZoom?: number;
+  scrollZoom?: boolean;
+  popups?: boolean; // title/artist popup on marker click
+  cluster?: boolean; // group nearby pianos; co-located ones fan out when clicked
+  autoFit?: boolean; // zoom to the pianos whenever they change
+  view?: MapView | null; // a view to show instead, e.g. from a shared link; moves the map when it changes
+  route?: [number, number][]; // [lng, lat] line drawn over the markers
+  markerLabels?: Record<number, string>; // piano id -> text shown inside its marker
+  onBoundsChange?: (viewport: MapViewport) => void;
+  onUserLocation?: (position: [number, number]) => void; // [lat, lng]
+  onReady?: (provider: MapProviderId) => void; // a provider has loaded
 }
 
-// Set Mapbox access token from environment variable
-mapboxgl.accessToken = import.meta.env.PUBLIC_MAPBOX_TOKEN;
+const NYC: [number, number] = [40.7128, -74.006];
 
-const PianoMap: React.FC<PianoMapProps> = ({
+/**
+ * The piano map. Rendering is delegated to a provider adapter (Mapbox, MapLibre,
+ * Leaflet or OpenLayers) chosen by PUBLIC_MAP_PROVIDER; when one can't load, e.g.
+ * Mapbox without a token or with a broken style, the next token-free one takes over.
+ */
+function PianoMap<T extends MapPiano>({
   pianos = [],
   onPianoSelect,
+  selectedPiano = null,
+  provider,
   className = '',
   showControls = true,
   height = '400px',
-  initialCenter = [-74.006, 40.7128], // NYC
-  initialZoom = 11
-}) => {
-  const mapContainer = useRef<HTMLDivElement>(null);
-  const map = useRef<mapboxgl.Map | null>(null);
-  const markers = useRef<mapboxgl.Marker[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [mapLoaded, setMapLoaded] = useState(false);
-  const [pianoCount, setPianoCount] = useState(0);
-  const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
-
-  // Initialize map
+  minHeight,
+  initialCenter = NYC,
+  initialZoom = 11,
+  scrollZoom = true,
+  popups = false,
+  cluster = true,
+  autoFit = true,
+  view = null,
+  route,
+  markerLabels,
+  onBoundsChange,
+  onUserLocation,
+  onReady
+}: PianoMapProps<T>) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [adapter, setAdapter] = useState<MapAdapter | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const [spider, setSpider] = useState<{ keys: string[]; center: { lat: number; lng: number } } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Adapters are created once; these refs let their event handlers see current props
+  const markerClickRef = useRef<(key: string) => void>(() => {});
+  const boundsChangeRef = useRef(onBoundsChange);
+  boundsChangeRef.current = onBoundsChange;
+  const readyRef = useRef(onReady);
+  readyRef.current = onReady;
+
+  const validPianos = useMemo(() => pianos.filter(hasCoordinates), [pianos]);
+
+  // Load the first provider in the fallback chain that works
   useEffect(() => {
-    if (!mapContainer.current || map.current) return;
-
-    try {
-      console.log('PianoMap: Initializing map...');
-      const mapInstance = new mapboxgl.Map({
-        container: mapContainer.current,
-        style: 'mapbox://styles/mapbox/streets-v11', // Fallback to basic style
-        center: initialCenter,
-        zoom: initialZoom,
-        attributionControl: false,
-        logoPosition: 'bottom-right'
-      });
-      console.log('PianoMap: Map instance created');
-
-    // Mobile optimizations
-    mapInstance.touchZoomRotate.disableRotation();
-    mapInstance.dragRotate.disable();
-
-    // Add navigation controls
-    if (showControls) {
-      const nav = new mapboxgl.NavigationControl({
-        showCompass: false,
-        visualizePitch: false
-      });
-      mapInstance.addControl(nav, 'top-right');
-
-      // Add geolocate control for mobile
-      const geolocate = new mapboxgl.GeolocateControl({
-        positionOptions: {
-          enableHighAccuracy: true,
-          timeout: 6000
-        },
-        trackUserLocation: false,
-        showUserHeading: false
-      });
-      mapInstance.addControl(geolocate, 'top-right');
-    }
-
-    map.current = mapInstance;
-
-    mapInstance.on('load', () => {
-      console.log('PianoMap: Map loaded successfully');
-      setMapLoaded(true);
-      setIsLoading(false);
-    });
-
-    mapInstance.on('error', (e) => {
-      console.error('PianoMap: Map error:', e);
-      setIsLoading(false);
-    });
-
-    // Cleanup
-    return () => {
-      if (map.current) {
-        map.current.remove();
-        map.current = null;
+    let cancelled = false;
+    let current: MapAdapter | null = null;
+
+    const start = async () => {
+      for (const id of mapProviderChain(provider)) {
+        if (!containerRef.current) return;
+        try {
+          const create = await loadMapAdapter(id);
+          if (cancelled) return;
+          const created = await create(
+            containerRef.current,
+            { center: initialCenter, zoom: initialZoom, showControls, scrollZoom },
+            {
+              onMarkerClick: key => markerClickRef.current(key),
+              onViewportChange: next => {
+                setViewport(next);
+                boundsChangeRef.current?.(next);
+              }
+            }
+          );
+          if (cancelled) {
+            created.destroy();
+            return;
+          }
+          current = created;
+          setAdapter(created);
+          setViewport(created.getViewport());
+          readyRef.current?.(created.provider);
+          return;
+        } catch (error) {
+          console.warn(`PianoMap: ${id} map unavailable, trying the next provider`, error);
+          containerRef.current?.replaceChildren();
+        }
       }
+      if (!cancelled) setFailed(true);
     };
-    } catch (error) {
-      console.error('PianoMap: Error initializing map:', error);
-      setIsLoading(false);
-    }
-  }, [initialCenter, initialZoom, showControls]);
 
-
-  // Update markers when pianos change
+    start();
+    return () => {
+      cancelled = true;
+      current?.destroy();
+      setAdapter(null);
+    };
+  }, [provider, showControls, scrollZoom]);
+
+  const baseMarkers = useMemo<MapMarker[]>(() => validPianos.map(piano => ({
+    key: String(piano.id),
+    lat: Number(piano.perm_lat),
+    lng: Number(piano.perm_lng),
+    label: markerLabels?.[piano.id],
+    selected: selectedPiano?.id === piano.id,
+    popupHtml: popups ? pianoPopupHtml(piano) : undefined
+  })), [validPianos, markerLabels, selectedPiano?.id, popups]);
+
+  // Clusters only change with whole zoom levels
+  const zoom = Math.round(viewport?.zoom ?? initialZoom);
+  const pianoKey = validPianos.map(piano => piano.id).join(',');
+
+  // A fanned-out group folds back when the zoom or the pianos change
   useEffect(() => {
-    console.log('PianoMap: useEffect triggered with', pianos.length, 'pianos');
-    
-    if (!map.current || !mapLoaded) {
-      console.log('Map not ready:', { mapCurrent: !!map.current, mapLoaded });
+    setSpider(null);
+  }, [zoom, pianoKey]);
+
+  const display = useMemo(() => {
+    const spiderKeys = new Set(spider?.keys);
+    const rest = baseMarkers.filter(marker => !spiderKeys.has(marker.key));
+    const { markers, members } = cluster ? clusterMarkers(rest, zoom) : { markers: rest, members: {} };
+    const legs = spider ? spiderfyMarkers(baseMarkers.filter(marker => spiderKeys.has(marker.key)), spider.center, zoom) : [];
+    return { markers: [...markers, ...legs], members };
+  }, [baseMarkers, cluster, zoom, spider]);
+
+  markerClickRef.current = (key: string) => {
+    const members = display.members[key];
+    if (members) {
+      const bounds = boundsOf(members);
+      if (!bounds) return;
+      if (shouldSpiderfy(members, zoom)) {
+        setSpider({
+          keys: members.map(member => member.key),
+          center: { lat: (bounds[1] + bounds[3]) / 2, lng: (bounds[0] + bounds[2]) / 2 }
+        });
+      } else {
+        adapter?.fitBounds(bounds, Math.min(zoom + 3, 18));
+      }
       return;
     }
+    const piano = validPianos.find(other => String(other.id) === key);
+    if (piano) onPianoSelect?.(piano);
+  };
+
+  // Only what is on screen becomes DOM markers; the selected piano always does
+  const visibleMarkers = useMemo(
+    () => (viewport ? markersInView(display.markers, viewport.bounds) : display.markers),
+    [display, viewport]
+  );
 
-    console.log('PianoMap: Adding markers for', pianos.length, 'pianos');
-    console.log('PianoMap: First few pianos:', pianos.slice(0, 3));
-
-    // Clear existing markers
-    markers.current.forEach(marker => marker.remove());
-    markers.current = [];
-
-    // Filter pianos with valid coordinates
-    const validPianos = pianos.filter(piano => 
-      piano.perm_lat !== null && 
-      piano.perm_lng !== null && 
-      !isNaN(Number(piano.perm_lat)) && 
-      !isNaN(Number(piano.perm_lng))
-    );
-
-    setPianoCount(validPianos.length);
-
-    // Add new markers
-    validPianos.forEach((piano, index) => {
-      if (!piano.perm_lat || !piano.perm_lng) {
-        console.log('Piano', index, 'has no coordinates');
-        return;
-      }
-
-      console.log('Adding marker for piano', index, piano.piano_title, 'at', piano.perm_lng, piano.perm_lat);
-
-      // Create simple marker element like old project
-      const el = document.createElement('div');
-      el.className = 'piano-marker';
-      el.style.backgroundColor = '#da4680';
-      el.style.border = '2px solid #ffffff';
-      el.style.borderRadius = '50%';
-      el.style.width = '16px';
-      el.style.height = '16px';
-      el.style.cursor = 'pointer';
-      el.style.boxShadow = '0 2px 4px rgba(0,0,0,0.3)';
-
-      // Add click event
-      el.addEventListener('click', (e) => {
-        e.stopPropagation();
-        console.log('Clicked piano:', piano.piano_title);
-        if (onPianoSelect) {
-          onPianoSelect(piano);
-        }
-      });
-
-      // Create popup
-      const popup = new mapboxgl.Popup({
-        offset: 25,
-        closeButton: false
-      }).setHTML(`
-        <div class="text-sm">
-          <div class="font-semibold">${piano.piano_title}</div>
-          <div class="text-gray-600">by ${piano.artist_name}</div>
-          ${piano.piano_year ? `<div class="text-xs text-gray-500">${piano.piano_year}</div>` : ''}
-        </div>
-      `);
-
-      // Create marker
-      const marker = new mapboxgl.Marker(el)
-        .setLngLat([
-          parseFloat(piano.perm_lng.toString()),
-          parseFloat(piano.perm_lat.toString())
-        ])
-        .setPopup(popup)
-        .addTo(map.current!);
-
-      markers.current.push(marker);
-      console.log('Added marker', index + 1, 'of', validPianos.length, 'for', piano.piano_title);
-    });
-
-    // Auto-fit to piano locations like old project
-    if (validPianos.length > 0) {
-      const bounds = new mapboxgl.LngLatBounds();
+  useEffect(() => {
+    adapter?.setMarkers(visibleMarkers);
+  }, [adapter, visibleMarkers]);
 
-      validPianos.forEach((piano) => {
-        bounds.extend([
-          parseFloat(piano.perm_lng.toString()),
-          parseFloat(piano.perm_lat.toString())
-        ]);
-      });
+  // Fit to the pianos whenever the set of pianos changes
+  useEffect(() => {
+    const bounds = boundsOf(baseMarkers);
+    if (adapter && bounds && autoFit && !view) adapter.fitBounds(bounds, 15);
+  }, [adapter, pianoKey]);
 
-      if (!bounds.isEmpty()) {
-        map.current!.fitBounds(bounds, {
-          padding: { top: 50, bottom: 50, left: 50, right: 50 },
-          maxZoom: 15
-        });
-      }
-    }
-  }, [pianos, mapLoaded, onPianoSelect]);
+  useEffect(() => {
+    adapter?.setRoute(route || []);
+  }, [adapter, route]);
 
-  const handleFitBounds = useCallback(() => {
-    if (!map.current || pianos.length === 0) return;
+  // Fly to the selected piano
+  useEffect(() => {
+    if (!adapter || !selectedPiano || !hasCoordinates(selectedPiano)) return;
+    adapter.flyTo(Number(selectedPiano.perm_lat), Number(selectedPiano.perm_lng), Math.max(adapter.getViewport().zoom, 13));
+  }, [adapter, selectedPiano?.id]);
 
-    const validPianos = pianos.filter(piano => 
-      piano.perm_lat !== null && piano.perm_lng !== null
+  // After the selected piano, so a shared view keeps its own zoom
+  useEffect(() => {
+    if (adapter && view) adapter.flyTo(view.lat, view.lng, view.zoom);
+  }, [adapter, view?.lat, view?.lng, view?.zoom]);
+
+  const locateUser = () => {
+    if (!adapter || !navigator.geolocation) return;
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const position: [number, number] = [coords.latitude, coords.longitude];
+        adapter.setUserLocation(position);
+        adapter.flyTo(position[0], position[1], 14);
+        onUserLocation?.(position);
+        setIsLocating(false);
+      },
+      (error) => {
+        console.warn('Geolocation error:', error);
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 6000 }
     );
+  };
 
-    if (validPianos.length > 0) {
-      const bounds = new mapboxgl.LngLatBounds();
-      validPianos.forEach(piano => {
-        bounds.extend([Number(piano.perm_lng), Number(piano.perm_lat)]);
-      });
-
-      if (!bounds.isEmpty()) {
-        map.current.fitBounds(bounds, {
-          padding: { top: 60, bottom: 60, left: 40, right: 40 },
-          maxZoom: 15,
-          duration: 1000
-        });
-      }
-    }
-  }, [pianos]);
+  const isLoading = !adapter && !failed;
 
   return (
-    <div className={`relative ${className}`} style={{ height }}>
-      {/* Map Container */}
-      <div 
-        ref={mapContainer} 
-        className="w-full h-full rounded-lg overflow-hidden"
-        style={{ minHeight: '300px' }}
-      />
-      
-      {/* Loading Overlay */}
+    <div
+      className={`relative ${className}`}
+      style={{ height, minHeight: minHeight ?? (height === '100%' ? '600px' : '300px') }}
+    >
+      <div ref={containerRef} className="absolute inset-0 w-full h-full rounded-lg overflow-hidden" />
+
       <AnimatePresence>
         {isLoading && (
-          <motion.div 
-            className="absolute inset-0 bg-white bg-opacity-90 flex items-center justify-center z-20 rounded-lg"
+          <motion.div
+            className="absolute inset-0 flex items-center justify-center bg-gray-50 rounded-lg z-[1000]"
             initial={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             transition={{ duration: 0.3 }}
           >
-            <div className="flex flex-col items-center space-y-3 bg-white rounded-2xl p-6 shadow-lg">
-              <div className="w-8 h-8 border-4 border-green-500 border-t-transparent rounded-full animate-spin"></div>
-              <span className="text-gray-600 font-medium">Loading piano locations...</span>
+            <div className="text-center">
+              <div className="w-12 h-12 border-4 border-green-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+              <p className="text-gray-600 font-medium">Loading map…</p>
             </div>
           </motion.div>
         )}
       </AnimatePresence>
-      
-      {/* Piano Count Badge */}
-      {!isLoading && pianoCount > 0 && (
-        <motion.div 
-          className="absolute top-4 left-4 bg-white bg-opacity-95 backdrop-blur-sm rounded-full px-4 py-2 shadow-lg z-10"
+
+      {failed && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-50 rounded-lg z-[1000]">
+          <div className="text-center p-6">
+            <MapPin className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">The map couldn't load</h3>
+            <p className="text-gray-500">Check your connection and refresh the page.</p>
+          </div>
+        </div>
+      )}
+
+      {adapter && validPianos.length > 0 && (
+        <motion.div
+          className="absolute top-4 left-4 bg-white bg-opacity-95 backdrop-blur-sm rounded-full px-4 py-2 shadow-lg z-[1000]"
           initial={{ opacity: 0, scale: 0.8 }}
           animate={{ opacity: 1, scale: 1 }}
           transition={{ duration: 0.5, delay: 0.3 }}
@@ -264,31 +274,27 @@ const PianoMap: React.FC<PianoMapProps> = ({
           <div className="flex items-center space-x-2">
             <Music className="w-4 h-4 text-green-600" />
             <span className="text-sm font-semibold text-gray-700">
-              {pianoCount} piano{pianoCount !== 1 ? 's' : ''}
+              {validPianos.length} piano{validPianos.length !== 1 ? 's' : ''}
             </span>
           </div>
         </motion.div>
       )}
 
-      {/* Fit Bounds Button */}
-      {!isLoading && pianoCount > 1 && (
-        <motion.button
-          onClick={handleFitBounds}
-          className="absolute top-4 right-4 bg-white bg-opacity-95 backdrop-blur-sm rounded-full p-3 shadow-lg z-10 hover:bg-gray-50 transition-colors"
-          initial={{ opacity: 0, scale: 0.8 }}
-          animate={{ opacity: 1, scale: 1 }}
-          transition={{ duration: 0.5, delay: 0.4 }}
-          whileTap={{ scale: 0.95 }}
-          title="Show all pianos"
+      {adapter && showControls && (
+        <button
+          onClick={locateUser}
+          disabled={isLocating}
+          className="absolute bottom-8 right-3 bg-white rounded-full p-2.5 shadow-lg z-[1000] hover:bg-gray-50 disabled:opacity-60 transition-colors"
+          aria-label="Show my location"
+          title="Show my location"
         >
-          <Maximize2 className="w-4 h-4 text-gray-700" />
-        </motion.button>
+          <LocateFixed className={`w-4 h-4 text-gray-700 ${isLocating ? 'animate-pulse' : ''}`} />
+        </button>
       )}
 
-      {/* No Pianos Message */}
-      {!isLoading && pianoCount === 0 && (
+      {adapter && validPianos.length === 0 && (
         <motion.div
-          className="absolute inset-0 flex items-center justify-center z-10 bg-gray-50 bg-opacity-80 rounded-lg"
+          className="absolute inset-0 flex items-center justify-center z-[1000] bg-gray-50 bg-opacity-80 rounded-lg"
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ duration: 0.5 }}
@@ -301,43 +307,15 @@ const PianoMap: React.FC<PianoMapProps> = ({
         </motion.div>
       )}
 
-      {/* Mobile-specific styles */}
       <style>{`
-        .piano-marker {
-          cursor: pointer;
-          transition: transform 0.2s ease;
-        }
-        
-        .piano-marker:active {
-          transform: scale(0.95);
-        }
-
-        .mapboxgl-popup-content {
+        .mapboxgl-popup-content,
+        .maplibregl-popup-content {
           border-radius: 8px;
           box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
         }
-
-        .mapboxgl-popup-tip {
-          border-top-color: white;
-        }
-
-        /* Mobile touch optimizations */
-        @media (max-width: 768px) {
-          .mapboxgl-ctrl-group {
-            margin: 10px;
-          }
-          
-          .mapboxgl-ctrl-group > button {
-            width: 36px;
-            height: 36px;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-          }
-        }
       `}</style>
     </div>
   );
-};
+}
 
-export default PianoMap;
\ No newline at end of file
+export default PianoMap;
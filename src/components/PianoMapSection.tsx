@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { MapPin, ExternalLink } from 'lucide-react';
-import PianoMapLeaflet from './PianoMapLeaflet';
+import PianoMap from './PianoMap';
 import PianoDetailModal from './PianoDetailModal';
-import { fetchPianos, type Piano } from '../lib/supabase';
+import type { Piano } from '../lib/supabase';
+import { fetchPianoPage } from '../lib/piano-query';
 
 const PianoMapSection: React.FC = () => {
   const [pianos, setPianos] = useState<Piano[]>([]);
@@ -15,13 +16,10 @@ const PianoMapSection: React.FC = () => {
     const loadPianos = async () => {
       try {
         setIsLoading(true);
-        const pianosData = await fetchPianos(100); // Fetch more to find ones with coordinates
-        // Filter to only show pianos with valid coordinates for the map preview
-        const pianosWithCoords = pianosData.filter(piano => 
-          piano.perm_lat !== null && piano.perm_lng !== null
-        );
-        
-        console.log(`PianoMapSection: Found ${pianosWithCoords.length} pianos with coordinates out of ${pianosData.length} total`);
+        // Only pianos with valid coordinates are useful for the map preview
+        const { items: pianosWithCoords, total } = await fetchPianoPage({ located: true, limit: 100 });
+
+        console.log(`PianoMapSection: Loaded ${pianosWithCoords.length} of ${total} pianos with coordinates`);
         setPianos(pianosWithCoords);
       } catch (error) {
         console.error('Failed to fetch pianos:', error);
@@ -45,11 +43,12 @@ const PianoMapSection: React.FC = () => {
     <div className="relative">
       {/* Map Preview */}
       <div className="relative">
-        <PianoMapLeaflet
+        <PianoMap
           pianos={pianos}
           onPianoSelect={handlePianoSelect}
           height="400px"
           showControls={false}
+          popups
           className="rounded-lg"
         />
         
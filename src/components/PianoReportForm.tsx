@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Loader, Upload } from 'lucide-react';
+import {
+  ISSUE_TYPE_LABELS,
+  REPORT_DESCRIPTION_MAX,
+  REPORT_NAME_MAX,
+  REPORT_PHOTO_TYPES,
+  REPORT_STATUS_LABELS,
+  submitPianoReport,
+  validateReportPhoto,
+  type ReportIssueType,
+  type ReportReceipt
+} from '../lib/piano-reports';
+
+interface PianoReportFormProps {
+  pianoId: number;
+  pianoTitle: string;
+}
+
+// "Report a problem" form. Files a maintenance ticket and links the reporter to its status page.
+const PianoReportForm: React.FC<PianoReportFormProps> = ({ pianoId, pianoTitle }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [issueType, setIssueType] = useState<ReportIssueType | ''>('');
+  const [description, setDescription] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [reporterName, setReporterName] = useState('');
+  const [reporterEmail, setReporterEmail] = useState('');
+  const [website, setWebsite] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [receipt, setReceipt] = useState<ReportReceipt | null>(null);
+
+  // Map popups link here with #report to open the form directly
+  useEffect(() => {
+    if (window.location.hash === '#report') setIsOpen(true);
+  }, []);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setErrorMessage('');
+
+    if (selected) {
+      const invalid = validateReportPhoto(selected.type, selected.size);
+      if (invalid) {
+        setErrorMessage(invalid);
+        e.target.value = '';
+        setPhoto(null);
+        return;
+      }
+    }
+
+    setPhoto(selected);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!issueType) {
+      setErrorMessage('Choose what is wrong with the piano');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage('');
+
+    try {
+      setReceipt(await submitPianoReport(pianoId, {
+        issueType,
+        description,
+        photo,
+        reporterName,
+        reporterEmail,
+        website
+      }));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Could not send your report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (receipt) {
+    return (
+      <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-4 rounded-lg flex items-start" role="status">
+        <CheckCircle className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" aria-hidden="true" />
+        <div className="text-sm">
+          <p className="font-semibold text-base">Thanks, we're on it.</p>
+          <p className="mt-1">
+            Reference <span className="font-mono">{receipt.ticketId}</span> · Status: {REPORT_STATUS_LABELS[receipt.status]}
+          </p>
+          <a href={receipt.statusUrl} className="inline-block mt-2 font-medium underline hover:text-green-900">
+            Track this report
+          </a>
+          {reporterEmail && <p className="mt-1 text-green-700">We'll also email you when the status changes.</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="inline-flex items-center text-sm font-medium text-gray-600 hover:text-red-700 transition-colors"
+      >
+        <AlertTriangle className="w-4 h-4 mr-2" aria-hidden="true" />
+        Report a problem with this piano
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Tell us what's wrong with {pianoTitle} and the people who look after it will be notified.
+      </p>
+
+      {errorMessage && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center text-sm" role="alert">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" aria-hidden="true" />
+          {errorMessage}
+        </div>
+      )}
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-900 mb-2">What's wrong? *</legend>
+        <div className="space-y-2">
+          {(Object.keys(ISSUE_TYPE_LABELS) as ReportIssueType[]).map(type => (
+            <label key={type} className="flex items-center text-sm text-gray-700">
+              <input
+                type="radio"
+                name="issue-type"
+                value={type}
+                checked={issueType === type}
+                onChange={() => setIssueType(type)}
+                className="mr-2 border-gray-300 text-green-600 focus:ring-green-500"
+              />
+              {ISSUE_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="report-description" className="block text-sm font-medium text-gray-900 mb-2">
+          Details
+        </label>
+        <textarea
+          id="report-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={REPORT_DESCRIPTION_MAX}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent resize-vertical"
+          placeholder="Which keys, what damage, when you saw it..."
+        />
+      </div>
+
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center hover:border-green-500 transition-colors">
+        <Upload className="w-6 h-6 text-gray-400 mx-auto mb-2" aria-hidden="true" />
+        <input
+          type="file"
+          accept={REPORT_PHOTO_TYPES.join(',')}
+          capture="environment"
+          onChange={handlePhotoChange}
+          className="hidden"
+          id="report-photo"
+        />
+        <label htmlFor="report-photo" className="cursor-pointer text-green-600 hover:text-green-700 font-medium">
+          Add a photo
+        </label>
+        <p className="text-xs text-gray-500 mt-1">JPG, PNG, WebP or HEIC up to 10MB</p>
+        {photo && <p className="text-sm text-gray-700 mt-2">Selected: {photo.name}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="report-name" className="block text-sm font-medium text-gray-900 mb-2">
+            Name (optional)
+          </label>
+          <input
+            id="report-name"
+            type="text"
+            value={reporterName}
+            onChange={(e) => setReporterName(e.target.value)}
+            maxLength={REPORT_NAME_MAX}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label htmlFor="report-email" className="block text-sm font-medium text-gray-900 mb-2">
+            Email for updates (optional)
+          </label>
+          <input
+            id="report-email"
+            type="email"
+            value={reporterEmail}
+            onChange={(e) => setReporterEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Honeypot: hidden from people, filled in by bots */}
+      <div className="hidden" aria-hidden="true">
+        <label htmlFor="report-website">Website</label>
+        <input
+          id="report-website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex items-center justify-center px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSubmitting ? (
+            <>
+              <Loader className="w-4 h-4 animate-spin mr-2" aria-hidden="true" />
+              Sending...
+            </>
+          ) : (
+            'Send report'
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-4 py-3 text-sm text-gray-600 hover:text-gray-900"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PianoReportForm;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause } from 'lucide-react';
+import { TIMELINE_STEP_MS, type YearCount } from '../lib/timeline';
+
+interface PianoTimelineProps {
+  counts: YearCount[];
+  year: number | null; // null shows the whole collection
+  onYearChange: (year: number | null) => void;
+  className?: string;
+}
+
+// Year-by-year slider under the discovery map, with per-year counts and a play button
+// that steps through the years so pianos appear in the order they went out
+const PianoTimeline: React.FC<PianoTimelineProps> = ({ counts, year, onYearChange, className = '' }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const first = counts[0]?.year;
+  const last = counts[counts.length - 1]?.year;
+  const current = counts.find(entry => entry.year === year);
+  const max = Math.max(1, ...counts.map(entry => entry.count));
+
+  // Advance one year per step and stop on (or past) the last one
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (last === undefined || (year !== null && year >= last)) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onYearChange(year === null ? first : year + 1), year === null ? 0 : TIMELINE_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, year]);
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the end (or from "all years") starts over
+    if (year === null || year >= last) onYearChange(null);
+    setIsPlaying(true);
+  };
+
+  if (counts.length < 2) return null;
+
+  return (
+    <div className={`bg-white border-t border-gray-200 px-4 py-3 ${className}`}>
+      <div className="flex items-center gap-4">
+        <button
+          onClick={togglePlay}
+          className="flex-shrink-0 w-10 h-10 rounded-full bg-green-600 text-white flex items-center justify-center hover:bg-green-700 transition-colors"
+          aria-label={isPlaying ? 'Pause timeline' : 'Play timeline'}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-end gap-px h-10" aria-hidden="true">
+            {counts.map(entry => (
+              <button
+                key={entry.year}
+                tabIndex={-1}
+                onClick={() => {
+                  setIsPlaying(false);
+                  onYearChange(entry.year);
+                }}
+                title={`${entry.year}: ${entry.count} piano${entry.count !== 1 ? 's' : ''}`}
+                className={`flex-1 rounded-t-sm transition-colors ${
+                  year === null || entry.year <= year ? 'bg-green-500 hover:bg-green-600' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+                style={{ height: `${Math.max(4, (entry.count / max) * 100)}%` }}
+              />
+            ))}
+          </div>
+          <input
+            type="range"
+            min={first}
+            max={last}
+            step={1}
+            value={year === null ? last : Math.min(Math.max(year, first), last)}
+            onChange={(event) => {
+              setIsPlaying(false);
+              onYearChange(Number(event.target.value));
+            }}
+            className="w-full accent-green-600"
+            aria-label="Show pianos deployed up to year"
+            aria-valuetext={year === null ? 'All years' : String(year)}
+          />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>{first}</span>
+            <span>{last}</span>
+          </div>
+        </div>
+
+        <div className="flex-shrink-0 w-32 text-right" aria-live="polite">
+          <p className="text-lg font-semibold text-gray-900">{year ?? 'All years'}</p>
+          <p className="text-xs text-gray-600">
+            {current
+              ? `${current.count} new · ${current.total} total`
+              : `${counts[counts.length - 1].total} pianos`}
+          </p>
+          {year !== null && !isPlaying && (
+            <button
+              onClick={() => onYearChange(null)}
+              className="text-xs font-medium text-green-700 hover:text-green-800"
+            >
+              Show all years
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PianoTimeline;
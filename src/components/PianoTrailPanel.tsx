@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Footprints, Download, Link as LinkIcon, Check, X, Trash2 } from 'lucide-react';
+import type { Piano } from '../lib/supabase';
+import { fromKm, formatDistance, type DistanceUnit } from '../lib/geo';
+import { encodeTrail, estimateWalkingMinutes, trailDistanceKm, trailToGpx, TRAIL_PARAM } from '../lib/trail';
+
+interface PianoTrailPanelProps {
+  stops: Piano[]; // already in walking order
+  distanceUnit: DistanceUnit;
+  onSelect: (piano: Piano) => void;
+  onRemove: (piano: Piano) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+function trailShareUrl(stops: Piano[]): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(TRAIL_PARAM, encodeTrail(stops));
+  return url.toString();
+}
+
+// Walking trail summary: ordered stops, distance and time, GPX download and share link
+const PianoTrailPanel: React.FC<PianoTrailPanelProps> = ({
+  stops,
+  distanceUnit,
+  onSelect,
+  onRemove,
+  onClear,
+  className = ''
+}) => {
+  const [copied, setCopied] = useState(false);
+  const km = trailDistanceKm(stops);
+  const minutes = estimateWalkingMinutes(km);
+
+  const downloadGpx = () => {
+    const gpx = trailToGpx(stops, 'Sing for Hope Piano Trail', window.location.origin);
+    const url = URL.createObjectURL(new Blob([gpx], { type: 'application/gpx+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'piano-trail.gpx';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(trailShareUrl(stops));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className={`bg-white rounded-xl shadow-lg border border-gray-200 w-72 max-h-[60vh] flex flex-col ${className}`}>
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+            <Footprints className="w-4 h-4 mr-2 text-green-600" aria-hidden="true" />
+            Your Trail
+          </h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {stops.length} stop{stops.length !== 1 ? 's' : ''}
+            {stops.length > 1 && ` · ${formatDistance(fromKm(km, distanceUnit), distanceUnit)} · about ${minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`} walking`}
+          </p>
+        </div>
+        <button onClick={onClear} className="text-gray-400 hover:text-red-600 p-1" aria-label="Clear trail">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ol className="overflow-y-auto flex-1 p-2 space-y-1">
+        {stops.map((piano, index) => (
+          <li key={piano.id} className="flex items-center gap-2 rounded-lg hover:bg-gray-50">
+            <span className="w-6 h-6 flex-shrink-0 rounded-full bg-green-700 text-white text-[11px] font-semibold flex items-center justify-center">
+              {index + 1}
+            </span>
+            <button onClick={() => onSelect(piano)} className="flex-1 min-w-0 text-left py-1.5">
+              <span className="block text-sm text-gray-900 truncate">{piano.piano_title}</span>
+            </button>
+            <button
+              onClick={() => onRemove(piano)}
+              className="text-gray-400 hover:text-gray-700 p-1"
+              aria-label={`Remove ${piano.piano_title} from trail`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="px-4 py-3 border-t border-gray-200 grid grid-cols-2 gap-2">
+        <button
+          onClick={downloadGpx}
+          disabled={stops.length === 0}
+          className="inline-flex items-center justify-center px-3 py-2 rounded-md bg-green-600 hover:bg-green-700 text-white text-xs font-semibold disabled:opacity-50"
+        >
+          <Download className="w-3.5 h-3.5 mr-1" />
+          GPX
+        </button>
+        <button
+          onClick={copyLink}
+          disabled={stops.length === 0}
+          className="inline-flex items-center justify-center px-3 py-2 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-semibold disabled:opacity-50"
+        >
+          {copied ? <Check className="w-3.5 h-3.5 mr-1" /> : <LinkIcon className="w-3.5 h-3.5 mr-1" />}
+          {copied ? 'Copied' : 'Share link'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PianoTrailPanel;
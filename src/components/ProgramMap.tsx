@@ -0,0 +1,33 @@
+import React, { useState } from 'react';
+import PianoMap from './PianoMap';
+import PianoDetailModal from './PianoDetailModal';
+import type { Piano } from '../lib/supabase';
+
+interface ProgramMapProps {
+  pianos: Piano[];
+  height?: string;
+}
+
+// Map of a fixed set of pianos with a detail modal, used on program and shared collection pages
+const ProgramMap: React.FC<ProgramMapProps> = ({ pianos, height = '450px' }) => {
+  const [selectedPiano, setSelectedPiano] = useState<Piano | null>(null);
+
+  return (
+    <>
+      <PianoMap
+        pianos={pianos}
+        onPianoSelect={setSelectedPiano}
+        selectedPiano={selectedPiano}
+        height={height}
+        className="rounded-2xl overflow-hidden"
+      />
+      <PianoDetailModal
+        piano={selectedPiano}
+        isOpen={!!selectedPiano}
+        onClose={() => setSelectedPiano(null)}
+      />
+    </>
+  );
+};
+
+export default ProgramMap;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Heart } from 'lucide-react';
+import { useSavedPiano } from '../lib/saved-pianos';
+
+interface SavePianoButtonProps {
+  pianoId: number;
+  pianoTitle: string;
+  showLabel?: boolean;
+  className?: string;
+}
+
+// Heart toggle for "My Pianos"; signed-out visitors are sent to log in
+const SavePianoButton: React.FC<SavePianoButtonProps> = ({ pianoId, pianoTitle, showLabel = false, className = '' }) => {
+  const { isSaved, toggle, isWorking } = useSavedPiano(pianoId);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        toggle();
+      }}
+      disabled={isWorking}
+      aria-pressed={isSaved}
+      aria-label={isSaved ? `Remove ${pianoTitle} from My Pianos` : `Save ${pianoTitle} to My Pianos`}
+      title={isSaved ? 'Saved to My Pianos' : 'Save to My Pianos'}
+      className={`inline-flex items-center justify-center transition-colors disabled:opacity-60 ${className}`}
+    >
+      <Heart
+        className={`w-5 h-5 ${isSaved ? 'fill-red-500 text-red-500' : 'text-gray-500 hover:text-red-500'}`}
+        aria-hidden="true"
+      />
+      {showLabel && <span className="ml-2 text-sm font-medium">{isSaved ? 'Saved' : 'Save'}</span>}
+    </button>
+  );
+};
+
+export default SavePianoButton;
@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import type { PianoSite } from '../lib/supabase';
+import { openStatus } from '../lib/sites';
+
+interface SiteOpenStatusProps {
+  site: Pick<PianoSite, 'time_zone' | 'opening_hours' | 'season_start' | 'season_end'>;
+  className?: string;
+}
+
+const STATE_STYLES = {
+  open: 'bg-green-100 text-green-800',
+  closed: 'bg-red-100 text-red-800',
+  out_of_season: 'bg-red-100 text-red-800',
+  unknown: 'bg-gray-100 text-gray-600'
+};
+
+// "Open now" on the site's clock, recomputed in the browser so cached pages stay right
+const SiteOpenStatus: React.FC<SiteOpenStatusProps> = ({ site, className = '' }) => {
+  const [status, setStatus] = useState(() => openStatus(site));
+
+  useEffect(() => {
+    const update = () => setStatus(openStatus(site));
+    update();
+    const timer = setInterval(update, 60 * 1000);
+    return () => clearInterval(timer);
+  }, [site]);
+
+  return (
+    <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${STATE_STYLES[status.state]} ${className}`}>
+      <Clock className="w-4 h-4 mr-1.5" aria-hidden="true" />
+      {status.label}
+    </span>
+  );
+};
+
+export default SiteOpenStatus;
@@ -11,10 +11,22 @@ import {
   Trash2,
   Eye,
   Search,
-  Filter
+  Filter,
+  Upload,
+  Palette,
+  MessageSquare,
+  Wrench,
+  QrCode,
+  Tag
 } from 'lucide-react';
 import { useAuth } from '../../lib/auth';
 import { supabase } from '../../lib/supabase';
+import PianoImport from './PianoImport';
+import ArtistManager from './ArtistManager';
+import CheckinModeration from './CheckinModeration';
+import MaintenanceTickets from './MaintenanceTickets';
+import PlacardManager from './PlacardManager';
+import TagManager from './TagManager';
 
 interface AdminStats {
   totalUsers: number;
@@ -54,7 +66,7 @@ interface Application {
 
 const AdminPanel: React.FC = () => {
   const { user, profile, loading } = useAuth();
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'users' | 'applications' | 'content'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'users' | 'applications' | 'content' | 'artists' | 'tags' | 'checkins' | 'reports' | 'placards' | 'import'>('dashboard');
   const [stats, setStats] = useState<AdminStats>({
     totalUsers: 0,
     totalPianos: 0,
@@ -238,7 +250,13 @@ const AdminPanel: React.FC = () => {
               { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
               { id: 'applications', label: 'Applications', icon: FileText },
               { id: 'users', label: 'Users', icon: Users },
-              { id: 'content', label: 'Content', icon: Music }
+              { id: 'content', label: 'Content', icon: Music },
+              { id: 'artists', label: 'Artists', icon: Palette },
+              { id: 'tags', label: 'Tags', icon: Tag },
+              { id: 'checkins', label: 'Check-ins', icon: MessageSquare },
+              { id: 'reports', label: 'Reports', icon: Wrench },
+              { id: 'placards', label: 'Placards', icon: QrCode },
+              ...(profile?.role === 'admin' ? [{ id: 'import', label: 'Import', icon: Upload }] : [])
             ].map(tab => {
               const Icon = tab.icon;
               return (
@@ -440,6 +458,66 @@ const AdminPanel: React.FC = () => {
             <p className="text-gray-600">Content management functionality coming soon...</p>
           </motion.div>
         )}
+
+        {activeTab === 'artists' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <ArtistManager canMerge={profile?.role === 'admin'} />
+          </motion.div>
+        )}
+
+        {activeTab === 'tags' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <TagManager />
+          </motion.div>
+        )}
+
+        {activeTab === 'checkins' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <CheckinModeration moderatorId={user.id} />
+          </motion.div>
+        )}
+
+        {activeTab === 'reports' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <MaintenanceTickets />
+          </motion.div>
+        )}
+
+        {activeTab === 'placards' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <PlacardManager />
+          </motion.div>
+        )}
+
+        {activeTab === 'import' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <PianoImport />
+          </motion.div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,386 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, GitMerge, Edit, ExternalLink, AlertCircle, CheckCircle } from 'lucide-react';
+import { supabase, type Artist } from '../../lib/supabase';
+import { artistUrl, findDuplicateArtists, safeWebsiteUrl } from '../../lib/artists';
+
+interface ArtistRow extends Artist {
+  pianos?: { count: number }[];
+}
+
+interface Applicant {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+interface ArtistManagerProps {
+  canMerge: boolean;
+}
+
+const ArtistManager: React.FC<ArtistManagerProps> = ({ canMerge }) => {
+  const [artists, setArtists] = useState<ArtistRow[]>([]);
+  const [applicants, setApplicants] = useState<Applicant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [mergeTarget, setMergeTarget] = useState<number | null>(null);
+  const [editing, setEditing] = useState<ArtistRow | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadArtists = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('artists')
+        .select('id, name, slug, bio, website, headshot, profile_id, pianos (count)')
+        .is('merged_into_id', null)
+        .order('name');
+
+      if (error) throw error;
+      setArtists(data || []);
+    } catch (error) {
+      console.error('Error fetching artists:', error);
+      setMessage({ type: 'error', text: 'Could not load artists.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // People who applied through the application form, for linking to an artist record
+  const loadApplicants = async () => {
+    const { data, error } = await supabase
+      .from('piano_applications')
+      .select('user, profiles (first_name, last_name, email)');
+
+    if (error) {
+      console.warn('Error fetching applicants (non-critical):', error);
+      return;
+    }
+
+    const byId = new Map<string, Applicant>();
+    (data || []).forEach((application: any) => {
+      const profile = application.profiles;
+      if (!application.user || byId.has(application.user)) return;
+      byId.set(application.user, {
+        id: application.user,
+        name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || application.user,
+        email: profile?.email
+      });
+    });
+    setApplicants([...byId.values()].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  useEffect(() => {
+    loadArtists();
+    loadApplicants();
+  }, []);
+
+  const duplicateIds = useMemo(
+    () => new Set(findDuplicateArtists(artists).flat().map(artist => artist.id)),
+    [artists]
+  );
+
+  const visibleArtists = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return artists.filter(artist =>
+      (!duplicatesOnly || duplicateIds.has(artist.id)) &&
+      (!term || artist.name.toLowerCase().includes(term) || artist.slug.includes(term))
+    );
+  }, [artists, searchTerm, duplicatesOnly, duplicateIds]);
+
+  const pianoCount = (artist: ArtistRow) => artist.pianos?.[0]?.count ?? 0;
+
+  const toggleSelected = (id: number) => {
+    setSelected(current => {
+      const next = current.includes(id) ? current.filter(other => other !== id) : [...current, id];
+      if (!next.includes(mergeTarget ?? -1)) setMergeTarget(next[0] ?? null);
+      return next;
+    });
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTarget || selected.length < 2) return;
+    const target = artists.find(artist => artist.id === mergeTarget);
+    if (!confirm(`Merge ${selected.length - 1} artist record(s) into "${target?.name}"? This cannot be undone.`)) return;
+
+    try {
+      setIsWorking(true);
+      setMessage(null);
+
+      const response = await fetch('/api/admin/artists/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetId: mergeTarget, sourceIds: selected.filter(id => id !== mergeTarget) })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Merge failed' });
+        return;
+      }
+
+      setMessage({ type: 'success', text: `Merged ${data.merged} record(s) into ${data.artist.name}; ${data.pianosMoved} piano(s) moved.` });
+      setSelected([]);
+      setMergeTarget(null);
+      loadArtists();
+    } catch (error) {
+      console.error('Artist merge error:', error);
+      setMessage({ type: 'error', text: 'Merge failed. Please try again.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const website = editing.website?.trim() ? safeWebsiteUrl(editing.website) : null;
+    if (editing.website?.trim() && !website) {
+      setMessage({ type: 'error', text: 'The website must be a full http:// or https:// address.' });
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const { error } = await supabase
+        .from('artists')
+        .update({
+          name: editing.name.trim(),
+          bio: editing.bio || null,
+          website,
+          headshot: editing.headshot || null,
+          profile_id: editing.profile_id || null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', editing.id);
+
+      if (error) throw error;
+
+      setArtists(current => current.map(artist => (artist.id === editing.id ? { ...artist, ...editing, website } : artist)));
+      setMessage({ type: 'success', text: `Saved ${editing.name}.` });
+      setEditing(null);
+    } catch (error) {
+      console.error('Error updating artist:', error);
+      setMessage({ type: 'error', text: 'Could not save the artist.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Artists</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Edit artist profiles and merge duplicate names. Merged names keep redirecting to the artist you keep.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {message && (
+          <div className={`flex items-start p-4 rounded-lg text-sm border ${
+            message.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            {message.type === 'success'
+              ? <CheckCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              : <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search artists..."
+              className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={duplicatesOnly}
+              onChange={(e) => setDuplicatesOnly(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Likely duplicates only ({duplicateIds.size})
+          </label>
+          {canMerge && (
+            <button
+              onClick={handleMerge}
+              disabled={isWorking || selected.length < 2 || !mergeTarget}
+              className="inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <GitMerge className="w-4 h-4 mr-2" />
+              Merge selected ({selected.length})
+            </button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-600">
+            <div className="w-4 h-4 border-2 border-green-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Loading artists…
+          </div>
+        ) : (
+          <div className="overflow-x-auto max-h-[600px] overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {canMerge && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Merge</th>}
+                  {canMerge && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keep</th>}
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Artist</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pianos</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Profile</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleArtists.map(artist => (
+                  <tr key={artist.id} className={duplicateIds.has(artist.id) ? 'bg-yellow-50' : ''}>
+                    {canMerge && (
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(artist.id)}
+                          onChange={() => toggleSelected(artist.id)}
+                          aria-label={`Select ${artist.name} for merging`}
+                          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                        />
+                      </td>
+                    )}
+                    {canMerge && (
+                      <td className="px-4 py-3">
+                        <input
+                          type="radio"
+                          name="merge-target"
+                          checked={mergeTarget === artist.id}
+                          disabled={!selected.includes(artist.id)}
+                          onChange={() => setMergeTarget(artist.id)}
+                          aria-label={`Keep ${artist.name}`}
+                          className="border-gray-300 text-green-600 focus:ring-green-500"
+                        />
+                      </td>
+                    )}
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{artist.name}</div>
+                      <div className="text-gray-500 font-mono text-xs">{artist.slug}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{pianoCount(artist)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {artist.profile_id
+                        ? applicants.find(applicant => applicant.id === artist.profile_id)?.name || 'Linked'
+                        : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      <button
+                        onClick={() => setEditing({ ...artist })}
+                        className="text-green-600 hover:text-green-900 mr-3"
+                        aria-label={`Edit ${artist.name}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <a
+                        href={artistUrl(artist)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-block text-gray-500 hover:text-gray-900"
+                        aria-label={`View ${artist.name}`}
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {editing && (
+          <form onSubmit={handleSave} className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50">
+            <h3 className="font-semibold text-gray-900">Edit {editing.name}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-sm text-gray-700">
+                Name
+                <input
+                  type="text"
+                  required
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Website
+                <input
+                  type="url"
+                  value={editing.website || ''}
+                  onChange={(e) => setEditing({ ...editing, website: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Headshot URL
+                <input
+                  type="url"
+                  value={editing.headshot || ''}
+                  onChange={(e) => setEditing({ ...editing, headshot: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Linked applicant
+                <select
+                  value={editing.profile_id || ''}
+                  onChange={(e) => setEditing({ ...editing, profile_id: e.target.value || null })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                >
+                  <option value="">Not linked</option>
+                  {applicants.map(applicant => (
+                    <option key={applicant.id} value={applicant.id}>
+                      {applicant.name}{applicant.email ? ` (${applicant.email})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="block text-sm text-gray-700">
+              Bio
+              <textarea
+                rows={4}
+                value={editing.bio || ''}
+                onChange={(e) => setEditing({ ...editing, bio: e.target.value })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              />
+            </label>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isWorking}
+                className="px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArtistManager;
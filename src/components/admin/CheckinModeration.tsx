@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Check, X, ExternalLink, AlertCircle, CheckCircle } from 'lucide-react';
+import { supabase, type PianoCheckin } from '../../lib/supabase';
+import { signCheckinMedia, type CheckinStatus } from '../../lib/checkins';
+
+interface CheckinRow extends PianoCheckin {
+  pianos?: { piano_title: string; piano_url: string } | null;
+}
+
+interface CheckinModerationProps {
+  moderatorId: string;
+}
+
+const CheckinModeration: React.FC<CheckinModerationProps> = ({ moderatorId }) => {
+  const [checkins, setCheckins] = useState<CheckinRow[]>([]);
+  const [mediaUrls, setMediaUrls] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<CheckinStatus>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadCheckins = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('piano_checkins')
+        .select('*, pianos (piano_title, piano_url)')
+        .eq('status', statusFilter)
+        .order('created_at', { ascending: statusFilter === 'pending' })
+        .limit(100);
+
+      if (error) throw error;
+      // Embedded many-to-one relations come back typed as arrays without generated types
+      const rows = (data || []) as unknown as CheckinRow[];
+      setCheckins(rows);
+      // The media bucket is private; staff read it through signed URLs
+      setMediaUrls(await signCheckinMedia(supabase, rows.map(row => row.media_path).filter((path): path is string => !!path)));
+    } catch (error) {
+      console.error('Error fetching check-ins:', error);
+      setMessage({ type: 'error', text: 'Could not load check-ins.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCheckins();
+  }, [statusFilter]);
+
+  const moderate = async (checkin: CheckinRow, status: CheckinStatus) => {
+    try {
+      setWorkingId(checkin.id);
+      setMessage(null);
+
+      const { error } = await supabase
+        .from('piano_checkins')
+        .update({ status, moderated_by: moderatorId, moderated_at: new Date().toISOString() })
+        .eq('id', checkin.id);
+
+      if (error) throw error;
+
+      setCheckins(current => current.filter(other => other.id !== checkin.id));
+      setMessage({ type: 'success', text: `Check-in ${status === 'approved' ? 'approved' : 'rejected'}.` });
+    } catch (error) {
+      console.error('Error moderating check-in:', error);
+      setMessage({ type: 'error', text: 'Could not update the check-in.' });
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Check-ins</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Approve "I played this piano" posts before they appear on the piano page.
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as CheckinStatus)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+        >
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+        </select>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {message && (
+          <div className={`flex items-start p-4 rounded-lg text-sm border ${
+            message.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            {message.type === 'success'
+              ? <CheckCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              : <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-600">
+            <div className="w-4 h-4 border-2 border-green-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Loading check-ins…
+          </div>
+        ) : checkins.length === 0 ? (
+          <p className="text-sm text-gray-600">No {statusFilter} check-ins.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {checkins.map(checkin => (
+              <li key={checkin.id} className="p-4 flex flex-col md:flex-row gap-4">
+                {checkin.media_path && mediaUrls[checkin.media_path] && (
+                  <div className="md:w-48 flex-shrink-0">
+                    {checkin.media_type === 'video' ? (
+                      <video src={mediaUrls[checkin.media_path]} controls preload="metadata" className="w-full rounded-lg bg-black" />
+                    ) : (
+                      <img src={mediaUrls[checkin.media_path]} alt="Check-in upload" className="w-full rounded-lg object-cover" />
+                    )}
+                  </div>
+                )}
+                <div className="flex-1 text-sm">
+                  <div className="flex items-center gap-2 text-gray-500">
+                    <span className="font-medium text-gray-900">{checkin.display_name || 'Anonymous'}</span>
+                    <span>·</span>
+                    <span>{new Date(checkin.created_at).toLocaleString()}</span>
+                    {checkin.user_id && <span className="px-2 py-0.5 rounded-full bg-gray-100 text-xs">Signed in</span>}
+                  </div>
+                  {checkin.pianos && (
+                    <a
+                      href={`/piano/${checkin.pianos.piano_url}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-green-700 hover:text-green-900 mt-1"
+                    >
+                      {checkin.pianos.piano_title}
+                      <ExternalLink className="w-3 h-3 ml-1" />
+                    </a>
+                  )}
+                  {checkin.note && <p className="text-gray-700 mt-2 whitespace-pre-line">{checkin.note}</p>}
+                </div>
+                <div className="flex md:flex-col gap-2">
+                  {checkin.status !== 'approved' && (
+                    <button
+                      onClick={() => moderate(checkin, 'approved')}
+                      disabled={workingId === checkin.id}
+                      className="inline-flex items-center px-3 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </button>
+                  )}
+                  {checkin.status !== 'rejected' && (
+                    <button
+                      onClick={() => moderate(checkin, 'rejected')}
+                      disabled={workingId === checkin.id}
+                      className="inline-flex items-center px-3 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckinModeration;
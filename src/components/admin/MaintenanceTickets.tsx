@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, AlertCircle, CheckCircle, Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import {
+  ISSUE_TYPE_LABELS,
+  REPORT_STATUSES,
+  REPORT_STATUS_LABELS,
+  signReportPhotos,
+  type PianoReport,
+  type ReportStatus
+} from '../../lib/piano-reports';
+
+interface TicketRow extends PianoReport {
+  pianos?: { piano_title: string; piano_url: string } | null;
+  piano_sites?: { site_title: string; coordinator_name: string | null } | null;
+}
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  reported: 'bg-red-100 text-red-800',
+  technician_scheduled: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800'
+};
+
+const MaintenanceTickets: React.FC = () => {
+  const [tickets, setTickets] = useState<TicketRow[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<ReportStatus | 'open'>('open');
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<TicketRow | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadTickets = async () => {
+    try {
+      setIsLoading(true);
+      let query = supabase
+        .from('piano_reports')
+        .select('id, ticket_id, piano_id, site_id, issue_type, description, photo_path, reporter_name, reporter_email, status, scheduled_for, resolution_note, resolved_at, created_at, updated_at, pianos (piano_title, piano_url), piano_sites (site_title, coordinator_name)')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      query = statusFilter === 'open' ? query.neq('status', 'resolved') : query.eq('status', statusFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      // Embedded many-to-one relations come back typed as arrays without generated types
+      const rows = (data || []) as unknown as TicketRow[];
+      setTickets(rows);
+      // The photo bucket is private; staff read it through signed URLs
+      setPhotoUrls(await signReportPhotos(supabase, rows.map(row => row.photo_path).filter((path): path is string => !!path)));
+    } catch (error) {
+      console.error('Error fetching piano reports:', error);
+      setMessage({ type: 'error', text: 'Could not load reports.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTickets();
+  }, [statusFilter]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    try {
+      setIsWorking(true);
+      setMessage(null);
+
+      const response = await fetch(`/api/admin/reports/${editing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: editing.status,
+          scheduledFor: editing.scheduled_for,
+          resolutionNote: editing.resolution_note
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Could not update the report' });
+        return;
+      }
+
+      setTickets(current => current.map(ticket => (ticket.id === editing.id ? { ...ticket, ...data.report } : ticket)));
+      setMessage({ type: 'success', text: `${editing.ticket_id} is now ${REPORT_STATUS_LABELS[editing.status].toLowerCase()}.` });
+      setEditing(null);
+    } catch (error) {
+      console.error('Error updating piano report:', error);
+      setMessage({ type: 'error', text: 'Could not update the report.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Problem Reports</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Maintenance tickets filed from piano pages. Reporters who left an email are told when the status changes.
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ReportStatus | 'open')}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+        >
+          <option value="open">Open</option>
+          {REPORT_STATUSES.map(status => (
+            <option key={status} value={status}>{REPORT_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {message && (
+          <div className={`flex items-start p-4 rounded-lg text-sm border ${
+            message.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            {message.type === 'success'
+              ? <CheckCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              : <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-600">
+            <div className="w-4 h-4 border-2 border-green-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Loading reports…
+          </div>
+        ) : tickets.length === 0 ? (
+          <p className="text-sm text-gray-600">No reports here.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {tickets.map(ticket => (
+              <li key={ticket.id} className="p-4">
+                <div className="flex flex-col md:flex-row gap-4">
+                  {ticket.photo_path && photoUrls[ticket.photo_path] && (
+                    <a href={photoUrls[ticket.photo_path]} target="_blank" rel="noopener noreferrer" className="md:w-40 flex-shrink-0">
+                      <img src={photoUrls[ticket.photo_path]} alt="Reported problem" className="w-full rounded-lg object-cover" />
+                    </a>
+                  )}
+                  <div className="flex-1 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[ticket.status]}`}>
+                        {REPORT_STATUS_LABELS[ticket.status]}
+                      </span>
+                      <span className="font-medium text-gray-900">{ISSUE_TYPE_LABELS[ticket.issue_type]}</span>
+                      <span className="text-gray-500 font-mono text-xs">{ticket.ticket_id}</span>
+                    </div>
+                    {ticket.pianos && (
+                      <a
+                        href={`/piano/${ticket.pianos.piano_url}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-green-700 hover:text-green-900 mt-1"
+                      >
+                        {ticket.pianos.piano_title}
+                        <ExternalLink className="w-3 h-3 ml-1" />
+                      </a>
+                    )}
+                    <p className="text-gray-500 text-xs mt-1">
+                      {new Date(ticket.created_at).toLocaleString()}
+                      {ticket.piano_sites && ` · ${ticket.piano_sites.site_title}`}
+                      {ticket.piano_sites?.coordinator_name && ` (${ticket.piano_sites.coordinator_name})`}
+                      {(ticket.reporter_name || ticket.reporter_email) && ` · ${[ticket.reporter_name, ticket.reporter_email].filter(Boolean).join(', ')}`}
+                    </p>
+                    {ticket.description && <p className="text-gray-700 mt-2 whitespace-pre-line">{ticket.description}</p>}
+                    {ticket.scheduled_for && ticket.status === 'technician_scheduled' && (
+                      <p className="text-gray-600 mt-1">Technician visit: {ticket.scheduled_for}</p>
+                    )}
+                  </div>
+                  <div>
+                    <button
+                      onClick={() => setEditing(editing?.id === ticket.id ? null : { ...ticket })}
+                      className="px-3 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Update
+                    </button>
+                  </div>
+                </div>
+
+                {editing?.id === ticket.id && (
+                  <form onSubmit={handleSave} className="mt-4 border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <label className="text-sm text-gray-700">
+                        Status
+                        <select
+                          value={editing.status}
+                          onChange={(e) => setEditing({ ...editing, status: e.target.value as ReportStatus })}
+                          className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                        >
+                          {REPORT_STATUSES.map(status => (
+                            <option key={status} value={status}>{REPORT_STATUS_LABELS[status]}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-sm text-gray-700">
+                        Technician visit
+                        <input
+                          type="date"
+                          value={editing.scheduled_for || ''}
+                          onChange={(e) => setEditing({ ...editing, scheduled_for: e.target.value || null })}
+                          className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                        />
+                      </label>
+                    </div>
+                    <label className="block text-sm text-gray-700">
+                      Resolution note (shown to the reporter once resolved)
+                      <textarea
+                        value={editing.resolution_note || ''}
+                        onChange={(e) => setEditing({ ...editing, resolution_note: e.target.value })}
+                        rows={2}
+                        className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                      />
+                    </label>
+                    <div className="flex gap-2">
+                      <button
+                        type="submit"
+                        disabled={isWorking}
+                        className="inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                      >
+                        <Save className="w-4 h-4 mr-2" />
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceTickets;
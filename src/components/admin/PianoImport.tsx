@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Upload, CheckCircle, AlertCircle } from 'lucide-react';
+import type { ImportFormat, ImportPlan, ImportPlanRow } from '../../lib/piano-import';
+
+interface ImportResult extends ImportPlan {
+  dryRun: boolean;
+  inserted?: number;
+  updated?: number;
+  failedUpdates?: number[];
+}
+
+const actionStyles: Record<ImportPlanRow['action'], string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-700'
+};
+
+const PianoImport: React.FC = () => {
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [content, setContent] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const runImport = async (commit: boolean, source = content, sourceFormat = format) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/pianos/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format: sourceFormat, content: source, commit })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Import failed');
+        setResult(null);
+      } else {
+        setResult(data);
+      }
+    } catch (err) {
+      console.error('Piano import error:', err);
+      setError('Import failed. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const detected: ImportFormat = /\.(geo)?json$/i.test(file.name) ? 'geojson' : 'csv';
+    setFileName(file.name);
+    setFormat(detected);
+    setContent(text);
+    setResult(null);
+
+    // Always start with a dry run
+    runImport(false, text, detected);
+  };
+
+  const pendingChanges = result?.dryRun ? result.summary.insert + result.summary.update : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Bulk Piano Import</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Upload a CSV or GeoJSON file. Columns are matched to piano title, artist, year, program,
+          latitude/longitude, image and slug. Nothing is saved until you confirm the preview.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <label className="flex items-center justify-center w-full px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-green-500 transition-colors">
+          <Upload className="w-5 h-5 text-gray-500 mr-2" />
+          <span className="text-sm text-gray-700">{fileName || 'Choose a .csv or .geojson file'}</span>
+          <input type="file" accept=".csv,.geojson,.json" className="hidden" onChange={handleFileChange} />
+        </label>
+
+        {isWorking && (
+          <div className="flex items-center text-sm text-gray-600">
+            <div className="w-4 h-4 border-2 border-green-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Processing…
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {result && !result.dryRun && (
+          <div className="flex items-start p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            <CheckCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            Imported {result.inserted} new piano{result.inserted !== 1 ? 's' : ''} and updated {result.updated}.
+            {result.failedUpdates && result.failedUpdates.length > 0 && (
+              <span className="ml-1">Rows {result.failedUpdates.join(', ')} could not be updated.</span>
+            )}
+          </div>
+        )}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Insert', value: result.summary.insert },
+                { label: 'Update', value: result.summary.update },
+                { label: 'Skip', value: result.summary.skip },
+                { label: 'Invalid', value: result.summary.invalid }
+              ].map(stat => (
+                <div key={stat.label} className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">{stat.label}</p>
+                  <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto max-h-[500px] overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Piano</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slug</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {result.rows.map(row => (
+                    <tr key={row.row} className={row.errors.length ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-3 text-sm text-gray-500">{row.row}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${actionStyles[row.action]}`}>
+                          {row.action}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{row.record.piano_title || '—'}</div>
+                        <div className="text-gray-500">{row.record.artist_name} {row.record.piano_year ? `(${row.record.piano_year})` : ''}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 font-mono">{row.record.piano_url}</td>
+                      <td className="px-4 py-3 text-xs">
+                        {row.errors.map(err => (
+                          <div key={err} className="text-red-700">{err}</div>
+                        ))}
+                        {row.changes.map(change => (
+                          <div key={change.field} className="text-gray-700">
+                            <span className="font-medium">{change.field}</span>: {String(change.from ?? '—')} → {String(change.to ?? '—')}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {result.dryRun && (
+              <div className="flex items-center justify-end space-x-3">
+                <span className="text-sm text-gray-600">
+                  {pendingChanges} change{pendingChanges !== 1 ? 's' : ''} will be written
+                </span>
+                <button
+                  onClick={() => runImport(true)}
+                  disabled={isWorking || pendingChanges === 0}
+                  className="px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Commit Import
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PianoImport;
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Printer, Copy, Check, ExternalLink, AlertCircle, QrCode } from 'lucide-react';
+import { supabase, type Program } from '../../lib/supabase';
+import { LANGUAGES } from '../../lib/i18n';
+import { placardPdfUrl, placardShortUrl, type PianoScanCount } from '../../lib/placards';
+
+interface PlacardPianoRow {
+  id: number;
+  piano_title: string;
+  piano_url: string;
+  artist_name: string;
+}
+
+type ProgramOption = Pick<Program, 'id' | 'act_title' | 'act_language'>;
+
+// Print QR placards per piano or per program, pick each program's second language and see scan counts
+const PlacardManager: React.FC = () => {
+  const [programs, setPrograms] = useState<ProgramOption[]>([]);
+  const [programId, setProgramId] = useState<number | null>(null);
+  const [pianos, setPianos] = useState<PlacardPianoRow[]>([]);
+  const [scans, setScans] = useState<Record<number, PianoScanCount>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingLanguage, setIsSavingLanguage] = useState(false);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPrograms = async () => {
+      const { data, error } = await supabase
+        .from('piano_activations')
+        .select('id, act_title, act_language')
+        .order('id', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching programs:', error);
+        setError('Could not load programs.');
+        setIsLoading(false);
+        return;
+      }
+      setPrograms(data || []);
+      setProgramId(data?.[0]?.id ?? null);
+    };
+    loadPrograms();
+  }, []);
+
+  useEffect(() => {
+    if (programId === null) return;
+
+    const loadPianos = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const { data, error } = await supabase
+          .from('pianos')
+          .select('id, piano_title, piano_url, artist_name')
+          .eq('piano_program', programId)
+          .order('piano_title', { ascending: true });
+
+        if (error) throw error;
+        const rows = data || [];
+        setPianos(rows);
+
+        const { data: counts, error: countsError } = rows.length
+          ? await supabase.from('piano_scan_counts').select('*').in('piano_id', rows.map(piano => piano.id))
+          : { data: [], error: null };
+
+        if (countsError) throw countsError;
+        setScans(Object.fromEntries((counts || []).map((count: PianoScanCount) => [count.piano_id, count])));
+      } catch (error) {
+        console.error('Error fetching placard pianos:', error);
+        setError('Could not load pianos for this program.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadPianos();
+  }, [programId]);
+
+  const program = programs.find(other => other.id === programId);
+
+  const saveLanguage = async (language: string) => {
+    if (!program) return;
+    try {
+      setIsSavingLanguage(true);
+      setError(null);
+      const response = await fetch(`/api/admin/programs/${program.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language: language || null })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not save the language');
+
+      setPrograms(current => current.map(other => other.id === program.id ? { ...other, act_language: data.program.act_language } : other));
+    } catch (error) {
+      console.error('Error saving placard language:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the language.');
+    } finally {
+      setIsSavingLanguage(false);
+    }
+  };
+
+  const copyShortUrl = async (pianoId: number) => {
+    try {
+      await navigator.clipboard.writeText(placardShortUrl(pianoId));
+      setCopiedId(pianoId);
+      setTimeout(() => setCopiedId(current => (current === pianoId ? null : current)), 2000);
+    } catch (error) {
+      console.warn('Clipboard unavailable:', error);
+    }
+  };
+
+  const totalScans = pianos.reduce((sum, piano) => sum + (scans[piano.id]?.total_scans || 0), 0);
+  const recentScans = pianos.reduce((sum, piano) => sum + (scans[piano.id]?.recent_scans || 0), 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Placards</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Print-ready placards with a QR code. Scans are counted anonymously before visitors reach the piano page.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={programId ?? ''}
+            onChange={(e) => setProgramId(parseInt(e.target.value, 10))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            aria-label="Program"
+          >
+            {programs.map(option => (
+              <option key={option.id} value={option.id}>{option.act_title}</option>
+            ))}
+          </select>
+          <select
+            value={program?.act_language || ''}
+            onChange={(e) => saveLanguage(e.target.value)}
+            disabled={!program || isSavingLanguage}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+            aria-label="Second placard language"
+          >
+            <option value="">English only</option>
+            {Object.values(LANGUAGES).filter(language => language.code !== 'en').map(language => (
+              <option key={language.code} value={language.code}>English + {language.name}</option>
+            ))}
+          </select>
+          {program && pianos.length > 0 && (
+            <a
+              href={placardPdfUrl({ program: program.id })}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center px-3 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <Printer className="w-4 h-4 mr-1" />
+              All placards (PDF)
+            </a>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="flex items-start p-4 rounded-lg text-sm border bg-red-50 border-red-200 text-red-700">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {!isLoading && pianos.length > 0 && (
+          <div className="flex gap-6 text-sm text-gray-600">
+            <span><strong className="text-gray-900">{recentScans}</strong> scans in the last 30 days</span>
+            <span><strong className="text-gray-900">{totalScans}</strong> all time</span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-600">
+            <div className="w-4 h-4 border-2 border-green-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Loading pianos…
+          </div>
+        ) : pianos.length === 0 ? (
+          <p className="text-sm text-gray-600">No pianos in this program yet.</p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3">Piano</th>
+                  <th className="px-4 py-3 text-right">Scans (30 days)</th>
+                  <th className="px-4 py-3 text-right">Total</th>
+                  <th className="px-4 py-3">Last scan</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {pianos.map(piano => {
+                  const count = scans[piano.id];
+                  return (
+                    <tr key={piano.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <a
+                          href={`/piano/${piano.piano_url}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center font-medium text-gray-900 hover:text-green-700"
+                        >
+                          {piano.piano_title}
+                          <ExternalLink className="w-3 h-3 ml-1" />
+                        </a>
+                        <p className="text-gray-500">{piano.artist_name}</p>
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium text-gray-900">{count?.recent_scans || 0}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{count?.total_scans || 0}</td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {count?.last_scanned_at ? new Date(count.last_scanned_at).toLocaleDateString() : '—'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => copyShortUrl(piano.id)}
+                            className="inline-flex items-center px-3 py-1.5 bg-white border border-gray-300 text-gray-700 text-xs font-medium rounded-lg hover:bg-gray-50 transition-colors"
+                            title={placardShortUrl(piano.id)}
+                          >
+                            {copiedId === piano.id ? <Check className="w-3.5 h-3.5 mr-1" /> : <Copy className="w-3.5 h-3.5 mr-1" />}
+                            {copiedId === piano.id ? 'Copied' : 'Short URL'}
+                          </button>
+                          <a
+                            href={placardPdfUrl({ piano: piano.id })}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white text-xs font-medium rounded-lg hover:bg-green-700 transition-colors"
+                          >
+                            <QrCode className="w-3.5 h-3.5 mr-1" />
+                            Placard (PDF)
+                          </a>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlacardManager;
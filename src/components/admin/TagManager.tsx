@@ -0,0 +1,473 @@
+import React, { useEffect, useState } from 'react';
+import { Search, Plus, Edit, Trash2, ExternalLink, Tag, X, AlertCircle, CheckCircle } from 'lucide-react';
+import { supabase, type PianoTag, type PianoTagCategory } from '../../lib/supabase';
+import { TAG_CATEGORIES, TAG_SLUG_PATTERN, tagSlug, tagUrl } from '../../lib/tags';
+
+interface TagRow extends PianoTag {
+  piano_tag_assignments?: { count: number }[];
+}
+
+interface TagDraft {
+  id?: number;
+  slug: string;
+  label: string;
+  category: PianoTagCategory;
+  description?: string | null;
+}
+
+interface TaggablePiano {
+  id: number;
+  piano_title: string;
+  artist_name: string;
+  piano_year?: string;
+}
+
+const EMPTY_DRAFT: TagDraft = { slug: '', label: '', category: 'theme', description: '' };
+
+const TagManager: React.FC = () => {
+  const [tags, setTags] = useState<TagRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<TagDraft | null>(null);
+  const [activeTag, setActiveTag] = useState<TagRow | null>(null);
+  const [assigned, setAssigned] = useState<TaggablePiano[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<TaggablePiano[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadTags = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('piano_tags')
+        .select('id, slug, label, category, description, piano_tag_assignments (count)')
+        .order('category')
+        .order('label');
+
+      if (error) throw error;
+      setTags(data || []);
+    } catch (error) {
+      console.error('Error fetching piano tags:', error);
+      setMessage({ type: 'error', text: 'Could not load tags.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAssigned = async (tagId: number) => {
+    const { data, error } = await supabase
+      .from('piano_tag_assignments')
+      .select('pianos (id, piano_title, artist_name, piano_year)')
+      .eq('tag_id', tagId);
+
+    if (error) {
+      console.error('Error fetching tagged pianos:', error);
+      setMessage({ type: 'error', text: 'Could not load the pianos with this tag.' });
+      return;
+    }
+
+    // Embedded many-to-one relations come back typed as arrays without generated types
+    const rows = (data || []) as unknown as { pianos: TaggablePiano | null }[];
+    setAssigned(
+      rows
+        .map(row => row.pianos)
+        .filter((piano): piano is TaggablePiano => piano !== null)
+        .sort((a, b) => a.piano_title.localeCompare(b.piano_title))
+    );
+  };
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  useEffect(() => {
+    setAssigned([]);
+    setResults([]);
+    setSearchTerm('');
+    if (activeTag) loadAssigned(activeTag.id);
+  }, [activeTag?.id]);
+
+  // Pianos by title or artist, to add to the active tag
+  useEffect(() => {
+    const term = searchTerm.trim().replace(/[%,()]/g, ' ');
+    if (!activeTag || term.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('pianos')
+        .select('id, piano_title, artist_name, piano_year')
+        .or(`piano_title.ilike.%${term}%,artist_name.ilike.%${term}%`)
+        .order('piano_title')
+        .limit(20);
+
+      if (error) {
+        console.error('Error searching pianos:', error);
+        return;
+      }
+      setResults(data || []);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm, activeTag?.id]);
+
+  const pianoCount = (tag: TagRow) => tag.piano_tag_assignments?.[0]?.count ?? 0;
+
+  const adjustCount = (tagId: number, delta: number) => {
+    setTags(current => current.map(tag => (
+      tag.id === tagId ? { ...tag, piano_tag_assignments: [{ count: pianoCount(tag) + delta }] } : tag
+    )));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const slug = editing.slug.trim() || tagSlug(editing.label);
+    if (!TAG_SLUG_PATTERN.test(slug)) {
+      setMessage({ type: 'error', text: 'Slugs use lowercase letters, numbers and single hyphens.' });
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setMessage(null);
+
+      const fields = {
+        slug,
+        label: editing.label.trim(),
+        category: editing.category,
+        description: editing.description?.trim() || null
+      };
+      const { error } = editing.id
+        ? await supabase.from('piano_tags').update({ ...fields, updated_at: new Date().toISOString() }).eq('id', editing.id)
+        : await supabase.from('piano_tags').insert(fields);
+
+      if (error) {
+        setMessage({
+          type: 'error',
+          text: error.code === '23505' ? `Another tag already uses the slug "${slug}".` : 'Could not save the tag.'
+        });
+        return;
+      }
+
+      setMessage({ type: 'success', text: `Saved ${fields.label}.` });
+      setEditing(null);
+      loadTags();
+    } catch (error) {
+      console.error('Error saving piano tag:', error);
+      setMessage({ type: 'error', text: 'Could not save the tag.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async (tag: TagRow) => {
+    const count = pianoCount(tag);
+    if (!confirm(`Delete the tag "${tag.label}"?${count ? ` It will be removed from ${count} piano(s).` : ''}`)) return;
+
+    try {
+      setIsWorking(true);
+      const { error } = await supabase.from('piano_tags').delete().eq('id', tag.id);
+      if (error) throw error;
+
+      setTags(current => current.filter(other => other.id !== tag.id));
+      if (activeTag?.id === tag.id) setActiveTag(null);
+      setMessage({ type: 'success', text: `Deleted ${tag.label}.` });
+    } catch (error) {
+      console.error('Error deleting piano tag:', error);
+      setMessage({ type: 'error', text: 'Could not delete the tag.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAssign = async (piano: TaggablePiano) => {
+    if (!activeTag) return;
+
+    const { error } = await supabase
+      .from('piano_tag_assignments')
+      .insert({ piano_id: piano.id, tag_id: activeTag.id });
+
+    if (error) {
+      console.error('Error tagging piano:', error);
+      setMessage({ type: 'error', text: `Could not tag ${piano.piano_title}.` });
+      return;
+    }
+
+    setAssigned(current => [...current, piano].sort((a, b) => a.piano_title.localeCompare(b.piano_title)));
+    adjustCount(activeTag.id, 1);
+  };
+
+  const handleUnassign = async (piano: TaggablePiano) => {
+    if (!activeTag) return;
+
+    const { error } = await supabase
+      .from('piano_tag_assignments')
+      .delete()
+      .eq('piano_id', piano.id)
+      .eq('tag_id', activeTag.id);
+
+    if (error) {
+      console.error('Error untagging piano:', error);
+      setMessage({ type: 'error', text: `Could not remove the tag from ${piano.piano_title}.` });
+      return;
+    }
+
+    setAssigned(current => current.filter(other => other.id !== piano.id));
+    adjustCount(activeTag.id, -1);
+  };
+
+  const assignedIds = new Set(assigned.map(piano => piano.id));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Tags</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Curate the themes, techniques and dedications visitors filter by, and choose which pianos carry each tag.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {message && (
+          <div className={`flex items-start p-4 rounded-lg text-sm border ${
+            message.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            {message.type === 'success'
+              ? <CheckCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              : <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={() => setEditing({ ...EMPTY_DRAFT })}
+            className="inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New tag
+          </button>
+        </div>
+
+        {editing && (
+          <form onSubmit={handleSave} className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50">
+            <h3 className="font-semibold text-gray-900">{editing.id ? `Edit ${editing.label}` : 'New tag'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="text-sm text-gray-700">
+                Label
+                <input
+                  type="text"
+                  required
+                  value={editing.label}
+                  onChange={(e) => setEditing({
+                    ...editing,
+                    label: e.target.value,
+                    // New tags follow the label until the slug is edited by hand
+                    slug: !editing.id && editing.slug === tagSlug(editing.label) ? tagSlug(e.target.value) : editing.slug
+                  })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Slug
+                <input
+                  type="text"
+                  value={editing.slug}
+                  onChange={(e) => setEditing({ ...editing, slug: e.target.value })}
+                  placeholder={tagSlug(editing.label)}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg font-mono"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Category
+                <select
+                  value={editing.category}
+                  onChange={(e) => setEditing({ ...editing, category: e.target.value as PianoTagCategory })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                >
+                  {TAG_CATEGORIES.map(category => (
+                    <option key={category.id} value={category.id}>{category.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="block text-sm text-gray-700">
+              Description
+              <textarea
+                rows={2}
+                value={editing.description || ''}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              />
+            </label>
+            {editing.id && (
+              <p className="text-xs text-gray-500">Changing the slug changes the tag page's address.</p>
+            )}
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isWorking}
+                className="px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-600">
+            <div className="w-4 h-4 border-2 border-green-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Loading tags…
+          </div>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tag</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pianos</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {tags.map(tag => (
+                  <tr key={tag.id} className={activeTag?.id === tag.id ? 'bg-green-50' : ''}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{tag.label}</div>
+                      <div className="text-gray-500 font-mono text-xs">{tag.slug}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {TAG_CATEGORIES.find(category => category.id === tag.category)?.label}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{pianoCount(tag)}</td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      <button
+                        onClick={() => setActiveTag(activeTag?.id === tag.id ? null : tag)}
+                        className="text-green-600 hover:text-green-900 mr-3"
+                        aria-label={`Choose pianos for ${tag.label}`}
+                        title="Choose pianos"
+                      >
+                        <Tag className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditing({ ...tag })}
+                        className="text-green-600 hover:text-green-900 mr-3"
+                        aria-label={`Edit ${tag.label}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(tag)}
+                        disabled={isWorking}
+                        className="text-red-600 hover:text-red-900 mr-3 disabled:opacity-50"
+                        aria-label={`Delete ${tag.label}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                      <a
+                        href={tagUrl(tag)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-block text-gray-500 hover:text-gray-900"
+                        aria-label={`View ${tag.label}`}
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {activeTag && (
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">Pianos tagged {activeTag.label}</h3>
+              <button
+                onClick={() => setActiveTag(null)}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Close"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {assigned.length === 0 ? (
+              <p className="text-sm text-gray-600">No pianos carry this tag yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {assigned.map(piano => (
+                  <span
+                    key={piano.id}
+                    className="inline-flex items-center px-3 py-1 rounded-full bg-green-50 border border-green-200 text-green-800 text-xs font-medium"
+                  >
+                    {piano.piano_title}
+                    <button
+                      onClick={() => handleUnassign(piano)}
+                      className="ml-1 text-green-600 hover:text-green-900"
+                      aria-label={`Remove ${activeTag.label} from ${piano.piano_title}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Find pianos by title or artist to add..."
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+
+            {results.length > 0 && (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg max-h-72 overflow-y-auto">
+                {results.map(piano => (
+                  <li key={piano.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                    <span>
+                      <span className="font-medium text-gray-900">{piano.piano_title}</span>
+                      <span className="text-gray-500"> · {piano.artist_name}{piano.piano_year ? ` · ${piano.piano_year}` : ''}</span>
+                    </span>
+                    {assignedIds.has(piano.id) ? (
+                      <span className="text-xs text-gray-500">Tagged</span>
+                    ) : (
+                      <button
+                        onClick={() => handleAssign(piano)}
+                        className="inline-flex items-center text-green-600 hover:text-green-900 text-sm font-medium"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -13,6 +13,7 @@ import {
 import { useAuth } from '../../lib/auth';
 import { supabase } from '../../lib/supabase';
 import AuthModal from '../auth/AuthModal';
+import { programUrl } from '../../lib/programs';
 
 interface Program {
   id: number;
@@ -256,8 +257,13 @@ const ApplicationPage: React.FC<ApplicationPageProps> = ({ programId }) => {
           </h1>
         </div>
         
-        {selectedProgram && selectedProgram.act_location && (
-          <p className="text-gray-600 mb-4">{selectedProgram.act_location}</p>
+        {selectedProgram && (
+          <p className="text-gray-600 mb-4">
+            {selectedProgram.act_location && <span className="mr-3">{selectedProgram.act_location}</span>}
+            <a href={programUrl(selectedProgram)} className="text-green-600 hover:text-green-700 font-medium">
+              About this program
+            </a>
+          </p>
         )}
       </div>
 
@@ -8,10 +8,12 @@ import {
   Calendar,
   Award,
   Bell,
-  TrendingUp
+  TrendingUp,
+  Heart
 } from 'lucide-react';
 import { useAuth } from '../../lib/auth';
 import { supabase } from '../../lib/supabase';
+import MyPianos from './MyPianos';
 
 interface Application {
   id: number;
@@ -31,6 +33,8 @@ interface DashboardStats {
   approvedApplications: number;
 }
 
+type DashboardTab = 'overview' | 'pianos';
+
 const Dashboard: React.FC = () => {
   const { user, profile, loading } = useAuth();
   const [applications, setApplications] = useState<Application[]>([]);
@@ -40,6 +44,7 @@ const Dashboard: React.FC = () => {
     approvedApplications: 0
   });
   const [isLoadingData, setIsLoadingData] = useState(true);
+  const [activeTab, setActiveTab] = useState<DashboardTab>('overview');
 
   // Debug logging
   useEffect(() => {
@@ -205,207 +210,237 @@ const Dashboard: React.FC = () => {
         </motion.div>
       </div>
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-        <motion.div
-          className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: 0.1 }}
-        >
-          <div className="flex items-center">
-            <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-              <FileText className="w-6 h-6 text-blue-600" />
-            </div>
-            <div className="ml-4">
-              <p className="text-sm text-gray-600">Total Applications</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.totalApplications}</p>
-            </div>
-          </div>
-        </motion.div>
+      {/* Tabs */}
+      <nav className="flex space-x-4 mb-8">
+        {[
+          { id: 'overview', label: 'Overview', icon: FileText },
+          { id: 'pianos', label: 'My Pianos', icon: Heart }
+        ].map(tab => {
+          const Icon = tab.icon;
+          return (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id as DashboardTab)}
+              className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                activeTab === tab.id
+                  ? 'bg-green-100 text-green-700'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Icon className="w-4 h-4 mr-2" />
+              {tab.label}
+            </button>
+          );
+        })}
+      </nav>
 
-        <motion.div
-          className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: 0.2 }}
-        >
-          <div className="flex items-center">
-            <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
-              <Calendar className="w-6 h-6 text-yellow-600" />
-            </div>
-            <div className="ml-4">
-              <p className="text-sm text-gray-600">Active Applications</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.activeApplications}</p>
-            </div>
-          </div>
-        </motion.div>
+      {activeTab === 'pianos' && <MyPianos userId={user.id} />}
 
-        <motion.div
-          className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: 0.3 }}
-        >
-          <div className="flex items-center">
-            <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
-              <Award className="w-6 h-6 text-green-600" />
-            </div>
-            <div className="ml-4">
-              <p className="text-sm text-gray-600">Approved</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.approvedApplications}</p>
-            </div>
-          </div>
-        </motion.div>
-      </div>
+      {activeTab === 'overview' && (
+        <>
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <motion.div
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.1 }}
+            >
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <FileText className="w-6 h-6 text-blue-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm text-gray-600">Total Applications</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.totalApplications}</p>
+                </div>
+              </div>
+            </motion.div>
 
-      {/* Main Content Grid */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {/* Applications List */}
-        <div className="lg:col-span-2">
-          <motion.div
-            className="bg-white rounded-lg shadow-sm border border-gray-200"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.4 }}
-          >
-            <div className="px-6 py-4 border-b border-gray-200">
-              <div className="flex items-center justify-between">
-                <h2 className="text-lg font-semibold text-gray-900">Recent Applications</h2>
-                <a
-                  href="/dashboard/applications"
-                  className="text-green-600 hover:text-green-700 text-sm font-medium"
-                >
-                  View all
-                </a>
+            <motion.div
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.2 }}
+            >
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
+                  <Calendar className="w-6 h-6 text-yellow-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm text-gray-600">Active Applications</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.activeApplications}</p>
+                </div>
               </div>
-            </div>
+            </motion.div>
 
-            <div className="divide-y divide-gray-200">
-              {applications.length === 0 ? (
-                <div className="p-12 text-center">
-                  <Music className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">
-                    No applications yet
-                  </h3>
-                  <p className="text-gray-600 mb-4">
-                    Start by applying for a piano program or partnership opportunity.
-                  </p>
-                  <a
-                    href="/pianos/apply"
-                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                  >
-                    Apply Now
-                  </a>
+            <motion.div
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.3 }}
+            >
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
+                  <Award className="w-6 h-6 text-green-600" />
                 </div>
-              ) : (
-                applications.slice(0, 5).map((application, index) => (
-                  <motion.div
-                    key={application.id}
-                    className="p-6 hover:bg-gray-50 transition-colors"
-                    initial={{ opacity: 0, x: -20 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ duration: 0.3, delay: index * 0.1 }}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h3 className="text-sm font-medium text-gray-900 mb-1">
-                          {application.program?.act_title || `Application #${application.id}`}
-                        </h3>
-                        {application.program?.act_location && (
-                          <p className="text-xs text-gray-500 mb-2">
-                            {application.program.act_location}
-                          </p>
-                        )}
-                        <p className="text-xs text-gray-500">
-                          Submitted on {formatDate(application.created_at)}
-                        </p>
-                      </div>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(application.status)}`}>
-                        {application.status}
-                      </span>
+                <div className="ml-4">
+                  <p className="text-sm text-gray-600">Approved</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.approvedApplications}</p>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* Main Content Grid */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Applications List */}
+            <div className="lg:col-span-2">
+              <motion.div
+                className="bg-white rounded-lg shadow-sm border border-gray-200"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.4 }}
+              >
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-900">Recent Applications</h2>
+                    <a
+                      href="/dashboard/applications"
+                      className="text-green-600 hover:text-green-700 text-sm font-medium"
+                    >
+                      View all
+                    </a>
+                  </div>
+                </div>
+
+                <div className="divide-y divide-gray-200">
+                  {applications.length === 0 ? (
+                    <div className="p-12 text-center">
+                      <Music className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                      <h3 className="text-lg font-medium text-gray-900 mb-2">
+                        No applications yet
+                      </h3>
+                      <p className="text-gray-600 mb-4">
+                        Start by applying for a piano program or partnership opportunity.
+                      </p>
+                      <a
+                        href="/pianos/apply"
+                        className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      >
+                        Apply Now
+                      </a>
                     </div>
-                  </motion.div>
-                ))
-              )}
+                  ) : (
+                    applications.slice(0, 5).map((application, index) => (
+                      <motion.div
+                        key={application.id}
+                        className="p-6 hover:bg-gray-50 transition-colors"
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ duration: 0.3, delay: index * 0.1 }}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <h3 className="text-sm font-medium text-gray-900 mb-1">
+                              {application.program?.act_title || `Application #${application.id}`}
+                            </h3>
+                            {application.program?.act_location && (
+                              <p className="text-xs text-gray-500 mb-2">
+                                {application.program.act_location}
+                              </p>
+                            )}
+                            <p className="text-xs text-gray-500">
+                              Submitted on {formatDate(application.created_at)}
+                            </p>
+                          </div>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(application.status)}`}>
+                            {application.status}
+                          </span>
+                        </div>
+                      </motion.div>
+                    ))
+                  )}
+                </div>
+              </motion.div>
             </div>
-          </motion.div>
-        </div>
 
-        {/* Sidebar */}
-        <div className="space-y-6">
-          {/* Quick Actions */}
-          <motion.div
-            className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.5 }}
-          >
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
-            <div className="space-y-3">
-              <a
-                href="/pianos/apply"
-                className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+            {/* Sidebar */}
+            <div className="space-y-6">
+              {/* Quick Actions */}
+              <motion.div
+                className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.5 }}
               >
-                <Music className="w-5 h-5 text-green-600 mr-3" />
-                <span className="text-sm font-medium text-gray-900">Apply for Program</span>
-              </a>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
+                <div className="space-y-3">
+                  <a
+                    href="/pianos/apply"
+                    className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+                  >
+                    <Music className="w-5 h-5 text-green-600 mr-3" />
+                    <span className="text-sm font-medium text-gray-900">Apply for Program</span>
+                  </a>
               
-              <a
-                href="/dashboard/profile"
-                className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
-              >
-                <User className="w-5 h-5 text-blue-600 mr-3" />
-                <span className="text-sm font-medium text-gray-900">Update Profile</span>
-              </a>
+                  <a
+                    href="/dashboard/profile"
+                    className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+                  >
+                    <User className="w-5 h-5 text-blue-600 mr-3" />
+                    <span className="text-sm font-medium text-gray-900">Update Profile</span>
+                  </a>
               
-              <a
-                href="/contact"
-                className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
-              >
-                <Bell className="w-5 h-5 text-purple-600 mr-3" />
-                <span className="text-sm font-medium text-gray-900">Contact Support</span>
-              </a>
-            </div>
-          </motion.div>
+                  <a
+                    href="/contact"
+                    className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+                  >
+                    <Bell className="w-5 h-5 text-purple-600 mr-3" />
+                    <span className="text-sm font-medium text-gray-900">Contact Support</span>
+                  </a>
+                </div>
+              </motion.div>
 
-          {/* Profile Summary */}
-          <motion.div
-            className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.6 }}
-          >
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Profile</h3>
-            <div className="flex items-center mb-4">
-              <div className="w-12 h-12 bg-green-600 rounded-full flex items-center justify-center text-white font-semibold">
-                {profile?.avatar_url ? (
-                  <img
-                    src={profile.avatar_url}
-                    alt={profile.full_name || 'User'}
-                    className="w-12 h-12 rounded-full object-cover"
-                  />
-                ) : (
-                  (profile?.first_name?.[0] || user?.email?.[0] || 'U').toUpperCase()
-                )}
-              </div>
-              <div className="ml-3">
-                <p className="text-sm font-medium text-gray-900">
-                  {profile?.full_name || user?.email?.split('@')[0]}
-                </p>
-                <p className="text-xs text-gray-500">{user?.email}</p>
-              </div>
-            </div>
+              {/* Profile Summary */}
+              <motion.div
+                className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.6 }}
+              >
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Profile</h3>
+                <div className="flex items-center mb-4">
+                  <div className="w-12 h-12 bg-green-600 rounded-full flex items-center justify-center text-white font-semibold">
+                    {profile?.avatar_url ? (
+                      <img
+                        src={profile.avatar_url}
+                        alt={profile.full_name || 'User'}
+                        className="w-12 h-12 rounded-full object-cover"
+                      />
+                    ) : (
+                      (profile?.first_name?.[0] || user?.email?.[0] || 'U').toUpperCase()
+                    )}
+                  </div>
+                  <div className="ml-3">
+                    <p className="text-sm font-medium text-gray-900">
+                      {profile?.full_name || user?.email?.split('@')[0]}
+                    </p>
+                    <p className="text-xs text-gray-500">{user?.email}</p>
+                  </div>
+                </div>
             
-            <div className="text-sm text-gray-600">
-              <p>Member since {formatDate(user?.created_at || new Date().toISOString())}</p>
-              {profile?.role && (
-                <p className="mt-1">Role: <span className="capitalize">{profile.role}</span></p>
-              )}
+                <div className="text-sm text-gray-600">
+                  <p>Member since {formatDate(user?.created_at || new Date().toISOString())}</p>
+                  {profile?.role && (
+                    <p className="mt-1">Role: <span className="capitalize">{profile.role}</span></p>
+                  )}
+                </div>
+              </motion.div>
             </div>
-          </motion.div>
-        </div>
-      </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Heart, Link as LinkIcon, Copy, Check, Trash2 } from 'lucide-react';
+import { supabase, type Piano } from '../../lib/supabase';
+import { collectionShareUrl, type PianoCollection } from '../../lib/saved-pianos';
+import PianoMap from '../PianoMap';
+
+interface MyPianosProps {
+  userId: string;
+}
+
+// Saved pianos as a list and a mini map, with a switch to share the collection publicly
+const MyPianos: React.FC<MyPianosProps> = ({ userId }) => {
+  const [pianos, setPianos] = useState<Piano[]>([]);
+  const [collection, setCollection] = useState<PianoCollection | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [selectedPiano, setSelectedPiano] = useState<Piano | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const [savedResult, collectionResult] = await Promise.all([
+          supabase
+            .from('saved_pianos')
+            .select('created_at, pianos (id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng)')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('piano_collections')
+            .select('user_id, title, is_public, share_token')
+            .eq('user_id', userId)
+            .maybeSingle()
+        ]);
+
+        if (savedResult.error) throw savedResult.error;
+        // Embedded many-to-one relations come back typed as arrays without generated types
+        setPianos((savedResult.data || []).map(row => row.pianos as unknown as Piano).filter(Boolean));
+        setCollection(collectionResult.data);
+      } catch (error) {
+        console.warn('Error fetching saved pianos:', error);
+        setPianos([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [userId]);
+
+  const removePiano = async (piano: Piano) => {
+    setPianos(current => current.filter(other => other.id !== piano.id));
+    const { error } = await supabase
+      .from('saved_pianos')
+      .delete()
+      .eq('user_id', userId)
+      .eq('piano_id', piano.id);
+
+    if (error) {
+      console.error('Error removing saved piano:', error);
+      setPianos(current => [piano, ...current]);
+    }
+  };
+
+  const setPublic = async (isPublic: boolean) => {
+    try {
+      setIsSharing(true);
+      const { data, error } = await supabase
+        .from('piano_collections')
+        .upsert({ user_id: userId, is_public: isPublic, updated_at: new Date().toISOString() })
+        .select('user_id, title, is_public, share_token')
+        .single();
+
+      if (error) throw error;
+      setCollection(data);
+    } catch (error) {
+      console.error('Error updating collection sharing:', error);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const shareLink = collection ? `${window.location.origin}${collectionShareUrl(collection)}` : '';
+
+  const copyShareLink = async () => {
+    await navigator.clipboard.writeText(shareLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 flex justify-center">
+        <div className="w-8 h-8 border-4 border-green-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (pianos.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+        <Heart className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No saved pianos yet</h3>
+        <p className="text-gray-600 mb-4">
+          Tap the heart on any piano to keep it here and plan your visits.
+        </p>
+        <a
+          href="/pianos"
+          className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+        >
+          Explore Pianos
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Sharing */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Share your collection</h3>
+            <p className="text-sm text-gray-600">Anyone with the link can see your saved pianos. Turn it off to make the link stop working.</p>
+          </div>
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!collection?.is_public}
+              disabled={isSharing}
+              onChange={(e) => setPublic(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Public link
+          </label>
+        </div>
+        {collection?.is_public && (
+          <div className="mt-4 flex items-center gap-2">
+            <LinkIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <input
+              type="text"
+              readOnly
+              value={shareLink}
+              onFocus={(e) => e.currentTarget.select()}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50"
+            />
+            <button
+              onClick={copyShareLink}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-green-700 hover:text-green-900"
+            >
+              {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* List */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-200">
+          {pianos.map(piano => (
+            <div
+              key={piano.id}
+              className={`p-4 flex items-center gap-4 ${selectedPiano?.id === piano.id ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+              onMouseEnter={() => setSelectedPiano(piano)}
+            >
+              <img
+                src={piano.piano_image || '/singforhopepianos.jpg'}
+                alt={piano.piano_title}
+                className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+                loading="lazy"
+              />
+              <div className="flex-1 min-w-0">
+                <a href={`/piano/${piano.piano_url}`} className="block text-sm font-medium text-gray-900 hover:text-green-700 truncate">
+                  {piano.piano_title}
+                </a>
+                <p className="text-xs text-gray-500 truncate">
+                  {piano.artist_name}{piano.piano_year ? ` · ${piano.piano_year}` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => removePiano(piano)}
+                className="text-gray-400 hover:text-red-600 p-2"
+                aria-label={`Remove ${piano.piano_title} from My Pianos`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Mini map */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <PianoMap
+            pianos={pianos}
+            selectedPiano={selectedPiano}
+            onPianoSelect={setSelectedPiano}
+            height="400px"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyPianos;
@@ -0,0 +1,87 @@
+import type { AstroCookies } from 'astro';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import { createServerClient } from '@supabase/ssr';
+
+type StaffRole = 'admin' | 'editor';
+
+export interface StaffContext {
+  supabase: SupabaseClient;
+  session: Session;
+  role: StaffRole;
+}
+
+// Regular Supabase client bound to the request cookies, for session validation
+export function getSupabaseClient(cookies: AstroCookies) {
+  const SUPABASE_URL = import.meta.env.PUBLIC_SUPABASE_URL;
+  const SUPABASE_ANON_KEY = import.meta.env.PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY environment variables are required');
+  }
+
+  return createServerClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    cookies: {
+      get(key: string) {
+        return cookies.get(key)?.value;
+      },
+      set(key: string, value: string, options: any) {
+        cookies.set(key, value, options);
+      },
+      remove(key: string, options: any) {
+        cookies.delete(key, options);
+      },
+    },
+  });
+}
+
+// Service role client for writes that bypass row level security
+export function getSupabaseServiceClient() {
+  const SUPABASE_URL = import.meta.env.PUBLIC_SUPABASE_URL;
+  const SUPABASE_SERVICE_ROLE_KEY = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables are required');
+  }
+
+  return createServerClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    cookies: {
+      get() { return undefined; },
+      set() {},
+      remove() {},
+    },
+  });
+}
+
+/**
+ * Verify the request comes from a signed-in staff member with one of the given roles.
+ * Returns a ready-to-send 401/403 Response when it does not.
+ */
+export async function requireStaff(
+  cookies: AstroCookies,
+  roles: StaffRole[] = ['admin', 'editor']
+): Promise<StaffContext | Response> {
+  const supabase = getSupabaseClient(cookies);
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+  if (sessionError || !session) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', session.user.id)
+    .single();
+
+  if (profileError || !profile || !roles.includes(profile.role)) {
+    return new Response(JSON.stringify({ error: 'Access denied' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return { supabase, session, role: profile.role };
+}
@@ -0,0 +1,62 @@
+import type { Artist } from './supabase';
+
+/**
+ * Canonical form of a free-text artist name: collapses whitespace and turns
+ * "Doe, Jane" into "Jane Doe". Mirrors public.normalize_artist_name() in the database.
+ */
+export function normalizeArtistName(raw: string | null | undefined): string {
+  const cleaned = (raw || '').trim().replace(/\s+/g, ' ');
+  const match = /^([^,\s]+),\s*([^,]+)$/.exec(cleaned);
+  return match ? `${match[2].trim()} ${match[1]}` : cleaned;
+}
+
+// Mirrors public.artist_slug(); letters outside ASCII are kept so non-Latin names still get a slug
+export function artistSlug(raw: string | null | undefined): string {
+  return normalizeArtistName(raw)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function artistUrl(artist: Pick<Artist, 'slug'>): string {
+  return `/artist/${artist.slug}`;
+}
+
+// Artist websites come from applications and staff edits; only plain web links are linked
+export function safeWebsiteUrl(raw: string | null | undefined): string | null {
+  if (!raw?.trim()) return null;
+  try {
+    const url = new URL(raw.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Looser key used to suggest duplicates: accents, punctuation and word order are ignored
+export function artistMatchKey(name: string): string {
+  return normalizeArtistName(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+// Groups of two or more artists that probably refer to the same person
+export function findDuplicateArtists<T extends Pick<Artist, 'id' | 'name'>>(artists: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  artists.forEach(artist => {
+    const key = artistMatchKey(artist.name);
+    if (key) groups.set(key, [...(groups.get(key) || []), artist]);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+// Name to show for a piano, preferring the linked artist record over the free-text field
+export function pianoArtistName(piano: { artist_name: string; artists?: Pick<Artist, 'name'> | null }): string {
+  return piano.artists?.name || piano.artist_name;
+}
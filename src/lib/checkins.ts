@@ -0,0 +1,105 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type CheckinStatus = 'pending' | 'approved' | 'rejected';
+export type CheckinMediaType = 'image' | 'video';
+
+export const CHECKIN_BUCKET = 'checkins';
+export const CHECKIN_NOTE_MAX = 500;
+export const CHECKIN_NAME_MAX = 60;
+
+// Per-kind upload limits; the bucket itself caps everything at 50 MB
+export const CHECKIN_MEDIA_LIMITS: Record<CheckinMediaType, { types: string[]; maxBytes: number }> = {
+  image: { types: ['image/jpeg', 'image/png', 'image/webp', 'image/heic'], maxBytes: 10 * 1024 * 1024 },
+  video: { types: ['video/mp4', 'video/quicktime', 'video/webm'], maxBytes: 50 * 1024 * 1024 }
+};
+
+export function checkinMediaType(contentType: string): CheckinMediaType | null {
+  return (Object.keys(CHECKIN_MEDIA_LIMITS) as CheckinMediaType[])
+    .find(kind => CHECKIN_MEDIA_LIMITS[kind].types.includes(contentType)) || null;
+}
+
+// Validate an upload before a signed URL is issued; returns an error message or null
+export function validateCheckinMedia(contentType: string, size: number): string | null {
+  const kind = checkinMediaType(contentType);
+  if (!kind) return 'Photos must be JPEG, PNG, WebP or HEIC and videos MP4, MOV or WebM';
+  if (!(size > 0) || size > CHECKIN_MEDIA_LIMITS[kind].maxBytes) {
+    return `${kind === 'image' ? 'Photos' : 'Videos'} can be up to ${CHECKIN_MEDIA_LIMITS[kind].maxBytes / 1024 / 1024} MB`;
+  }
+  return null;
+}
+
+// The bucket is private; media is shown through signed URLs that outlive a cached page
+export const CHECKIN_MEDIA_URL_TTL = 24 * 60 * 60;
+
+// Signed URLs for check-in media by storage path. Pages sign approved media with the service
+// client; staff sign pending uploads with their own session. Paths that fail are left out.
+export async function signCheckinMedia(client: SupabaseClient, paths: string[]): Promise<Record<string, string>> {
+  if (!paths.length) return {};
+
+  const { data, error } = await client.storage
+    .from(CHECKIN_BUCKET)
+    .createSignedUrls(paths, CHECKIN_MEDIA_URL_TTL);
+
+  if (error) {
+    console.warn('Error signing check-in media (non-critical):', error);
+    return {};
+  }
+
+  return Object.fromEntries(
+    (data || []).filter(item => item.path && item.signedUrl).map(item => [item.path!, item.signedUrl])
+  );
+}
+
+export function formatTimesPlayed(count?: number | null): string | null {
+  if (!count) return null;
+  return `Played ${count.toLocaleString()} time${count === 1 ? '' : 's'}`;
+}
+
+interface CheckinSubmission {
+  displayName?: string;
+  note?: string;
+  file?: File | null;
+  website?: string; // honeypot, left empty by people
+}
+
+// Browser helper: upload optional media through a signed URL, then create the check-in
+export async function submitCheckin(pianoId: number, submission: CheckinSubmission): Promise<void> {
+  let mediaPath: string | undefined;
+
+  if (submission.file) {
+    const uploadResponse = await fetch(`/api/pianos/${pianoId}/checkins/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentType: submission.file.type, size: submission.file.size })
+    });
+    const upload = await uploadResponse.json();
+
+    if (!uploadResponse.ok) {
+      throw new Error(upload.error || 'Could not prepare the upload');
+    }
+
+    const { error } = await supabase.storage
+      .from(CHECKIN_BUCKET)
+      .uploadToSignedUrl(upload.path, upload.token, submission.file, { contentType: submission.file.type });
+
+    if (error) throw new Error('Upload failed. Please try again.');
+    mediaPath = upload.path;
+  }
+
+  const response = await fetch(`/api/pianos/${pianoId}/checkins`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      displayName: submission.displayName,
+      note: submission.note,
+      mediaPath,
+      website: submission.website
+    })
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Could not post your check-in');
+  }
+}
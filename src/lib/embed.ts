@@ -0,0 +1,82 @@
+import type { Piano } from './supabase';
+import type { MapProviderId } from './map-providers';
+import { normalizeImageUrl } from './piano-images';
+
+export type EmbedTheme = 'light' | 'dark';
+
+// Query parameters accepted by /embed/map
+export interface EmbedMapOptions {
+  programs: number[];
+  site: number | null;
+  year: number | null;
+  theme: EmbedTheme;
+}
+
+// What a host page learns about the piano a visitor picked
+export interface EmbedPianoSummary {
+  id: number;
+  title: string;
+  artist: string;
+  year: number | null;
+  image: string; // absolute URL
+  url: string; // absolute link to the piano page
+}
+
+// Every message between the widget and its host carries this tag, so hosts can
+// tell ours apart from other frames' traffic
+export const EMBED_MESSAGE_SOURCE = 'sfh-piano-map';
+
+// Widget -> host
+export type EmbedEvent =
+  | { type: 'ready'; provider: MapProviderId; count: number }
+  | { type: 'select'; piano: EmbedPianoSummary | null }
+  | { type: 'resize'; width: number; height: number };
+
+// Host -> widget
+export type EmbedCommand = { type: 'select'; pianoId: number | null };
+
+function parseInteger(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Parse the /embed/map query string; anything unrecognised falls back to showing every piano
+export function parseEmbedMapOptions(params: URLSearchParams): EmbedMapOptions {
+  const programs = (params.get('program') || '')
+    .split(',')
+    .map(id => parseInt(id, 10))
+    .filter(id => !isNaN(id));
+
+  return {
+    programs,
+    site: parseInteger(params.get('site')),
+    year: parseInteger(params.get('year')),
+    theme: params.get('theme') === 'dark' ? 'dark' : 'light'
+  };
+}
+
+export function embedPianoSummary(piano: Piano, siteUrl: string): EmbedPianoSummary {
+  return {
+    id: piano.id,
+    title: piano.piano_title,
+    artist: piano.artist_name,
+    year: piano.piano_year,
+    image: new URL(normalizeImageUrl(piano.piano_image), siteUrl).toString(),
+    url: new URL(`/piano/${piano.piano_url}`, siteUrl).toString()
+  };
+}
+
+// The data is public, so any host may listen; a no-op when the widget isn't framed
+export function postToHost(event: EmbedEvent) {
+  if (window.parent === window) return;
+  window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, ...event }, '*');
+}
+
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+  if (message.source !== EMBED_MESSAGE_SOURCE || message.type !== 'select') return null;
+  if (message.pianoId != null && typeof message.pianoId !== 'number') return null;
+  return { type: 'select', pianoId: (message.pianoId as number) ?? null };
+}
@@ -0,0 +1,52 @@
+export type DistanceUnit = 'km' | 'mi';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+export const KM_PER_MILE = 1.609344;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two [lat, lng] points in kilometres
+export function haversineKm(from: [number, number], to: [number, number]): number {
+  const dLat = toRadians(to[0] - from[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function toKm(value: number, unit: DistanceUnit) {
+  return unit === 'mi' ? value * KM_PER_MILE : value;
+}
+
+export function fromKm(km: number, unit: DistanceUnit) {
+  return unit === 'mi' ? km / KM_PER_MILE : km;
+}
+
+/**
+ * Bounding box [west, south, east, north] enclosing a radius around a point.
+ * Longitudes wrap, so a box crossing the antimeridian comes back with west > east.
+ */
+export function boundingBoxAround(lat: number, lng: number, radiusKm: number): [number, number, number, number] {
+  const dLat = radiusKm / KM_PER_DEGREE_LAT;
+  const south = Math.max(-90, lat - dLat);
+  const north = Math.min(90, lat + dLat);
+
+  const cosLat = Math.cos(toRadians(Math.max(Math.abs(south), Math.abs(north))));
+  const dLng = cosLat > 1e-6 ? radiusKm / (KM_PER_DEGREE_LAT * cosLat) : 180;
+  if (dLng >= 180) return [-180, south, 180, north];
+
+  const wrap = (value: number) => ((value + 540) % 360) - 180;
+  return [wrap(lng - dLng), south, wrap(lng + dLng), north];
+}
+
+// Preferred unit for the visitor's locale (miles in the US, UK and a few others)
+export function defaultDistanceUnit(locale = typeof navigator !== 'undefined' ? navigator.language : 'en-US'): DistanceUnit {
+  return /^en-(US|GB|LR)$|^my/i.test(locale) ? 'mi' : 'km';
+}
+
+export function formatDistance(value: number, unit: DistanceUnit): string {
+  if (unit === 'km' && value < 1) return `${Math.round(value * 1000)} m`;
+  if (unit === 'mi' && value < 0.1) return `${Math.round(value * 5280)} ft`;
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${unit}`;
+}
@@ -0,0 +1,62 @@
+import type { Piano } from './supabase';
+
+export interface PianoFeatureProperties {
+  id: string;
+  title: string;
+  city: string | null;
+  year: number | null;
+  artist: string;
+  program: string | null;
+  thumbnail: string | null;
+  url: string;
+}
+
+export interface PianoFeature {
+  type: 'Feature';
+  properties: PianoFeatureProperties;
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number]; // [lng, lat]
+  };
+}
+
+export interface PianoFeatureCollection {
+  type: 'FeatureCollection';
+  features: PianoFeature[];
+}
+
+export function pianoToFeature(piano: Piano): PianoFeature | null {
+  const lat = Number(piano.perm_lat);
+  const lng = Number(piano.perm_lng);
+  if (piano.perm_lat == null || piano.perm_lng == null || isNaN(lat) || isNaN(lng)) {
+    return null;
+  }
+
+  return {
+    type: 'Feature',
+    properties: {
+      id: String(piano.id),
+      title: piano.piano_title,
+      city: piano.program?.act_location || null,
+      year: piano.piano_year,
+      artist: piano.artist_name,
+      program: piano.program?.act_title || null,
+      thumbnail: piano.piano_image || null,
+      url: `/piano/${piano.piano_url}`
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [lng, lat]
+    }
+  };
+}
+
+// Pianos without coordinates are skipped, since GeoJSON features need a geometry
+export function pianosToFeatureCollection(pianos: Piano[]): PianoFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: pianos
+      .map(pianoToFeature)
+      .filter((feature): feature is PianoFeature => feature !== null)
+  };
+}
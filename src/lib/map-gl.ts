@@ -0,0 +1,125 @@
+import {
+  createMarkerElement,
+  createUserLocationElement,
+  syncMarkers,
+  withLoadTimeout,
+  type MapAdapter,
+  type MapAdapterEvents,
+  type MapAdapterOptions,
+  type MapProviderId,
+  type MapViewport,
+  type RenderedMarker
+} from './map-providers';
+import type { GeoJSONSource, Marker, StyleSpecification } from 'mapbox-gl';
+
+// MapLibre GL is typed as Mapbox GL too: its API matches for everything used here
+export type GlLibrary = typeof import('mapbox-gl').default;
+
+const ROUTE_ID = 'piano-route';
+
+/**
+ * Adapter shared by Mapbox GL and MapLibre GL, whose APIs match for everything
+ * the piano map uses. `gl` is the loaded library namespace.
+ */
+export async function createGlAdapter(
+  gl: GlLibrary,
+  provider: MapProviderId,
+  style: string | StyleSpecification,
+  container: HTMLElement,
+  options: MapAdapterOptions,
+  events: MapAdapterEvents
+): Promise<MapAdapter> {
+  const map = new gl.Map({
+    container,
+    style,
+    center: [options.center[1], options.center[0]], // [lng, lat]
+    zoom: options.zoom,
+    pitchWithRotate: false,
+    dragRotate: false
+  });
+
+  map.touchZoomRotate.disableRotation();
+  if (!options.scrollZoom) map.scrollZoom.disable();
+  if (options.showControls) {
+    map.addControl(new gl.NavigationControl({ showCompass: false, visualizePitch: false }), 'top-right');
+  }
+
+  // Any error before the style loads (bad token, unreachable style) means this provider is unusable
+  try {
+    await withLoadTimeout(new Promise<void>((resolve, reject) => {
+      map.once('load', () => resolve());
+      map.once('error', event => reject(event?.error || new Error(`${provider} style failed to load`)));
+    }), provider);
+  } catch (error) {
+    try { map.remove(); } catch {}
+    throw error;
+  }
+
+  const markers = new Map<string, RenderedMarker<Marker>>();
+  let userMarker: Marker | null = null;
+
+  const getViewport = (): MapViewport => {
+    const bounds = map.getBounds();
+    return { bounds: [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()], zoom: map.getZoom() };
+  };
+
+  map.on('moveend', () => events.onViewportChange(getViewport()));
+
+  const observer = new ResizeObserver(() => map.resize());
+  observer.observe(container);
+
+  return {
+    provider,
+    setMarkers(next) {
+      syncMarkers(markers, next, marker => {
+        const instance = new gl.Marker(createMarkerElement(marker, () => events.onMarkerClick(marker.key)))
+          .setLngLat([marker.lng, marker.lat]);
+        if (marker.popupHtml) instance.setPopup(new gl.Popup({ offset: 16, closeButton: false }).setHTML(marker.popupHtml));
+        return instance.addTo(map);
+      }, instance => instance.remove());
+    },
+    setRoute(line) {
+      const data = {
+        type: 'Feature' as const,
+        properties: {},
+        geometry: { type: 'LineString' as const, coordinates: line.length > 1 ? line : [] }
+      };
+
+      const source = map.getSource<GeoJSONSource>(ROUTE_ID);
+      if (source) {
+        source.setData(data);
+      } else {
+        map.addSource(ROUTE_ID, { type: 'geojson', data });
+        map.addLayer({
+          id: ROUTE_ID,
+          type: 'line',
+          source: ROUTE_ID,
+          layout: { 'line-join': 'round', 'line-cap': 'round' },
+          paint: { 'line-color': '#15803d', 'line-width': 4, 'line-opacity': 0.8, 'line-dasharray': [2, 1.5] }
+        });
+      }
+    },
+    setUserLocation(position) {
+      userMarker?.remove();
+      userMarker = position
+        ? new gl.Marker(createUserLocationElement()).setLngLat([position[1], position[0]]).addTo(map)
+        : null;
+    },
+    fitBounds([west, south, east, north], maxZoom) {
+      map.fitBounds([[west, south], [east, north]], { padding: { top: 60, bottom: 60, left: 40, right: 40 }, maxZoom });
+    },
+    flyTo(lat, lng, zoom) {
+      map.flyTo({ center: [lng, lat], zoom, speed: 0.8, curve: 1.42, essential: true });
+    },
+    getViewport,
+    resize() {
+      map.resize();
+    },
+    destroy() {
+      observer.disconnect();
+      markers.forEach(({ instance }) => instance.remove());
+      userMarker?.remove();
+      try { map.remove(); } catch {}
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import {
+  createMarkerElement,
+  createUserLocationElement,
+  syncMarkers,
+  type CreateMapAdapter,
+  type MapViewport,
+  type RenderedMarker
+} from './map-providers';
+import type { Marker, Polyline } from 'leaflet';
+
+// Leaflet over OpenStreetMap tiles: no token, no WebGL, the last resort in the fallback chain
+export const createLeafletAdapter: CreateMapAdapter = async (container, options, events) => {
+  const L = (await import('leaflet')).default;
+
+  const map = L.map(container, {
+    center: options.center,
+    zoom: options.zoom,
+    zoomControl: options.showControls,
+    scrollWheelZoom: options.scrollZoom
+  });
+
+  L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+    attribution: '&copy; OpenStreetMap contributors'
+  }).addTo(map);
+
+  const markerLayer = L.layerGroup().addTo(map);
+  const markers = new Map<string, RenderedMarker<Marker>>();
+  let routeLayer: Polyline | null = null;
+  let userMarker: Marker | null = null;
+
+  const divIcon = (element: HTMLElement) => L.divIcon({ html: element, className: '', iconSize: null });
+
+  const getViewport = (): MapViewport => {
+    const bounds = map.getBounds();
+    return { bounds: [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()], zoom: map.getZoom() };
+  };
+
+  map.on('moveend', () => events.onViewportChange(getViewport()));
+
+  const observer = new ResizeObserver(() => map.invalidateSize());
+  observer.observe(container);
+
+  return {
+    provider: 'leaflet',
+    setMarkers(next) {
+      syncMarkers(markers, next, marker => {
+        const instance = L.marker([marker.lat, marker.lng], {
+          icon: divIcon(createMarkerElement(marker, () => {
+            events.onMarkerClick(marker.key);
+            if (marker.popupHtml) instance.openPopup();
+          }))
+        });
+        if (marker.popupHtml) instance.bindPopup(marker.popupHtml, { closeButton: false });
+        markerLayer.addLayer(instance);
+        return instance;
+      }, instance => markerLayer.removeLayer(instance));
+    },
+    setRoute(line) {
+      routeLayer?.remove();
+      routeLayer = line.length > 1
+        ? L.polyline(line.map(([lng, lat]) => [lat, lng]), { color: '#15803d', weight: 4, opacity: 0.8, dashArray: '8 6' }).addTo(map)
+        : null;
+    },
+    setUserLocation(position) {
+      userMarker?.remove();
+      userMarker = position
+        ? L.marker(position, { icon: divIcon(createUserLocationElement()), interactive: false }).addTo(map)
+        : null;
+    },
+    fitBounds([west, south, east, north], maxZoom) {
+      map.fitBounds([[south, west], [north, east]], { padding: [40, 40], maxZoom });
+    },
+    flyTo(lat, lng, zoom) {
+      map.flyTo([lat, lng], zoom, { duration: 1.0 });
+    },
+    getViewport,
+    resize() {
+      map.invalidateSize();
+    },
+    destroy() {
+      observer.disconnect();
+      map.remove();
+    }
+  };
+};
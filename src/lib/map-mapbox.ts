@@ -0,0 +1,13 @@
+import type { CreateMapAdapter } from './map-providers';
+import { createGlAdapter } from './map-gl';
+
+// Mapbox GL with the Mapbox streets style; needs PUBLIC_MAPBOX_TOKEN
+export const createMapboxAdapter: CreateMapAdapter = async (container, options, events) => {
+  const [{ default: mapboxgl }] = await Promise.all([
+    import('mapbox-gl'),
+    import('mapbox-gl/dist/mapbox-gl.css')
+  ]);
+
+  mapboxgl.accessToken = import.meta.env.PUBLIC_MAPBOX_TOKEN;
+  return createGlAdapter(mapboxgl, 'mapbox', 'mapbox://styles/mapbox/streets-v12', container, options, events);
+};
@@ -0,0 +1,36 @@
+import { loadExternal, type CreateMapAdapter } from './map-providers';
+import type { StyleSpecification } from 'mapbox-gl';
+import { createGlAdapter, type GlLibrary } from './map-gl';
+
+declare global {
+  interface Window {
+    maplibregl?: GlLibrary;
+  }
+}
+
+const MAPLIBRE_VERSION = '3.6.2';
+
+// Token-free: MapLibre GL from the CDN over OpenStreetMap raster tiles
+const OSM_STYLE: StyleSpecification = {
+  version: 8,
+  sources: {
+    osm: {
+      type: 'raster',
+      tiles: ['https://tile.openstreetmap.org/{z}/{x}/{y}.png'],
+      tileSize: 256,
+      attribution: '© OpenStreetMap contributors'
+    }
+  },
+  layers: [{ id: 'osm', type: 'raster', source: 'osm' }]
+};
+
+export const createMapLibreAdapter: CreateMapAdapter = async (container, options, events) => {
+  if (!window.maplibregl) {
+    await Promise.all([
+      loadExternal(`https://cdn.jsdelivr.net/npm/maplibre-gl@${MAPLIBRE_VERSION}/dist/maplibre-gl.css`, 'style'),
+      loadExternal(`https://cdn.jsdelivr.net/npm/maplibre-gl@${MAPLIBRE_VERSION}/dist/maplibre-gl.js`, 'script')
+    ]);
+  }
+
+  return createGlAdapter(window.maplibregl, 'maplibre', OSM_STYLE, container, options, events);
+};
@@ -0,0 +1,133 @@
+import {
+  createMarkerElement,
+  createUserLocationElement,
+  loadExternal,
+  syncMarkers,
+  type CreateMapAdapter,
+  type MapViewport,
+  type RenderedMarker
+} from './map-providers';
+
+// The parts of an OpenLayers overlay the adapter keeps hold of. The CDN build's `ol` namespace
+// stays untyped: the npm package's types follow its module layout, not the global's
+interface OlOverlay {
+  setPosition(position: number[] | undefined): void;
+}
+
+declare global {
+  interface Window {
+    ol?: any;
+  }
+}
+
+const OL_VERSION = 'v9.2.4';
+
+// OpenLayers from the CDN over OpenStreetMap tiles; markers are HTML overlays like the other providers
+export const createOpenLayersAdapter: CreateMapAdapter = async (container, options, events) => {
+  if (!window.ol) {
+    await Promise.all([
+      loadExternal(`https://cdn.jsdelivr.net/npm/ol@${OL_VERSION}/ol.css`, 'style'),
+      loadExternal(`https://cdn.jsdelivr.net/npm/ol@${OL_VERSION}/dist/ol.js`, 'script')
+    ]);
+  }
+  const ol = window.ol;
+
+  const routeSource = new ol.source.Vector();
+  const map = new ol.Map({
+    target: container,
+    layers: [
+      new ol.layer.Tile({ source: new ol.source.OSM() }),
+      new ol.layer.Vector({
+        source: routeSource,
+        style: new ol.style.Style({
+          stroke: new ol.style.Stroke({ color: 'rgba(21, 128, 61, 0.8)', width: 4, lineDash: [8, 6] })
+        })
+      })
+    ],
+    view: new ol.View({
+      center: ol.proj.fromLonLat([options.center[1], options.center[0]]),
+      zoom: options.zoom
+    }),
+    controls: options.showControls ? undefined : [],
+    // The full build nests the defaults() helper one level deeper in newer releases
+    interactions: (ol.interaction.defaults.defaults || ol.interaction.defaults)({ mouseWheelZoom: options.scrollZoom })
+  });
+
+  const popupElement = document.createElement('div');
+  popupElement.className = 'bg-white rounded-lg shadow-lg p-3 max-w-xs';
+  const popup: OlOverlay = new ol.Overlay({ element: popupElement, positioning: 'bottom-center', offset: [0, -18], stopEvent: true });
+  map.addOverlay(popup);
+  map.on('singleclick', () => popup.setPosition(undefined));
+
+  const markers = new Map<string, RenderedMarker<OlOverlay>>();
+  let userOverlay: OlOverlay | null = null;
+
+  const getViewport = (): MapViewport => {
+    const view = map.getView();
+    const extent = ol.proj.transformExtent(view.calculateExtent(map.getSize()), 'EPSG:3857', 'EPSG:4326');
+    return { bounds: extent as MapViewport['bounds'], zoom: view.getZoom() };
+  };
+
+  map.on('moveend', () => events.onViewportChange(getViewport()));
+
+  const observer = new ResizeObserver(() => map.updateSize());
+  observer.observe(container);
+
+  return {
+    provider: 'openlayers',
+    setMarkers(next) {
+      syncMarkers(markers, next, marker => {
+        const position = ol.proj.fromLonLat([marker.lng, marker.lat]);
+        const overlay: OlOverlay = new ol.Overlay({
+          element: createMarkerElement(marker, () => {
+            events.onMarkerClick(marker.key);
+            if (marker.popupHtml) {
+              popupElement.innerHTML = marker.popupHtml;
+              popup.setPosition(position);
+            }
+          }),
+          position,
+          positioning: 'center-center',
+          stopEvent: true
+        });
+        map.addOverlay(overlay);
+        return overlay;
+      }, overlay => map.removeOverlay(overlay));
+    },
+    setRoute(line) {
+      routeSource.clear();
+      if (line.length > 1) {
+        routeSource.addFeature(new ol.Feature({
+          geometry: new ol.geom.LineString(line.map(point => ol.proj.fromLonLat(point)))
+        }));
+      }
+    },
+    setUserLocation(position) {
+      if (userOverlay) map.removeOverlay(userOverlay);
+      userOverlay = null;
+      if (position) {
+        userOverlay = new ol.Overlay({
+          element: createUserLocationElement(),
+          position: ol.proj.fromLonLat([position[1], position[0]]),
+          positioning: 'center-center'
+        });
+        map.addOverlay(userOverlay);
+      }
+    },
+    fitBounds(bounds, maxZoom) {
+      const extent = ol.proj.transformExtent(bounds, 'EPSG:4326', 'EPSG:3857');
+      map.getView().fit(extent, { padding: [60, 40, 60, 40], maxZoom, duration: 400 });
+    },
+    flyTo(lat, lng, zoom) {
+      map.getView().animate({ center: ol.proj.fromLonLat([lng, lat]), zoom, duration: 600 });
+    },
+    getViewport,
+    resize() {
+      map.updateSize();
+    },
+    destroy() {
+      observer.disconnect();
+      map.setTarget(undefined);
+    }
+  };
+};
@@ -0,0 +1,350 @@
+import type { Piano } from './supabase';
+import { formatTimesPlayed } from './checkins';
+import { openStatus, siteAmenities } from './sites';
+
+// Map rendering backends behind the PianoMap component
+export type MapProviderId = 'mapbox' | 'maplibre' | 'leaflet' | 'openlayers';
+
+export const MAP_PROVIDERS: MapProviderId[] = ['mapbox', 'maplibre', 'leaflet', 'openlayers'];
+
+// Where to go when a provider can't load: Mapbox needs a token, the others don't
+const FALLBACK_PROVIDER: Record<MapProviderId, MapProviderId | null> = {
+  mapbox: 'maplibre',
+  maplibre: 'leaflet',
+  openlayers: 'leaflet',
+  leaflet: null
+};
+
+// Give up on a provider whose style or library hasn't loaded by then
+export const MAP_LOAD_TIMEOUT_MS = 10000;
+
+export type MapBounds = [number, number, number, number]; // [west, south, east, north]
+
+export interface MapViewport {
+  bounds: MapBounds;
+  zoom: number;
+}
+
+export interface MapMarker {
+  key: string;
+  lat: number;
+  lng: number;
+  label?: string; // text inside the marker, e.g. a trail stop number
+  count?: number; // set on cluster markers
+  selected?: boolean;
+  popupHtml?: string;
+}
+
+export interface MapAdapterOptions {
+  center: [number, number]; // [lat, lng]
+  zoom: number;
+  showControls: boolean;
+  scrollZoom: boolean;
+}
+
+export interface MapAdapterEvents {
+  onMarkerClick: (key: string) => void;
+  onViewportChange: (viewport: MapViewport) => void;
+}
+
+// What PianoMap needs from a provider; each adapter module implements it imperatively
+export interface MapAdapter {
+  provider: MapProviderId;
+  setMarkers(markers: MapMarker[]): void;
+  setRoute(line: [number, number][]): void; // [lng, lat] pairs, empty to clear
+  setUserLocation(position: [number, number] | null): void; // [lat, lng]
+  fitBounds(bounds: MapBounds, maxZoom: number): void;
+  flyTo(lat: number, lng: number, zoom: number): void;
+  getViewport(): MapViewport;
+  resize(): void;
+  destroy(): void;
+}
+
+// Resolves once the map has loaded; rejects (after cleaning up) if it can't
+export type CreateMapAdapter = (
+  container: HTMLElement,
+  options: MapAdapterOptions,
+  events: MapAdapterEvents
+) => Promise<MapAdapter>;
+
+// The fields the map needs, so pages with their own piano shape can use it too
+export type MapPiano = Pick<Piano, 'id' | 'piano_title' | 'artist_name' | 'piano_year' | 'piano_url' | 'perm_lat' | 'perm_lng'> & {
+  times_played?: number;
+  site?: Piano['site'];
+};
+
+export function isMapProvider(value: unknown): value is MapProviderId {
+  return typeof value === 'string' && MAP_PROVIDERS.includes(value as MapProviderId);
+}
+
+// The configured provider, or Mapbox when nothing is set
+export function configuredMapProvider(): MapProviderId {
+  const configured = import.meta.env.PUBLIC_MAP_PROVIDER;
+  return isMapProvider(configured) ? configured : 'mapbox';
+}
+
+// Providers to try in order, skipping Mapbox when there is no token
+export function mapProviderChain(preferred: MapProviderId = configuredMapProvider()): MapProviderId[] {
+  const chain: MapProviderId[] = [];
+  let provider: MapProviderId | null = preferred;
+
+  while (provider) {
+    if (provider !== 'mapbox' || import.meta.env.PUBLIC_MAPBOX_TOKEN) chain.push(provider);
+    provider = FALLBACK_PROVIDER[provider];
+  }
+
+  return chain;
+}
+
+export async function loadMapAdapter(provider: MapProviderId): Promise<CreateMapAdapter> {
+  switch (provider) {
+    case 'mapbox':
+      return (await import('./map-mapbox')).createMapboxAdapter;
+    case 'maplibre':
+      return (await import('./map-maplibre')).createMapLibreAdapter;
+    case 'leaflet':
+      return (await import('./map-leaflet')).createLeafletAdapter;
+    case 'openlayers':
+      return (await import('./map-openlayers')).createOpenLayersAdapter;
+  }
+}
+
+export function hasCoordinates(piano: MapPiano): boolean {
+  return piano.perm_lat != null && piano.perm_lng != null && !isNaN(Number(piano.perm_lat)) && !isNaN(Number(piano.perm_lng));
+}
+
+export function boundsOf(points: { lat: number; lng: number }[]): MapBounds | null {
+  if (!points.length) return null;
+  return [
+    Math.min(...points.map(point => point.lng)),
+    Math.min(...points.map(point => point.lat)),
+    Math.max(...points.map(point => point.lng)),
+    Math.max(...points.map(point => point.lat))
+  ];
+}
+
+// Reject if a provider takes too long, e.g. a style request that never answers
+export function withLoadTimeout<T>(promise: Promise<T>, provider: MapProviderId): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${provider} map did not load in time`)), MAP_LOAD_TIMEOUT_MS);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+// Add a CDN script or stylesheet once and wait for it
+export function loadExternal(url: string, kind: 'script' | 'style'): Promise<void> {
+  const selector = kind === 'script' ? `script[src="${url}"]` : `link[href="${url}"]`;
+  const existing = document.querySelector<HTMLElement>(selector);
+  if (existing?.dataset.loaded === 'true' || (kind === 'style' && existing)) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const element = existing || (kind === 'script' ? document.createElement('script') : document.createElement('link'));
+    element.addEventListener('load', () => { element.dataset.loaded = 'true'; resolve(); });
+    element.addEventListener('error', () => reject(new Error(`Failed to load ${url}`)));
+
+    if (!existing) {
+      if (element instanceof HTMLScriptElement) element.src = url;
+      if (element instanceof HTMLLinkElement) {
+        element.rel = 'stylesheet';
+        element.href = url;
+      }
+      document.head.appendChild(element);
+    }
+  });
+}
+
+// Cluster cell size in screen pixels
+const CLUSTER_CELL_PX = 60;
+
+// From this zoom, clicking a cluster fans its pianos out instead of zooming further
+export const SPIDERFY_ZOOM = 16;
+
+// Pianos closer than this (in degrees, about 10 m) count as sharing a spot
+const CO_LOCATED_DEGREES = 0.0001;
+
+// Position in Web Mercator pixels at this zoom, which is how every provider lays out the screen
+function worldPixel(lat: number, lng: number, zoom: number): [number, number] {
+  const scale = 256 * Math.pow(2, zoom);
+  const sin = Math.sin((Math.max(Math.min(lat, 85), -85) * Math.PI) / 180);
+  return [
+    ((lng + 180) / 360) * scale,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  ];
+}
+
+function fromWorldPixel(x: number, y: number, zoom: number): { lat: number; lng: number } {
+  const scale = 256 * Math.pow(2, zoom);
+  return {
+    lat: (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / scale))) * 180) / Math.PI,
+    lng: (x / scale) * 360 - 180
+  };
+}
+
+/**
+ * Group markers that would overlap at this zoom into cluster markers. Selected and
+ * labelled markers always stay on their own. `members` lists what each cluster holds.
+ */
+export function clusterMarkers(markers: MapMarker[], zoom: number): { markers: MapMarker[]; members: Record<string, MapMarker[]> } {
+  const cells = new Map<string, MapMarker[]>();
+  const single: MapMarker[] = [];
+
+  markers.forEach(marker => {
+    if (marker.selected || marker.label) {
+      single.push(marker);
+      return;
+    }
+    const [x, y] = worldPixel(marker.lat, marker.lng, Math.round(zoom));
+    const cell = `${Math.floor(x / CLUSTER_CELL_PX)}:${Math.floor(y / CLUSTER_CELL_PX)}`;
+    cells.set(cell, [...(cells.get(cell) || []), marker]);
+  });
+
+  const members: Record<string, MapMarker[]> = {};
+  const clustered = [...cells.entries()].map(([cell, group]) => {
+    if (group.length === 1) return group[0];
+    const key = `cluster:${cell}`;
+    members[key] = group;
+    return {
+      key,
+      lat: group.reduce((sum, marker) => sum + marker.lat, 0) / group.length,
+      lng: group.reduce((sum, marker) => sum + marker.lng, 0) / group.length,
+      count: group.length
+    };
+  });
+
+  return { markers: [...clustered, ...single], members };
+}
+
+// Whether clicking this cluster should fan it out rather than zoom in
+export function shouldSpiderfy(members: MapMarker[], zoom: number): boolean {
+  const bounds = boundsOf(members);
+  return zoom >= SPIDERFY_ZOOM || (!!bounds && bounds[2] - bounds[0] < CO_LOCATED_DEGREES && bounds[3] - bounds[1] < CO_LOCATED_DEGREES);
+}
+
+/**
+ * Spread markers that share a spot around it on a circle (a spiral for large groups),
+ * so each one can be clicked at the current zoom.
+ */
+export function spiderfyMarkers(markers: MapMarker[], center: { lat: number; lng: number }, zoom: number): MapMarker[] {
+  const [cx, cy] = worldPixel(center.lat, center.lng, zoom);
+  const spiral = markers.length > 8;
+
+  return markers.map((marker, index) => {
+    const angle = spiral ? index * 0.9 : (2 * Math.PI * index) / markers.length;
+    const radius = spiral ? 26 + index * 5 : Math.max(30, markers.length * 7);
+    return { ...marker, ...fromWorldPixel(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle), zoom) };
+  });
+}
+
+// Only markers inside the viewport, plus a margin so panning doesn't reveal gaps, get DOM elements
+export function markersInView(markers: MapMarker[], [west, south, east, north]: MapBounds, margin = 0.25): MapMarker[] {
+  const latPad = (north - south) * margin;
+  const lngSpan = west > east ? east + 360 - west : east - west; // west > east across the antimeridian
+  const minLng = west - lngSpan * margin;
+  const maxLng = west + lngSpan * (1 + margin);
+  const wholeWorld = maxLng - minLng >= 360;
+
+  return markers.filter(marker =>
+    marker.selected || (
+      marker.lat >= south - latPad &&
+      marker.lat <= north + latPad &&
+      (wholeWorld || [marker.lng - 360, marker.lng, marker.lng + 360].some(lng => lng >= minLng && lng <= maxLng))
+    )
+  );
+}
+
+export interface RenderedMarker<T> {
+  signature: string;
+  instance: T;
+}
+
+/**
+ * Bring a provider's rendered markers in line with `next`, keyed by marker key:
+ * unchanged markers are kept, changed ones replaced, missing ones removed.
+ */
+export function syncMarkers<T>(
+  rendered: Map<string, RenderedMarker<T>>,
+  next: MapMarker[],
+  create: (marker: MapMarker) => T,
+  remove: (instance: T) => void
+) {
+  const nextKeys = new Set(next.map(marker => marker.key));
+  rendered.forEach((entry, key) => {
+    if (!nextKeys.has(key)) {
+      remove(entry.instance);
+      rendered.delete(key);
+    }
+  });
+
+  next.forEach(marker => {
+    const signature = [marker.lat, marker.lng, marker.label, marker.count, marker.selected, marker.popupHtml].join('|');
+    const existing = rendered.get(marker.key);
+    if (existing?.signature === signature) return;
+    if (existing) remove(existing.instance);
+    rendered.set(marker.key, { signature, instance: create(marker) });
+  });
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Where the piano is, whether it's open now (at the moment the popup is built) and access
+function sitePopupHtml(site: NonNullable<MapPiano['site']>): string {
+  const status = openStatus(site);
+  const amenities = siteAmenities(site);
+  const statusColor = status.state === 'open' ? 'text-green-700' : status.state === 'unknown' ? 'text-gray-500' : 'text-red-700';
+  return `
+      <div class="mt-1 pt-1 border-t border-gray-200">
+        <div class="text-xs font-medium">${escapeHtml(site.site_title)}</div>
+        <div class="text-xs ${statusColor}">${escapeHtml(status.label)}</div>
+        ${amenities.length ? `<div class="text-xs text-gray-500">${escapeHtml(amenities.join(' · '))}</div>` : ''}
+      </div>
+  `;
+}
+
+export function pianoPopupHtml(piano: MapPiano): string {
+  return `
+    <div class="text-sm">
+      <div class="font-semibold">${escapeHtml(piano.piano_title)}</div>
+      <div class="text-gray-600">by ${escapeHtml(piano.artist_name)}</div>
+      ${piano.piano_year ? `<div class="text-xs text-gray-500">${piano.piano_year}</div>` : ''}
+      ${piano.times_played ? `<div class="text-xs text-green-700">${formatTimesPlayed(piano.times_played)}</div>` : ''}
+      ${piano.site ? sitePopupHtml(piano.site) : ''}
+      <a href="/piano/${encodeURIComponent(piano.piano_url)}#report" class="block text-xs text-gray-500 hover:text-red-700 mt-1">Report a problem</a>
+    </div>
+  `;
+}
+
+// The same marker element for every provider, so pianos look alike whichever map loads
+export function createMarkerElement(marker: MapMarker, onClick: () => void): HTMLElement {
+  const el = document.createElement('div');
+  const size = marker.count ? 34 : marker.selected ? 26 : 22;
+  el.className = 'piano-marker';
+  el.style.cssText = [
+    `background:${marker.count ? '#16a34a' : marker.selected ? '#f59e0b' : marker.label ? '#15803d' : '#22c55e'}`,
+    `border:${marker.count ? 3 : 2}px solid #fff`,
+    'border-radius:50%', `width:${size}px`, `height:${size}px`, 'box-shadow:0 2px 4px rgba(0,0,0,0.3)',
+    'cursor:pointer', 'z-index:10',
+    'display:flex', 'align-items:center', 'justify-content:center',
+    'color:#fff', `font:600 ${marker.count ? 12 : 11}px/1 sans-serif`
+  ].join(';');
+
+  const text = marker.count ? String(marker.count) : marker.label;
+  if (text) el.textContent = text;
+  el.setAttribute('role', 'button');
+  el.setAttribute('aria-label', marker.count ? `${marker.count} pianos, zoom in` : 'Piano');
+  el.addEventListener('click', event => {
+    event.stopPropagation();
+    onClick();
+  });
+  return el;
+}
+
+export function createUserLocationElement(): HTMLElement {
+  const el = document.createElement('div');
+  el.style.cssText = 'width:16px;height:16px;border-radius:50%;background:#2563eb;border:3px solid #fff;box-shadow:0 0 0 6px rgba(37,99,235,0.25)';
+  el.setAttribute('aria-label', 'Your location');
+  return el;
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import type { Piano } from './supabase';
+import { fetchNearbyPianos } from './piano-query';
+import { defaultDistanceUnit, fromKm, haversineKm, type DistanceUnit } from './geo';
+
+export type NearbyStatus = 'idle' | 'locating' | 'loading' | 'ready' | 'denied' | 'unavailable' | 'error';
+
+export interface NearbyFilters {
+  programs?: number[];
+  yearFrom?: number | null;
+  yearTo?: number | null;
+}
+
+interface NearbyOptions {
+  radius?: number; // in `unit`
+  limit?: number;
+  unit?: DistanceUnit;
+  fallback?: Piano[]; // already-loaded pianos to rank locally when the API can't be reached
+}
+
+// Closest pianos from a local list, for when the visitor is offline
+function rankLocally(pianos: Piano[], position: [number, number], filters: NearbyFilters, radius: number, unit: DistanceUnit, limit: number): Piano[] {
+  return pianos
+    .filter(piano => piano.perm_lat != null && piano.perm_lng != null)
+    .filter(piano => !filters.programs?.length || filters.programs.includes(piano.piano_program))
+    .filter(piano => filters.yearFrom == null || (piano.piano_year ?? 0) >= filters.yearFrom)
+    .filter(piano => filters.yearTo == null || (piano.piano_year ?? Infinity) <= filters.yearTo)
+    .map(piano => ({
+      ...piano,
+      distance: fromKm(haversineKm(position, [Number(piano.perm_lat), Number(piano.perm_lng)]), unit)
+    }))
+    .filter(piano => piano.distance <= radius)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
+
+// Only refetch once the visitor has moved this far, so GPS jitter doesn't spam the API
+const REFETCH_DISTANCE_KM = 0.1;
+
+/**
+ * Watches the visitor's position while enabled and keeps a list of the closest
+ * pianos, refreshed when they move or when the filters change.
+ */
+export function useNearbyPianos(enabled: boolean, filters: NearbyFilters = {}, options: NearbyOptions = {}) {
+  const unit = options.unit ?? defaultDistanceUnit();
+  const radius = options.radius ?? (unit === 'mi' ? 25 : 40);
+  const limit = options.limit ?? 50;
+
+  const [status, setStatus] = useState<NearbyStatus>('idle');
+  const [position, setPosition] = useState<[number, number] | null>(null);
+  const [pianos, setPianos] = useState<Piano[]>([]);
+
+  // Track the visitor's position
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setStatus('unavailable');
+      return;
+    }
+
+    setStatus(current => (current === 'ready' ? current : 'locating'));
+    const watchId = navigator.geolocation.watchPosition(
+      ({ coords }) => {
+        const next: [number, number] = [coords.latitude, coords.longitude];
+        setPosition(previous =>
+          previous && haversineKm(previous, next) < REFETCH_DISTANCE_KM ? previous : next
+        );
+      },
+      (error) => {
+        console.warn('Geolocation error:', error);
+        setStatus(error.code === error.PERMISSION_DENIED ? 'denied' : 'unavailable');
+      },
+      { enableHighAccuracy: false, maximumAge: 60000, timeout: 15000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  const filterKey = JSON.stringify([filters.programs ?? [], filters.yearFrom ?? null, filters.yearTo ?? null]);
+
+  // Fetch the nearest pianos for the current position and filters
+  useEffect(() => {
+    if (!enabled || !position) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setStatus('loading');
+        const result = await fetchNearbyPianos({
+          lat: position[0],
+          lng: position[1],
+          radius,
+          unit,
+          limit,
+          programs: filters.programs,
+          yearFrom: filters.yearFrom,
+          yearTo: filters.yearTo
+        });
+        if (cancelled) return;
+        setPianos(result.items);
+        setStatus('ready');
+      } catch (error) {
+        console.error('Failed to fetch nearby pianos:', error);
+        if (cancelled) return;
+        if (options.fallback?.length) {
+          setPianos(rankLocally(options.fallback, position, filters, radius, unit, limit));
+          setStatus('ready');
+        } else {
+          setStatus('error');
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, position, filterKey, radius, unit, limit]);
+
+  return { status, position, pianos, unit, radius };
+}
@@ -0,0 +1,54 @@
+import { createRequire } from 'node:module';
+import { readFile } from 'node:fs/promises';
+
+// Server-only: the bundled Noto fonts used by the placard PDFs and the social cards
+
+export type Script = 'latin' | 'arabic' | 'cjk';
+export type Weight = 'regular' | 'bold';
+
+// Noto covers every placard language; Arabic and Chinese glyphs come in their own files
+const FONT_FILES: Record<Script, Record<Weight, string>> = {
+  latin: {
+    regular: '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf',
+    bold: '@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf'
+  },
+  arabic: {
+    regular: '@expo-google-fonts/noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf',
+    bold: '@expo-google-fonts/noto-sans-arabic/700Bold/NotoSansArabic_700Bold.ttf'
+  },
+  cjk: {
+    regular: '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf',
+    bold: '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf'
+  }
+};
+
+const ARABIC_CHAR = /[\u0600-\u06ff\u0750-\u077f\u08a0-\u08ff\ufb50-\ufdff\ufe70-\ufeff]/;
+export const CJK_CHAR = /[\u2e80-\u2fdf\u3000-\u30ff\u3100-\u312f\u31c0-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+const nodeRequire = createRequire(import.meta.url);
+const fontFiles = new Map<string, Promise<Buffer>>(); // kept across requests; the Chinese font is ~10 MB
+
+function scriptOf(char: string): Script {
+  if (ARABIC_CHAR.test(char)) return 'arabic';
+  if (CJK_CHAR.test(char)) return 'cjk';
+  return 'latin';
+}
+
+// Splits text into runs by script so each gets a font with its glyphs; spaces stay with the run they follow
+export function scriptRuns(text: string): { script: Script; text: string }[] {
+  const runs: { script: Script; text: string }[] = [];
+  for (const char of text) {
+    const script = /\s/.test(char) && runs.length ? runs[runs.length - 1].script : scriptOf(char);
+    const last = runs[runs.length - 1];
+    if (last?.script === script) last.text += char;
+    else runs.push({ script, text: char });
+  }
+  return runs;
+}
+
+// Read each font file once per server instance
+export function notoFontFile(script: Script, weight: Weight): Promise<Buffer> {
+  const file = FONT_FILES[script][weight];
+  if (!fontFiles.has(file)) fontFiles.set(file, readFile(nodeRequire.resolve(file)));
+  return fontFiles.get(file)!;
+}
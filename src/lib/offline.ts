@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import type { Piano } from './supabase';
+
+// Header the service worker (public/sw.js) adds to piano data it has stored
+export const CACHED_AT_HEADER = 'X-SW-Cached-At';
+
+// Keep the thumbnail precache to a size phones won't mind
+const MAX_PRECACHED_IMAGES = 200;
+
+export function registerServiceWorker() {
+  if (import.meta.env.DEV || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+
+// Tracks the browser's online/offline state
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+}
+
+// The program of the most recent pianos, whose thumbnails are worth keeping offline
+export function currentProgramImages(pianos: Piano[]): string[] {
+  const latest = pianos
+    .filter(piano => piano.piano_program != null)
+    .reduce<Piano | null>((newest, piano) => (!newest || (piano.piano_year ?? 0) > (newest.piano_year ?? 0) ? piano : newest), null);
+  if (!latest) return [];
+
+  return pianos
+    .filter(piano => piano.piano_program === latest.piano_program && piano.piano_image)
+    .map(piano => piano.piano_image)
+    .slice(0, MAX_PRECACHED_IMAGES);
+}
+
+// Ask the service worker, if there is one, to store these images for offline use
+export async function precacheImages(urls: string[]) {
+  if (!urls.length || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: 'PRECACHE_IMAGES', urls });
+}
+
+export function formatOfflineDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
@@ -0,0 +1,160 @@
+import sharp from 'sharp';
+import fontkit, { type Font } from '@pdf-lib/fontkit';
+import logoSvg from '../../public/sfh-logo.svg?raw';
+import { notoFontFile, scriptRuns, type Script, type Weight } from './noto-fonts';
+import { OG_HEIGHT, OG_WIDTH } from './structured-data';
+
+// Cards only change when the content does; let the CDN hold them for a week
+export const OG_CACHE_CONTROL = 'public, max-age=86400, s-maxage=604800, stale-while-revalidate=86400';
+
+const PHOTO_TIMEOUT_MS = 5000;
+
+const fonts = new Map<string, Promise<Font>>();
+
+export interface OgCard {
+  kicker: string; // small label above the title, e.g. "Sing for Hope Pianos"
+  title: string;
+  subtitle?: string | null; // e.g. "by Jane Doe · 2024"
+  imageUrl?: string | null;
+  accent?: string; // brand colour behind cards without a photo
+}
+
+interface TextStyle {
+  size: number;
+  weight: Weight;
+  fill: string;
+  letterSpacing?: number;
+}
+
+// Greedy word wrap by character count; the last line gets an ellipsis when text is left over
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.trim().split(/\s+/)) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= maxChars || !line) {
+      line = next;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+
+  if (lines.length < maxLines && line) {
+    lines.push(line);
+  } else if (line) {
+    const last = lines[maxLines - 1];
+    lines[maxLines - 1] = last.length < maxChars ? `${last}…` : `${last.replace(/\s+\S*$/, '')}…`;
+  }
+
+  return lines.map(part => (part.length > maxChars ? `${part.slice(0, maxChars - 1)}…` : part));
+}
+
+async function fetchPhoto(url: string): Promise<Buffer | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(PHOTO_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    console.warn('OG card photo unavailable:', url, error);
+    return null;
+  }
+}
+
+function loadFont(script: Script, weight: Weight): Promise<Font> {
+  const key = `${script}-${weight}`;
+  if (!fonts.has(key)) fonts.set(key, notoFontFile(script, weight).then(bytes => fontkit.create(bytes)));
+  return fonts.get(key)!;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Text drawn as glyph outlines: sharp's SVG renderer only finds system fonts, and Vercel functions have none
+async function textSvg(text: string, x: number, baseline: number, style: TextStyle): Promise<string> {
+  const glyphs: string[] = [];
+  let pen = x;
+
+  for (const run of scriptRuns(text)) {
+    const font = await loadFont(run.script, style.weight);
+    const scale = style.size / font.unitsPerEm;
+    const layout = font.layout(run.text);
+
+    layout.glyphs.forEach((glyph, index) => {
+      const position = layout.positions[index];
+      const path = glyph.path.toSVG();
+      if (path) {
+        const left = round(pen + position.xOffset * scale);
+        const top = round(baseline - position.yOffset * scale);
+        glyphs.push(`<path transform="translate(${left} ${top}) scale(${scale} ${-scale})" d="${path}"/>`);
+      }
+      pen += position.xAdvance * scale + (style.letterSpacing || 0);
+    });
+  }
+
+  return `<g fill="${style.fill}">${glyphs.join('')}</g>`;
+}
+
+async function overlaySvg(card: OgCard): Promise<string> {
+  const titleLines = wrapText(card.title, 30, 2);
+  const titleSize = titleLines.some(line => line.length > 22) ? 60 : 72;
+  const titleTop = OG_HEIGHT - 96 - (card.subtitle ? 52 : 0) - (titleLines.length - 1) * (titleSize + 8);
+
+  const [brand, kicker, subtitle, ...title] = await Promise.all([
+    textSvg('Sing for Hope', 148, 83, { size: 30, weight: 'bold', fill: '#fff' }),
+    textSvg(card.kicker.toUpperCase(), 64, titleTop - titleSize - 12, { size: 26, weight: 'bold', fill: '#b7e4b7', letterSpacing: 2 }),
+    card.subtitle ? textSvg(wrapText(card.subtitle, 56, 1)[0], 64, OG_HEIGHT - 72, { size: 34, weight: 'regular', fill: '#e5e7eb' }) : '',
+    ...titleLines.map((line, index) => textSvg(line, 64, titleTop + index * (titleSize + 8), { size: titleSize, weight: 'bold', fill: '#fff' }))
+  ]);
+
+  return `
+<svg width="${OG_WIDTH}" height="${OG_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <linearGradient id="shade" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="#000" stop-opacity="0.45"/>
+      <stop offset="0.3" stop-color="#000" stop-opacity="0"/>
+      <stop offset="1" stop-color="#000" stop-opacity="0.82"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#shade)"/>
+  <rect x="0" y="${OG_HEIGHT - 12}" width="100%" height="12" fill="#339933"/>
+  <rect x="56" y="32" width="80" height="80" rx="18" fill="#fff"/>
+  ${brand}
+  ${kicker}
+  ${title.join('')}
+  ${subtitle}
+</svg>`;
+}
+
+/**
+ * Render a 1200×630 social card: the photo cropped to fill, a shade for legibility,
+ * then the SFH logo, kicker, title and subtitle. Without a usable photo the card
+ * falls back to a flat brand colour. Returns JPEG bytes.
+ */
+export async function renderOgCard(card: OgCard): Promise<Buffer> {
+  const photo = card.imageUrl ? await fetchPhoto(card.imageUrl) : null;
+
+  let base = sharp({
+    create: { width: OG_WIDTH, height: OG_HEIGHT, channels: 3, background: card.accent || '#226622' }
+  });
+  if (photo) {
+    try {
+      base = sharp(await sharp(photo).resize(OG_WIDTH, OG_HEIGHT, { fit: 'cover', position: sharp.strategy.attention }).toBuffer());
+    } catch (error) {
+      console.warn('OG card photo could not be decoded:', card.imageUrl, error);
+    }
+  }
+
+  const logo = await sharp(Buffer.from(logoSvg)).resize(64, 64).png().toBuffer();
+
+  return base
+    .composite([
+      { input: Buffer.from(await overlaySvg(card)), top: 0, left: 0 },
+      { input: logo, top: 40, left: 64 }
+    ])
+    .jpeg({ quality: 82, mozjpeg: true })
+    .toBuffer();
+}
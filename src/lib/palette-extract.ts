@@ -0,0 +1,156 @@
+import sharp from 'sharp';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizeImageUrl } from './piano-images';
+import { paletteFamilies, toHex, type PaletteColor } from './palette';
+
+// Server-only: computes palettes with sharp for the /api/admin/pianos/palettes job
+
+export const PALETTE_SIZE = 5;
+
+const SAMPLE_PX = 64; // the artwork is shrunk to at most this many pixels a side first
+const KMEANS_ROUNDS = 12;
+const MIN_SEED_DISTANCE = 48; // in RGB units, so seeds don't all land on one dominant colour
+const IMAGE_TIMEOUT_MS = 8000;
+const PAGE_SIZE = 1000;
+
+export interface PaletteJobResult {
+  processed: number;
+  failed: number;
+  remaining: number;
+}
+
+function rgbDistance(a: number[], b: number[]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Dominant colours by k-means over a thumbnail. Seeds come from the most common
+ * coarse colours, so the same image always gives the same palette.
+ */
+export async function extractPalette(image: Buffer, size = PALETTE_SIZE): Promise<PaletteColor[]> {
+  const { data, info } = await sharp(image)
+    .resize(SAMPLE_PX, SAMPLE_PX, { fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels: number[][] = [];
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    pixels.push([data[offset], data[offset + 1], data[offset + 2]]);
+  }
+  if (!pixels.length) return [];
+
+  // 4 bits per channel, most common first
+  const buckets = new Map<number, { count: number; sum: number[] }>();
+  pixels.forEach(([r, g, b]) => {
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) || { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += r;
+    bucket.sum[1] += g;
+    bucket.sum[2] += b;
+    buckets.set(key, bucket);
+  });
+
+  const centroids: number[][] = [];
+  [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .map(bucket => bucket.sum.map(channel => channel / bucket.count))
+    .forEach(color => {
+      if (centroids.length < size && centroids.every(centroid => rgbDistance(centroid, color) >= MIN_SEED_DISTANCE)) {
+        centroids.push(color);
+      }
+    });
+
+  let assignments: number[] = [];
+  for (let round = 0; round < KMEANS_ROUNDS; round++) {
+    assignments = pixels.map(pixel => {
+      let nearest = 0;
+      centroids.forEach((centroid, index) => {
+        if (rgbDistance(pixel, centroid) < rgbDistance(pixel, centroids[nearest])) nearest = index;
+      });
+      return nearest;
+    });
+
+    centroids.forEach((centroid, index) => {
+      const members = pixels.filter((_, pixel) => assignments[pixel] === index);
+      if (!members.length) return;
+      for (let channel = 0; channel < 3; channel++) {
+        centroid[channel] = members.reduce((sum, member) => sum + member[channel], 0) / members.length;
+      }
+    });
+  }
+
+  return centroids
+    .map((centroid, index) => ({
+      hex: toHex(centroid),
+      share: Math.round((assignments.filter(assignment => assignment === index).length / pixels.length) * 1000) / 1000
+    }))
+    .filter(color => color.share > 0)
+    .sort((a, b) => b.share - a.share);
+}
+
+async function fetchImage(url: string): Promise<Buffer> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Image request failed (${response.status})`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Compute palettes for pianos whose cover image is new or has changed since the last
+ * run, until the time budget is spent. A cover that decodes but yields no colours is
+ * recorded with an empty palette; one that can't be fetched or read is left for the
+ * next run, since the failure is often temporary.
+ */
+export async function refreshPianoPalettes(client: SupabaseClient, budgetMs: number): Promise<PaletteJobResult> {
+  const startedAt = Date.now();
+  const pianos: { id: number; piano_image: string; piano_palette_source: string | null }[] = [];
+
+  // PostgREST caps a single response, and it can't compare two columns, so filter here
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('pianos')
+      .select('id, piano_image, piano_palette_source')
+      .not('piano_image', 'is', null)
+      .neq('piano_image', '')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    pianos.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const pending = pianos.filter(piano => piano.piano_palette_source !== piano.piano_image);
+  const result: PaletteJobResult = { processed: 0, failed: 0, remaining: pending.length };
+
+  // Failed covers stay pending, so start each run somewhere new rather than retrying them first every time
+  const offset = Math.floor(Math.random() * pending.length);
+  for (const piano of [...pending.slice(offset), ...pending.slice(0, offset)]) {
+    if (Date.now() - startedAt > budgetMs) break;
+
+    let palette: PaletteColor[];
+    try {
+      palette = await extractPalette(await fetchImage(normalizeImageUrl(piano.piano_image)));
+    } catch (error) {
+      console.warn('Palette extraction failed for piano', piano.id, error);
+      result.failed++;
+      continue;
+    }
+
+    const { error: updateError } = await client
+      .from('pianos')
+      .update({
+        piano_palette: palette,
+        piano_colors: paletteFamilies(palette),
+        piano_palette_source: piano.piano_image
+      })
+      .eq('id', piano.id);
+
+    if (updateError) throw updateError;
+    result.processed++;
+    result.remaining--;
+  }
+
+  return result;
+}
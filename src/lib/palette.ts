@@ -0,0 +1,154 @@
+// Colour palettes of piano artwork: shared by the extraction job, the colour filter and "similar-looking pianos"
+
+export interface PaletteColor {
+  hex: string; // '#rrggbb'
+  share: number; // fraction of the image, 0–1
+}
+
+export type ColorFamily = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink' | 'brown' | 'black' | 'white' | 'gray';
+
+// In the order the swatches are shown, each with the colour drawn on its swatch
+export const COLOR_FAMILIES: { id: ColorFamily; label: string; swatch: string }[] = [
+  { id: 'red', label: 'Red', swatch: '#dc2626' },
+  { id: 'orange', label: 'Orange', swatch: '#f97316' },
+  { id: 'yellow', label: 'Yellow', swatch: '#facc15' },
+  { id: 'green', label: 'Green', swatch: '#16a34a' },
+  { id: 'blue', label: 'Blue', swatch: '#2563eb' },
+  { id: 'purple', label: 'Purple', swatch: '#9333ea' },
+  { id: 'pink', label: 'Pink', swatch: '#ec4899' },
+  { id: 'brown', label: 'Brown', swatch: '#92400e' },
+  { id: 'black', label: 'Black', swatch: '#111827' },
+  { id: 'white', label: 'White', swatch: '#f9fafb' },
+  { id: 'gray', label: 'Gray', swatch: '#9ca3af' }
+];
+
+// A family has to cover this much of the artwork before the piano counts as "blue"
+export const MIN_FAMILY_SHARE = 0.12;
+
+export function isColorFamily(value: string): value is ColorFamily {
+  return COLOR_FAMILIES.some(family => family.id === value);
+}
+
+export function toHex([r, g, b]: number[]): string {
+  return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function fromHex(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Hue in degrees, saturation and lightness as 0–1
+function toHsl([r, g, b]: [number, number, number]): [number, number, number] {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [0, 0, lightness];
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === red) hue = ((green - blue) / delta) % 6;
+  else if (max === green) hue = (blue - red) / delta + 2;
+  else hue = (red - green) / delta + 4;
+
+  return [(hue * 60 + 360) % 360, saturation, lightness];
+}
+
+// CIE L*a*b* (D65), where straight-line distance roughly matches how different colours look
+function toLab(rgb: [number, number, number]): [number, number, number] {
+  const [r, g, b] = rgb.map(channel => {
+    const value = channel / 255;
+    return value > 0.04045 ? Math.pow((value + 0.055) / 1.055, 2.4) : value / 12.92;
+  });
+  const xyz = [
+    (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047,
+    r * 0.2126 + g * 0.7152 + b * 0.0722,
+    (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883
+  ].map(value => (value > 0.008856 ? Math.cbrt(value) : 7.787 * value + 16 / 116));
+
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+}
+
+export function colorFamily(hex: string): ColorFamily {
+  const [hue, saturation, lightness] = toHsl(fromHex(hex));
+
+  if (lightness < 0.12) return 'black';
+  if (lightness > 0.9 && saturation < 0.4) return 'white';
+  if (saturation < 0.15) return lightness > 0.75 ? 'white' : lightness < 0.22 ? 'black' : 'gray';
+  if (hue >= 15 && hue < 45 && lightness < 0.4) return 'brown';
+  if (hue < 15 || hue >= 345) return lightness > 0.7 ? 'pink' : 'red';
+  if (hue < 45) return 'orange';
+  if (hue < 70) return 'yellow';
+  if (hue < 170) return 'green';
+  if (hue < 255) return 'blue';
+  if (hue < 290) return 'purple';
+  return 'pink';
+}
+
+// Families covering at least `minShare` of the artwork, largest first
+export function paletteFamilies(palette: PaletteColor[], minShare = MIN_FAMILY_SHARE): ColorFamily[] {
+  const shares = new Map<ColorFamily, number>();
+  palette.forEach(color => {
+    const family = colorFamily(color.hex);
+    shares.set(family, (shares.get(family) || 0) + color.share);
+  });
+
+  return [...shares.entries()]
+    .filter(([, share]) => share >= minShare)
+    .sort((a, b) => b[1] - a[1])
+    .map(([family]) => family);
+}
+
+// Share-weighted distance from each colour to its nearest match in the other palette, both ways.
+// 0 for identical palettes; around 10 is a close match and 40+ looks clearly different.
+export function paletteDistance(a: PaletteColor[], b: PaletteColor[]): number {
+  if (!a.length || !b.length) return Infinity;
+  const labA = a.map(color => toLab(fromHex(color.hex)));
+  const labB = b.map(color => toLab(fromHex(color.hex)));
+
+  const oneWay = (from: PaletteColor[], fromLab: number[][], toLabs: number[][]) => {
+    const total = from.reduce((sum, color) => sum + color.share, 0) || 1;
+    return from.reduce((sum, color, index) => {
+      const nearest = Math.min(...toLabs.map(lab => Math.hypot(
+        fromLab[index][0] - lab[0],
+        fromLab[index][1] - lab[1],
+        fromLab[index][2] - lab[2]
+      )));
+      return sum + (nearest * color.share) / total;
+    }, 0);
+  };
+
+  return (oneWay(a, labA, labB) + oneWay(b, labB, labA)) / 2;
+}
+
+// The closest-looking pianos first, leaving out the piano itself and those without a palette
+export function rankBySimilarity<T extends { id: number; piano_palette?: PaletteColor[] | null }>(
+  piano: { id: number; piano_palette?: PaletteColor[] | null },
+  candidates: T[],
+  limit: number
+): T[] {
+  if (!piano.piano_palette?.length) return [];
+
+  return candidates
+    .filter(candidate => candidate.id !== piano.id && candidate.piano_palette?.length)
+    .map(candidate => ({ candidate, distance: paletteDistance(piano.piano_palette, candidate.piano_palette) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+// Whether a piano's artwork has any of the picked colours; picking none matches every piano
+export function matchesColors(pianoColors: ColorFamily[] | undefined, colors: ColorFamily[]): boolean {
+  return !colors.length || colors.some(color => pianoColors?.includes(color));
+}
+
+// How many pianos have each colour, for the swatch tooltips
+export function colorCounts(pianos: { piano_colors?: ColorFamily[] }[]): Record<ColorFamily, number> {
+  const counts = Object.fromEntries(COLOR_FAMILIES.map(family => [family.id, 0])) as Record<ColorFamily, number>;
+  pianos.forEach(piano => piano.piano_colors?.forEach(color => {
+    if (color in counts) counts[color]++;
+  }));
+  return counts;
+}
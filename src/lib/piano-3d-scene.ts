@@ -0,0 +1,260 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { normalizeImageUrl } from './piano-images';
+import type { CreatePianoScene, PianoSceneOptions } from './piano-3d';
+
+// An upright piano built from primitives, in metres, standing on y = 0 and facing +z
+const BODY = { width: 1.5, height: 1.25, depth: 0.32, z: -0.14 };
+const KEYBED = { height: 0.09, depth: 0.3, y: 0.7, z: 0.17 };
+const KEYBOARD_WIDTH = 1.36;
+
+const BODY_COLOR = 0x226622;
+const TRIM_COLOR = 0x1f2937;
+
+const TARGET = new THREE.Vector3(0, 0.65, 0);
+const HOME = new THREE.Vector3(1.5, 1.25, 2.5);
+const MIN_DISTANCE = 1.6;
+const MAX_DISTANCE = 5;
+
+type ArtworkImage = PianoSceneOptions['images'][number];
+
+interface Panel {
+  mesh: THREE.Mesh;
+  face: number; // BoxGeometry material index: +x, -x, +y, -y, +z, -z
+  aspect: number; // width / height of the face as seen from outside
+}
+
+// Crop like CSS object-fit: cover, keeping the focal point in frame
+function coverTexture(source: THREE.Texture, aspect: number, image: ArtworkImage): THREE.Texture {
+  const texture = source.clone();
+  const { width, height } = source.image as { width: number; height: number };
+  const imageAspect = width / height;
+
+  if (imageAspect > aspect) {
+    texture.repeat.set(aspect / imageAspect, 1);
+    texture.offset.x = (1 - texture.repeat.x) * (image.focal_x ?? 0.5);
+  } else {
+    texture.repeat.set(1, imageAspect / aspect);
+    texture.offset.y = (1 - texture.repeat.y) * (1 - (image.focal_y ?? 0.5)); // v runs bottom to top
+  }
+
+  texture.needsUpdate = true;
+  return texture;
+}
+
+// 52 white keys from A0 to C8, black keys drawn over the gaps that have them
+function keyboardTexture(): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1040;
+  canvas.height = 160;
+  const context = canvas.getContext('2d');
+  const whiteKeys = 52;
+  const keyWidth = canvas.width / whiteKeys;
+
+  context.fillStyle = '#f9fafb';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#9ca3af';
+  for (let key = 1; key < whiteKeys; key++) {
+    context.fillRect(key * keyWidth - 1, 0, 2, canvas.height);
+  }
+
+  // After A, C, D, F and G; never after B or E
+  const hasBlackAfter = [true, false, true, true, false, true, true];
+  context.fillStyle = '#111827';
+  for (let key = 0; key < whiteKeys - 1; key++) {
+    if (!hasBlackAfter[key % 7]) continue;
+    context.fillRect((key + 1) * keyWidth - keyWidth * 0.3, 0, keyWidth * 0.6, canvas.height * 0.62);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+}
+
+function box(width: number, height: number, depth: number, material: THREE.Material | THREE.Material[]): THREE.Mesh {
+  return new THREE.Mesh(new THREE.BoxGeometry(width, height, depth), material);
+}
+
+function buildPiano(): { piano: THREE.Group; panels: Panel[] } {
+  const piano = new THREE.Group();
+  const paint = () => new THREE.MeshStandardMaterial({ color: BODY_COLOR, roughness: 0.55 });
+  const trim = new THREE.MeshStandardMaterial({ color: TRIM_COLOR, roughness: 0.4 });
+
+  const body = box(BODY.width, BODY.height, BODY.depth, Array.from({ length: 6 }, paint));
+  body.position.set(0, BODY.height / 2, BODY.z);
+
+  const lid = box(BODY.width + 0.06, 0.04, BODY.depth + 0.04, Array.from({ length: 6 }, paint));
+  lid.position.set(0, BODY.height + 0.02, BODY.z);
+
+  const keybed = box(BODY.width, KEYBED.height, KEYBED.depth, trim);
+  keybed.position.set(0, KEYBED.y, KEYBED.z);
+
+  const keys = new THREE.Mesh(
+    new THREE.PlaneGeometry(KEYBOARD_WIDTH, 0.15),
+    new THREE.MeshStandardMaterial({ map: keyboardTexture(), roughness: 0.3 })
+  );
+  keys.rotation.x = -Math.PI / 2;
+  keys.position.set(0, KEYBED.y + KEYBED.height / 2 + 0.002, KEYBED.z + 0.06);
+
+  const fallboard = box(KEYBOARD_WIDTH, 0.06, 0.02, trim);
+  fallboard.position.set(0, KEYBED.y + 0.075, KEYBED.z - 0.02);
+
+  piano.add(body, lid, keybed, keys, fallboard);
+
+  [-1, 1].forEach(side => {
+    const cheek = box(0.07, 0.16, KEYBED.depth, trim);
+    cheek.position.set(side * (KEYBOARD_WIDTH / 2 + 0.035), KEYBED.y + 0.08, KEYBED.z);
+
+    const toe = box(0.07, 0.06, KEYBED.depth, trim);
+    toe.position.set(side * (KEYBOARD_WIDTH / 2 - 0.02), 0.03, KEYBED.z);
+
+    piano.add(cheek, toe);
+  });
+
+  // In the order artwork photos are assigned: front, sides, back, then the lid
+  const panels: Panel[] = [
+    { mesh: body, face: 4, aspect: BODY.width / BODY.height },
+    { mesh: body, face: 0, aspect: BODY.depth / BODY.height },
+    { mesh: body, face: 1, aspect: BODY.depth / BODY.height },
+    { mesh: body, face: 5, aspect: BODY.width / BODY.height },
+    { mesh: lid, face: 2, aspect: (BODY.width + 0.06) / (BODY.depth + 0.04) }
+  ];
+
+  return { piano, panels };
+}
+
+async function loadTexture(loader: THREE.TextureLoader, src: string): Promise<THREE.Texture | null> {
+  try {
+    const texture = await loader.loadAsync(normalizeImageUrl(src));
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+  } catch (error) {
+    console.warn('Piano artwork could not be loaded for 3D:', src, error);
+    return null;
+  }
+}
+
+function disposeScene(scene: THREE.Scene): void {
+  scene.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    object.geometry.dispose();
+    (Array.isArray(object.material) ? object.material : [object.material]).forEach((material: THREE.MeshStandardMaterial) => {
+      material.map?.dispose();
+      material.dispose();
+    });
+  });
+}
+
+export const createPianoScene: CreatePianoScene = async (container, options) => {
+  const scene = new THREE.Scene();
+  const { piano, panels } = buildPiano();
+  scene.add(piano);
+
+  const shadow = new THREE.Mesh(
+    new THREE.CircleGeometry(1.1, 48),
+    new THREE.MeshBasicMaterial({ color: 0x000000, transparent: true, opacity: 0.12 })
+  );
+  shadow.rotation.x = -Math.PI / 2;
+  shadow.position.y = 0.001;
+  scene.add(shadow);
+
+  scene.add(new THREE.HemisphereLight(0xffffff, 0x9ca3af, 1.6));
+  const sun = new THREE.DirectionalLight(0xffffff, 1.8);
+  sun.position.set(2, 3, 4);
+  scene.add(sun);
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+
+  const loader = new THREE.TextureLoader();
+  loader.setCrossOrigin('anonymous');
+  const sources = await Promise.all(options.images.slice(0, panels.length).map(image => loadTexture(loader, image.src)));
+  const artwork = options.images
+    .map((image, index) => ({ image, texture: sources[index] }))
+    .filter(({ texture }) => texture);
+
+  // Every panel gets a photo once there is at least one, reusing them when there are fewer photos than panels
+  if (artwork.length) {
+    const anisotropy = renderer.capabilities.getMaxAnisotropy();
+    panels.forEach((panel, index) => {
+      const { image, texture } = artwork[index % artwork.length];
+      const material = (panel.mesh.material as THREE.MeshStandardMaterial[])[panel.face];
+      material.map = coverTexture(texture, panel.aspect, image);
+      material.map.anisotropy = anisotropy;
+      material.color.set(0xffffff);
+    });
+  }
+  sources.forEach(texture => texture?.dispose()); // the panels hold clones
+
+  const camera = new THREE.PerspectiveCamera(35, 1, 0.1, 50);
+  camera.position.copy(HOME);
+
+  const canvas = renderer.domElement;
+  canvas.style.display = 'block';
+  canvas.setAttribute('role', 'img');
+  canvas.setAttribute('aria-label', `3D model of ${options.title}`);
+  container.appendChild(canvas);
+
+  const controls = new OrbitControls(camera, canvas);
+  controls.target.copy(TARGET);
+  controls.enablePan = false;
+  controls.minDistance = MIN_DISTANCE;
+  controls.maxDistance = MAX_DISTANCE;
+  controls.maxPolarAngle = Math.PI / 2 - 0.05; // stay above the floor
+  controls.enableDamping = options.animate;
+  controls.autoRotate = options.animate;
+  controls.autoRotateSpeed = 1.2;
+  controls.addEventListener('start', () => {
+    controls.autoRotate = false;
+  });
+  controls.update();
+
+  const render = () => renderer.render(scene, camera);
+
+  const resize = () => {
+    const width = container.clientWidth;
+    const height = container.clientHeight || 1;
+    renderer.setSize(width, height);
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+    render();
+  };
+  resize();
+
+  const observer = new ResizeObserver(resize);
+  observer.observe(container);
+
+  // Without animation nothing moves on its own, so only draw when the view changes
+  if (options.animate) {
+    renderer.setAnimationLoop(() => {
+      controls.update();
+      render();
+    });
+  } else {
+    controls.addEventListener('change', render);
+  }
+
+  return {
+    zoom(factor) {
+      const offset = camera.position.clone().sub(controls.target);
+      offset.setLength(THREE.MathUtils.clamp(offset.length() * factor, MIN_DISTANCE, MAX_DISTANCE));
+      camera.position.copy(controls.target).add(offset);
+      controls.update();
+      render();
+    },
+    reset() {
+      camera.position.copy(HOME);
+      controls.target.copy(TARGET);
+      controls.update();
+      render();
+    },
+    destroy() {
+      observer.disconnect();
+      renderer.setAnimationLoop(null);
+      controls.dispose();
+      disposeScene(scene);
+      renderer.dispose();
+      canvas.remove();
+    }
+  };
+};
@@ -0,0 +1,35 @@
+import type { PianoImage } from './supabase';
+
+// The 3D piano viewer. three.js lives in ./piano-3d-scene, which is only fetched once a viewer opens.
+
+export interface PianoSceneOptions {
+  title: string;
+  images: Pick<PianoImage, 'src' | 'focal_x' | 'focal_y'>[]; // painted onto the panels in order
+  animate: boolean; // auto-rotate and damped orbiting; off for reduced motion
+}
+
+export interface PianoScene {
+  zoom(factor: number): void; // below 1 moves closer
+  reset(): void;
+  destroy(): void;
+}
+
+// Resolves once the model and its textures are on screen
+export type CreatePianoScene = (container: HTMLElement, options: PianoSceneOptions) => Promise<PianoScene>;
+
+export function canRender3D(): boolean {
+  try {
+    const canvas = document.createElement('canvas');
+    return Boolean(canvas.getContext('webgl2') || canvas.getContext('webgl'));
+  } catch {
+    return false;
+  }
+}
+
+export function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+export async function loadPianoScene(): Promise<CreatePianoScene> {
+  return (await import('./piano-3d-scene')).createPianoScene;
+}
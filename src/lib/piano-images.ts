@@ -0,0 +1,51 @@
+import type { PianoImage } from './supabase';
+
+// A gallery image with an optimized srcset when it went through the image service
+export interface GalleryImage extends PianoImage {
+  srcset?: string;
+  sizes?: string;
+}
+
+// Image paths are stored either as full URLs or relative to Supabase storage
+export function normalizeImageUrl(src?: string | null): string {
+  if (!src) return '/pianos-icon.png';
+  if (/^https?:\/\//i.test(src)) return src;
+  const base = import.meta.env.PUBLIC_SUPABASE_URL || '';
+  if (!base) return src; // best effort
+  if (src.startsWith('/')) return `${base}${src}`;
+  return `${base}/${src}`;
+}
+
+// CSS object-position that keeps the focal point in frame when cropping
+export function focalPosition(image: Pick<PianoImage, 'focal_x' | 'focal_y'>): string {
+  const x = Math.round((image.focal_x ?? 0.5) * 100);
+  const y = Math.round((image.focal_y ?? 0.5) * 100);
+  return `${x}% ${y}%`;
+}
+
+// Pianos without gallery rows still get a one-image gallery from their cover image
+export function coverAsGallery(piano: { id: number; piano_title: string; piano_image?: string | null }): PianoImage[] {
+  if (!piano.piano_image) return [];
+  return [{
+    id: 0,
+    piano_id: piano.id,
+    position: 0,
+    src: piano.piano_image,
+    alt: piano.piano_title,
+    focal_x: 0.5,
+    focal_y: 0.5
+  }];
+}
+
+// Browser helper: gallery images with optimized srcsets from /api/pianos/[id]/images
+export async function fetchPianoGallery(pianoId: number, sizes?: string): Promise<GalleryImage[]> {
+  const query = sizes ? `?sizes=${encodeURIComponent(sizes)}` : '';
+  const response = await fetch(`/api/pianos/${pianoId}/images${query}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to fetch piano images (${response.status})`);
+  }
+
+  return data.items;
+}
@@ -0,0 +1,317 @@
+import { slugify } from './utils';
+
+export type ImportFormat = 'csv' | 'geojson';
+export type ImportAction = 'insert' | 'update' | 'skip';
+
+// Fields of the pianos table that an import may set
+export interface PianoImportRecord {
+  piano_title: string;
+  artist_name: string;
+  piano_year: number | null;
+  piano_program: number | null;
+  perm_lat: number | null;
+  perm_lng: number | null;
+  piano_image: string;
+  piano_url: string;
+}
+
+export interface ExistingPiano extends PianoImportRecord {
+  id: number;
+}
+
+export interface ImportProgram {
+  id: number;
+  act_title: string;
+}
+
+export interface ImportChange {
+  field: keyof PianoImportRecord;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface ImportPlanRow {
+  row: number;
+  action: ImportAction;
+  record: PianoImportRecord;
+  existingId?: number;
+  changes: ImportChange[];
+  errors: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportPlanRow[];
+  summary: Record<ImportAction, number> & { invalid: number };
+}
+
+type RawRecord = Record<string, unknown>;
+
+// Source column names (lowercased, separators removed) accepted for each piano field
+const COLUMN_ALIASES: Record<keyof PianoImportRecord, string[]> = {
+  piano_title: ['pianotitle', 'title', 'name'],
+  artist_name: ['artistname', 'artist'],
+  piano_year: ['pianoyear', 'year'],
+  piano_program: ['pianoprogram', 'program', 'programid', 'activation'],
+  perm_lat: ['permlat', 'lat', 'latitude'],
+  perm_lng: ['permlng', 'lng', 'lon', 'long', 'longitude'],
+  piano_image: ['pianoimage', 'image', 'imageurl', 'photo', 'thumbnail'],
+  piano_url: ['pianourl', 'slug', 'url']
+};
+
+const COMPARED_FIELDS: (keyof PianoImportRecord)[] = [
+  'piano_title', 'artist_name', 'piano_year', 'piano_program', 'perm_lat', 'perm_lng', 'piano_image'
+];
+
+export const MAX_IMPORT_ROWS = 2000;
+
+function normalizeKey(key: string) {
+  return key.toLowerCase().replace(/[\s_\-.]/g, '');
+}
+
+function normalizeText(value: string) {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function csvToRecords(text: string): RawRecord[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  return rows.map(cells => Object.fromEntries(header.map((name, i) => [name.trim(), cells[i]?.trim() ?? ''])));
+}
+
+function isObject(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function geojsonToRecords(text: string): RawRecord[] {
+  const data: unknown = JSON.parse(text);
+  const features = !isObject(data) ? null : data.type === 'FeatureCollection' ? data.features : data.type === 'Feature' ? [data] : null;
+  if (!Array.isArray(features)) {
+    throw new Error('GeoJSON must be a Feature or FeatureCollection');
+  }
+
+  return features.map((feature: unknown) => {
+    const record: RawRecord = isObject(feature) && isObject(feature.properties) ? { ...feature.properties } : {};
+    const geometry = isObject(feature) && isObject(feature.geometry) ? feature.geometry : null;
+    const coordinates = geometry?.type === 'Point' ? geometry.coordinates : null;
+    if (Array.isArray(coordinates)) {
+      record.perm_lng = coordinates[0];
+      record.perm_lat = coordinates[1];
+    }
+    return record;
+  });
+}
+
+export function parseImportFile(format: ImportFormat, content: string): RawRecord[] {
+  const records = format === 'geojson' ? geojsonToRecords(content) : csvToRecords(content);
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+  return records;
+}
+
+function pick(record: RawRecord, field: keyof PianoImportRecord): unknown {
+  const aliases = COLUMN_ALIASES[field];
+  const key = Object.keys(record).find(k => aliases.includes(normalizeKey(k)));
+  return key ? record[key] : undefined;
+}
+
+function asText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function asNumber(value: unknown): number | null {
+  const text = asText(value);
+  if (!text) return null;
+  const parsed = Number(text);
+  return isNaN(parsed) ? NaN : parsed;
+}
+
+// Map a raw row onto piano fields and collect validation errors
+function mapRecord(raw: RawRecord, programs: ImportProgram[]): { record: PianoImportRecord; errors: string[] } {
+  const errors: string[] = [];
+
+  const programValue = asText(pick(raw, 'piano_program'));
+  let programId: number | null = null;
+  if (programValue) {
+    const byId = programs.find(p => String(p.id) === programValue);
+    const byTitle = programs.find(p => normalizeText(p.act_title) === normalizeText(programValue));
+    programId = (byId || byTitle)?.id ?? null;
+    if (programId === null) errors.push(`Unknown program "${programValue}"`);
+  }
+
+  const record: PianoImportRecord = {
+    piano_title: asText(pick(raw, 'piano_title')),
+    artist_name: asText(pick(raw, 'artist_name')).replace(/\s+/g, ' '),
+    piano_year: asNumber(pick(raw, 'piano_year')),
+    piano_program: programId,
+    perm_lat: asNumber(pick(raw, 'perm_lat')),
+    perm_lng: asNumber(pick(raw, 'perm_lng')),
+    piano_image: asText(pick(raw, 'piano_image')),
+    // Accept either a bare slug or a /piano/<slug> path
+    piano_url: slugify(asText(pick(raw, 'piano_url')).split('/').filter(Boolean).pop() || '')
+  };
+
+  if (!record.piano_title) errors.push('Missing title');
+  if (!record.artist_name) errors.push('Missing artist name');
+
+  const maxYear = new Date().getFullYear() + 1;
+  if (record.piano_year !== null && (!Number.isInteger(record.piano_year) || record.piano_year < 2010 || record.piano_year > maxYear)) {
+    errors.push(`Year must be a whole number between 2010 and ${maxYear}`);
+  }
+
+  if (record.perm_lat !== null && (isNaN(record.perm_lat) || record.perm_lat < -90 || record.perm_lat > 90)) {
+    errors.push('Latitude must be between -90 and 90');
+  }
+  if (record.perm_lng !== null && (isNaN(record.perm_lng) || record.perm_lng < -180 || record.perm_lng > 180)) {
+    errors.push('Longitude must be between -180 and 180');
+  }
+  if ((record.perm_lat === null) !== (record.perm_lng === null)) {
+    errors.push('Latitude and longitude must be provided together');
+  }
+
+  if (record.piano_image && !/^(https?:\/\/|\/)/i.test(record.piano_image)) {
+    errors.push('Image must be an absolute URL or a path starting with /');
+  }
+
+  return { record, errors };
+}
+
+function matchKey(record: Pick<PianoImportRecord, 'piano_title' | 'artist_name' | 'piano_year'>) {
+  return `${normalizeText(record.piano_title)}|${normalizeText(record.artist_name)}|${record.piano_year ?? ''}`;
+}
+
+function valuesEqual(a: unknown, b: unknown) {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return a !== null && b !== null && Math.abs(Number(a) - Number(b)) < 1e-7;
+  }
+  return (a ?? '') === (b ?? '');
+}
+
+// Pick a slug not used by an existing piano or by an earlier row of this import
+export function uniqueSlug(base: string, taken: Set<string>): string {
+  const root = base || 'piano';
+  let slug = root;
+  let suffix = 2;
+  while (taken.has(slug)) {
+    slug = `${root}-${suffix++}`;
+  }
+  taken.add(slug);
+  return slug;
+}
+
+/**
+ * Build the dry-run diff for an import. Rows are matched to existing pianos by
+ * slug when one is given (including slugs a piano was renamed from), otherwise
+ * by title + artist + year. Retired slugs are never handed out to new pianos.
+ */
+export function planImport(
+  records: RawRecord[],
+  existing: ExistingPiano[],
+  programs: ImportProgram[],
+  renamedSlugs: Map<string, number> = new Map()
+): ImportPlan {
+  const byId = new Map(existing.map(p => [p.id, p]));
+  const bySlug = new Map(existing.map(p => [p.piano_url, p]));
+  renamedSlugs.forEach((pianoId, slug) => {
+    const piano = byId.get(pianoId);
+    if (piano && !bySlug.has(slug)) bySlug.set(slug, piano);
+  });
+  const byKey = new Map(existing.map(p => [matchKey(p), p]));
+  const takenSlugs = new Set([...existing.map(p => p.piano_url), ...renamedSlugs.keys()]);
+  const seenInFile = new Set<string>();
+
+  const rows = records.map((raw, index): ImportPlanRow => {
+    const { record, errors } = mapRecord(raw, programs);
+    const row = index + 1;
+
+    if (errors.length) {
+      return { row, action: 'skip', record, changes: [], errors };
+    }
+
+    const key = matchKey(record);
+    if (seenInFile.has(key)) {
+      return { row, action: 'skip', record, changes: [], errors: ['Duplicate of an earlier row in this file'] };
+    }
+    seenInFile.add(key);
+
+    const match = (record.piano_url && bySlug.get(record.piano_url)) || byKey.get(key);
+
+    if (!match) {
+      const slug = record.piano_url && !takenSlugs.has(record.piano_url)
+        ? uniqueSlug(record.piano_url, takenSlugs)
+        : uniqueSlug(slugify(`${record.piano_title} ${record.artist_name}`), takenSlugs);
+      return { row, action: 'insert', record: { ...record, piano_url: slug }, changes: [], errors: [] };
+    }
+
+    // Blank cells never overwrite existing values
+    const changes = COMPARED_FIELDS
+      .filter(field => record[field] !== null && record[field] !== '' && !valuesEqual(record[field], match[field]))
+      .map(field => ({ field, from: match[field], to: record[field] }));
+
+    return {
+      row,
+      action: changes.length ? 'update' : 'skip',
+      record: { ...record, piano_url: match.piano_url },
+      existingId: match.id,
+      changes,
+      errors: []
+    };
+  });
+
+  return {
+    rows,
+    summary: {
+      insert: rows.filter(r => r.action === 'insert').length,
+      update: rows.filter(r => r.action === 'update').length,
+      skip: rows.filter(r => r.action === 'skip').length,
+      invalid: rows.filter(r => r.errors.length > 0).length
+    }
+  };
+}
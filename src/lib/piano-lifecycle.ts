@@ -0,0 +1,53 @@
+import type { Piano, PianoLifecycleStatus, PianoLocation, PianoPlacement } from './supabase';
+
+export const LIFECYCLE_LABELS: Record<PianoLifecycleStatus, string> = {
+  in_studio: 'In the Studio',
+  public_display: 'On Public Display',
+  permanent_home: 'In Permanent Home',
+  retired: 'Retired'
+};
+
+// Which location the map should plot for each piano
+export type LocationMode = 'today' | 'debut';
+
+function toLocation(placement: PianoPlacement | undefined): PianoLocation | null {
+  if (!placement || placement.lat == null || placement.lng == null) return null;
+  return {
+    lat: Number(placement.lat),
+    lng: Number(placement.lng),
+    name: placement.location_name || placement.piano_sites?.site_title || null,
+    status: placement.status,
+    since: placement.started_on
+  };
+}
+
+/**
+ * Derive where a piano is today and where it debuted from its placements.
+ * Placements must be sorted by started_on ascending. The debut is the first
+ * public display; the current placement is the latest one still open.
+ */
+export function summarizePlacements(placements: PianoPlacement[]): Pick<Piano, 'current_location' | 'debut_location'> {
+  const located = placements.filter(p => p.lat != null && p.lng != null);
+  const open = located.filter(p => !p.ended_on);
+
+  return {
+    current_location: toLocation(open[open.length - 1] || located[located.length - 1]),
+    debut_location: toLocation(located.find(p => p.status === 'public_display') || located[0])
+  };
+}
+
+// Resolve the lifecycle status to show, preferring the explicit value on the piano
+export function resolveLifecycleStatus(piano: Piano, placements: PianoPlacement[] = []): PianoLifecycleStatus | null {
+  if (piano.lifecycle_status) return piano.lifecycle_status;
+  const open = placements.filter(p => !p.ended_on);
+  return open.length ? open[open.length - 1].status : null;
+}
+
+// Return pianos positioned at the requested location, falling back to perm_lat/perm_lng
+export function positionPianos(pianos: Piano[], mode: LocationMode): Piano[] {
+  return pianos.map(piano => {
+    const location = mode === 'today' ? piano.current_location : piano.debut_location;
+    if (!location) return piano;
+    return { ...piano, perm_lat: location.lat, perm_lng: location.lng };
+  });
+}
@@ -0,0 +1,269 @@
+import type { Piano, PianoLifecycleStatus } from './supabase';
+import { KM_PER_MILE, type DistanceUnit } from './geo';
+import { CACHED_AT_HEADER } from './offline';
+import { COLOR_FAMILIES, isColorFamily, type ColorFamily } from './palette';
+import { TAG_SLUG_PATTERN } from './tags';
+
+// Query parameters accepted by /api/pianos
+export type PianoSort = 'year_desc' | 'year_asc' | 'title' | 'artist';
+
+export interface PianoQuery {
+  programs?: number[];
+  site?: number | null; // piano_sites id: pianos assigned to or currently placed at the site
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  artist?: string;
+  search?: string;
+  bbox?: [number, number, number, number] | null; // [west, south, east, north]
+  located?: boolean;
+  lifecycle?: PianoLifecycleStatus[];
+  colors?: ColorFamily[]; // pianos with any of these colours in their artwork
+  tags?: string[]; // tag slugs; pianos must carry all of them
+  sort?: PianoSort;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface PianoQueryResult {
+  items: Piano[];
+  nextCursor: string | null;
+  total: number;
+  cachedAt?: string | null; // set when the service worker answered from its offline copy
+}
+
+export interface PianoDataset {
+  pianos: Piano[];
+  cachedAt: string | null; // oldest offline copy used, null when everything came from the network
+}
+
+// Query parameters accepted by /api/pianos/nearby
+export interface NearbyPianoQuery {
+  lat: number;
+  lng: number;
+  radius: number;
+  unit: DistanceUnit;
+  limit: number;
+  programs?: number[];
+  yearFrom?: number | null;
+  yearTo?: number | null;
+}
+
+export interface NearbyPianoResult {
+  items: Piano[]; // sorted by distance, each with `distance` in `unit`
+  unit: DistanceUnit;
+  radius: number;
+}
+
+export const PIANO_SORTS: PianoSort[] = ['year_desc', 'year_asc', 'title', 'artist'];
+export const LIFECYCLE_STATUSES: PianoLifecycleStatus[] = ['in_studio', 'public_display', 'permanent_home', 'retired'];
+export const DEFAULT_PIANO_LIMIT = 50;
+export const MAX_PIANO_LIMIT = 500;
+export const MAX_NEARBY_RADIUS_KM = 500;
+export const MAX_NEARBY_LIMIT = 100;
+
+// Cursors are opaque to clients; internally they carry the row offset
+export function encodeCursor(offset: number): string {
+  return btoa(`o:${offset}`);
+}
+
+export function decodeCursor(cursor?: string | null): number {
+  if (!cursor) return 0;
+  try {
+    const match = /^o:(\d+)$/.exec(atob(cursor));
+    return match ? parseInt(match[1], 10) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function parseInteger(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseBbox(value: string | null): [number, number, number, number] | null {
+  if (!value) return null;
+  const parts = value.split(',').map(part => parseFloat(part));
+  if (parts.length !== 4 || parts.some(n => isNaN(n))) return null;
+
+  const [west, south, east, north] = parts;
+  if (south < -90 || north > 90 || south > north) return null;
+  if (west < -180 || east > 180) return null;
+  return [west, south, east, north];
+}
+
+// Parse and validate the query string of a /api/pianos request
+export function parsePianoQuery(params: URLSearchParams): { query?: PianoQuery; error?: string } {
+  const programs = (params.get('program') || '')
+    .split(',')
+    .map(id => parseInt(id, 10))
+    .filter(id => !isNaN(id));
+
+  const yearFrom = parseInteger(params.get('yearFrom'));
+  const yearTo = parseInteger(params.get('yearTo'));
+  if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) {
+    return { error: 'yearFrom must be less than or equal to yearTo' };
+  }
+
+  const bboxParam = params.get('bbox');
+  const bbox = parseBbox(bboxParam);
+  if (bboxParam && !bbox) {
+    return { error: 'bbox must be "west,south,east,north" in decimal degrees' };
+  }
+
+  const sortParam = params.get('sort') as PianoSort | null;
+  if (sortParam && !PIANO_SORTS.includes(sortParam)) {
+    return { error: `sort must be one of: ${PIANO_SORTS.join(', ')}` };
+  }
+
+  const lifecycle = (params.get('status') || '').split(',').filter(Boolean) as PianoLifecycleStatus[];
+  if (lifecycle.some(status => !LIFECYCLE_STATUSES.includes(status))) {
+    return { error: `status must be one or more of: ${LIFECYCLE_STATUSES.join(', ')}` };
+  }
+
+  const colors = (params.get('color') || '').split(',').filter(Boolean);
+  if (!colors.every(isColorFamily)) {
+    return { error: `color must be one or more of: ${COLOR_FAMILIES.map(family => family.id).join(', ')}` };
+  }
+
+  const tags = (params.get('tag') || '').split(',').map(tag => tag.trim()).filter(Boolean);
+  if (!tags.every(tag => TAG_SLUG_PATTERN.test(tag))) {
+    return { error: 'tag must be one or more tag slugs, e.g. "nature,mural"' };
+  }
+
+  const limit = parseInteger(params.get('limit')) ?? DEFAULT_PIANO_LIMIT;
+
+  return {
+    query: {
+      programs,
+      site: parseInteger(params.get('site')),
+      yearFrom,
+      yearTo,
+      artist: params.get('artist')?.trim() || undefined,
+      search: params.get('q')?.trim() || undefined,
+      bbox,
+      located: params.get('located') === 'true',
+      lifecycle,
+      colors,
+      tags,
+      sort: sortParam || 'year_desc',
+      cursor: params.get('cursor'),
+      limit: Math.min(Math.max(limit, 1), MAX_PIANO_LIMIT)
+    }
+  };
+}
+
+// Parse and validate the query string of a /api/pianos/nearby request
+export function parseNearbyQuery(params: URLSearchParams): { query?: NearbyPianoQuery; error?: string } {
+  const lat = parseFloat(params.get('lat') || '');
+  const lng = parseFloat(params.get('lng') || '');
+  if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    return { error: 'lat and lng are required decimal degrees' };
+  }
+
+  const unit = (params.get('unit') || 'km') as DistanceUnit;
+  if (unit !== 'km' && unit !== 'mi') {
+    return { error: 'unit must be "km" or "mi"' };
+  }
+
+  const radius = parseFloat(params.get('radius') || '10');
+  const maxRadius = unit === 'mi' ? MAX_NEARBY_RADIUS_KM / KM_PER_MILE : MAX_NEARBY_RADIUS_KM;
+  if (isNaN(radius) || radius <= 0 || radius > maxRadius) {
+    return { error: `radius must be greater than 0 and at most ${Math.floor(maxRadius)} ${unit}` };
+  }
+
+  // Reuse the list filters (program, yearFrom, yearTo)
+  const { query: filters, error } = parsePianoQuery(params);
+  if (error) return { error };
+
+  const limit = parseInteger(params.get('limit')) ?? 20;
+
+  return {
+    query: {
+      lat,
+      lng,
+      radius,
+      unit,
+      limit: Math.min(Math.max(limit, 1), MAX_NEARBY_LIMIT),
+      programs: filters!.programs,
+      yearFrom: filters!.yearFrom,
+      yearTo: filters!.yearTo
+    }
+  };
+}
+
+// Serialize a query back into the /api/pianos query string
+export function pianoQueryToParams(query: PianoQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.programs?.length) params.set('program', query.programs.join(','));
+  if (query.site != null) params.set('site', String(query.site));
+  if (query.yearFrom != null) params.set('yearFrom', String(query.yearFrom));
+  if (query.yearTo != null) params.set('yearTo', String(query.yearTo));
+  if (query.artist) params.set('artist', query.artist);
+  if (query.search) params.set('q', query.search);
+  if (query.bbox) params.set('bbox', query.bbox.map(n => n.toFixed(5)).join(','));
+  if (query.located) params.set('located', 'true');
+  if (query.lifecycle?.length) params.set('status', query.lifecycle.join(','));
+  if (query.colors?.length) params.set('color', query.colors.join(','));
+  if (query.tags?.length) params.set('tag', query.tags.join(','));
+  if (query.sort) params.set('sort', query.sort);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+
+  return params;
+}
+
+// Browser helper: fetch a single page of pianos from /api/pianos
+export async function fetchPianoPage(query: PianoQuery = {}): Promise<PianoQueryResult> {
+  const response = await fetch(`/api/pianos?${pianoQueryToParams(query).toString()}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to fetch pianos (${response.status})`);
+  }
+
+  return { ...data, cachedAt: response.headers.get(CACHED_AT_HEADER) };
+}
+
+// Browser helper: follow cursors until every matching piano has been loaded,
+// noting how old the data is if any page came from the offline cache
+export async function fetchPianoDataset(query: PianoQuery = {}): Promise<PianoDataset> {
+  const pianos: Piano[] = [];
+  let cachedAt: string | null = null;
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetchPianoPage({ ...query, cursor, limit: MAX_PIANO_LIMIT });
+    pianos.push(...page.items);
+    if (page.cachedAt && (!cachedAt || page.cachedAt < cachedAt)) cachedAt = page.cachedAt;
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return { pianos, cachedAt };
+}
+
+// Browser helper: every matching piano
+export async function fetchAllPianos(query: PianoQuery = {}): Promise<Piano[]> {
+  return (await fetchPianoDataset(query)).pianos;
+}
+
+// Browser helper: pianos nearest to a point, closest first
+export async function fetchNearbyPianos(query: NearbyPianoQuery): Promise<NearbyPianoResult> {
+  const params = pianoQueryToParams({ programs: query.programs, yearFrom: query.yearFrom, yearTo: query.yearTo });
+  params.set('lat', query.lat.toFixed(5));
+  params.set('lng', query.lng.toFixed(5));
+  params.set('radius', String(query.radius));
+  params.set('unit', query.unit);
+  params.set('limit', String(query.limit));
+
+  const response = await fetch(`/api/pianos/nearby?${params.toString()}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to fetch nearby pianos (${response.status})`);
+  }
+
+  return data;
+}
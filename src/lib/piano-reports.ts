@@ -0,0 +1,155 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type ReportIssueType = 'damaged' | 'uncovered' | 'out_of_tune' | 'missing' | 'other';
+export type ReportStatus = 'reported' | 'technician_scheduled' | 'resolved';
+
+export const ISSUE_TYPE_LABELS: Record<ReportIssueType, string> = {
+  damaged: 'Damaged or vandalized',
+  uncovered: 'Left uncovered in bad weather',
+  out_of_tune: 'Badly out of tune or keys stuck',
+  missing: 'Piano is missing',
+  other: 'Something else'
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  reported: 'Reported',
+  technician_scheduled: 'Technician scheduled',
+  resolved: 'Resolved'
+};
+
+// In display order, for the reporter's progress view
+export const REPORT_STATUSES: ReportStatus[] = ['reported', 'technician_scheduled', 'resolved'];
+
+export const REPORT_BUCKET = 'reports';
+export const REPORT_DESCRIPTION_MAX = 1000;
+export const REPORT_NAME_MAX = 100;
+export const REPORT_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+export const REPORT_PHOTO_MAX_BYTES = 10 * 1024 * 1024;
+
+export interface PianoReport {
+  id: number;
+  ticket_id: string;
+  piano_id: number;
+  site_id: number | null;
+  issue_type: ReportIssueType;
+  description: string | null;
+  photo_path: string | null;
+  reporter_name: string | null;
+  reporter_email: string | null;
+  status: ReportStatus;
+  scheduled_for: string | null;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function isReportIssueType(value: unknown): value is ReportIssueType {
+  return typeof value === 'string' && value in ISSUE_TYPE_LABELS;
+}
+
+export function isReportStatus(value: unknown): value is ReportStatus {
+  return typeof value === 'string' && value in REPORT_STATUS_LABELS;
+}
+
+// Validate a photo before a signed URL is issued; returns an error message or null
+export function validateReportPhoto(contentType: string, size: number): string | null {
+  if (!REPORT_PHOTO_TYPES.includes(contentType)) return 'Photos must be JPEG, PNG, WebP or HEIC';
+  if (!(size > 0) || size > REPORT_PHOTO_MAX_BYTES) return 'Photos can be up to 10 MB';
+  return null;
+}
+
+// Same shape as contact form tickets, with a P for pianos
+export function generateReportTicketId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `SFH-P-${timestamp}-${random}`.toUpperCase();
+}
+
+// Private status page for the person who filed the report
+export function reportStatusUrl(ticketId: string, token: string): string {
+  return `/report/${encodeURIComponent(ticketId)}?token=${encodeURIComponent(token)}`;
+}
+
+// The photo bucket is private; a signed URL lasts a day, long enough for the coordinator email
+export const REPORT_PHOTO_URL_TTL = 24 * 60 * 60;
+
+// Signed URLs for report photos by storage path. Notifications sign with the service client;
+// staff sign with their own session. Paths that fail are left out.
+export async function signReportPhotos(client: SupabaseClient, paths: string[]): Promise<Record<string, string>> {
+  if (!paths.length) return {};
+
+  const { data, error } = await client.storage
+    .from(REPORT_BUCKET)
+    .createSignedUrls(paths, REPORT_PHOTO_URL_TTL);
+
+  if (error) {
+    console.warn('Error signing report photos (non-critical):', error);
+    return {};
+  }
+
+  return Object.fromEntries(
+    (data || []).filter(item => item.path && item.signedUrl).map(item => [item.path!, item.signedUrl])
+  );
+}
+
+interface ReportSubmission {
+  issueType: ReportIssueType;
+  description?: string;
+  photo?: File | null;
+  reporterName?: string;
+  reporterEmail?: string;
+  website?: string; // honeypot, left empty by people
+}
+
+export interface ReportReceipt {
+  ticketId: string;
+  status: ReportStatus;
+  statusUrl: string;
+}
+
+// Browser helper: upload an optional photo through a signed URL, then file the report
+export async function submitPianoReport(pianoId: number, submission: ReportSubmission): Promise<ReportReceipt> {
+  let photoPath: string | undefined;
+
+  if (submission.photo) {
+    const uploadResponse = await fetch(`/api/pianos/${pianoId}/reports/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentType: submission.photo.type, size: submission.photo.size })
+    });
+    const upload = await uploadResponse.json();
+
+    if (!uploadResponse.ok) {
+      throw new Error(upload.error || 'Could not prepare the upload');
+    }
+
+    const { error } = await supabase.storage
+      .from(REPORT_BUCKET)
+      .uploadToSignedUrl(upload.path, upload.token, submission.photo, { contentType: submission.photo.type });
+
+    if (error) throw new Error('Photo upload failed. Please try again.');
+    photoPath = upload.path;
+  }
+
+  const response = await fetch(`/api/pianos/${pianoId}/reports`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      issueType: submission.issueType,
+      description: submission.description,
+      photoPath,
+      reporterName: submission.reporterName,
+      reporterEmail: submission.reporterEmail,
+      website: submission.website
+    })
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Could not send your report');
+  }
+
+  return data;
+}
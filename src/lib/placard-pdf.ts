@@ -0,0 +1,274 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import QRCode from 'qrcode';
+import logoSvg from '../../public/sfh-logo.svg?raw';
+import { CJK_CHAR, notoFontFile, scriptRuns, type Script, type Weight } from './noto-fonts';
+import type { PlacardCopy } from './placards';
+
+// US Letter in PDF points, with a 0.6in margin
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 43;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+const LOGO_SIZE = 40;
+const QR_SIZE = 151; // 2.1in, scannable from a few steps back
+const LONG_STATEMENT = 900; // characters; longer statements get a smaller size
+
+const GREEN = hexColor('#339933');
+const DARK_GREEN = hexColor('#226622');
+const INK = hexColor('#111827');
+const GRAY = hexColor('#374151');
+const MUTED = hexColor('#6b7280');
+
+export interface PlacardContent {
+  title: string;
+  artistName: string;
+  programTitle: string | null;
+  statement: string | null;
+  english: PlacardCopy;
+  local: PlacardCopy | null; // the program's second language
+  shortUrl: string;
+}
+
+// A stretch of text in one font
+interface Piece {
+  text: string;
+  font: PDFFont;
+}
+
+type FontLoader = (script: Script, weight: Weight) => Promise<PDFFont>;
+
+interface TextStyle {
+  size: number;
+  color: RGB;
+  lineHeight?: number; // multiple of the size
+  rtl?: boolean;
+}
+
+function hexColor(value: string): RGB {
+  if (value === 'white') return rgb(1, 1, 1);
+  const channel = (start: number) => parseInt(value.slice(start, start + 2), 16) / 255;
+  return rgb(channel(1), channel(3), channel(5));
+}
+
+// Embeds each font the first time a placard needs it, subset to the glyphs used
+function fontLoader(doc: PDFDocument): FontLoader {
+  const embedded = new Map<string, Promise<PDFFont>>();
+  return (script, weight) => {
+    const key = `${script}-${weight}`;
+    if (!embedded.has(key)) embedded.set(key, notoFontFile(script, weight).then(bytes => doc.embedFont(bytes, { subset: true })));
+    return embedded.get(key)!;
+  };
+}
+
+// One piece per script run, each in a font with its glyphs
+async function textPieces(text: string, weight: Weight, fonts: FontLoader): Promise<Piece[]> {
+  return Promise.all(scriptRuns(text).map(async run => ({ text: run.text, font: await fonts(run.script, weight) })));
+}
+
+function pieceWidth(piece: Piece, size: number): number {
+  return piece.font.widthOfTextAtSize(piece.text, size);
+}
+
+// Greedy wrap on measured widths: at spaces, or between any two characters of Chinese
+function wrapPieces(pieces: Piece[], size: number, maxWidth: number): Piece[][] {
+  const tokens = pieces.flatMap(piece =>
+    (CJK_CHAR.test(piece.text) ? [...piece.text] : piece.text.match(/\s*\S+\s*|\s+/g) || [])
+      .map(text => ({ text, font: piece.font }))
+  );
+
+  const lines: Piece[][] = [];
+  let line: Piece[] = [];
+  let width = 0;
+  for (const token of tokens) {
+    const tokenWidth = pieceWidth({ ...token, text: token.text.trimEnd() }, size);
+    if (line.length && width + tokenWidth > maxWidth) {
+      lines.push(line);
+      line = [];
+      width = 0;
+    }
+    if (!line.length) token.text = token.text.trimStart();
+    line.push(token);
+    width += pieceWidth(token, size);
+  }
+  if (line.length) lines.push(line);
+  return lines.map(mergePieces);
+}
+
+// Neighbouring pieces in the same font are drawn together so Arabic words keep their joins
+function mergePieces(line: Piece[]): Piece[] {
+  const merged: Piece[] = [];
+  line.forEach(piece => {
+    const last = merged[merged.length - 1];
+    if (last?.font === piece.font) last.text += piece.text;
+    else merged.push({ ...piece });
+  });
+  if (merged.length) merged[merged.length - 1].text = merged[merged.length - 1].text.trimEnd();
+  return merged.filter(piece => piece.text);
+}
+
+// Keeps the first lines, marking the cut with an ellipsis
+function truncateLines(lines: Piece[][], maxLines: number): Piece[][] {
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  if (last.length) last[last.length - 1] = { ...last[last.length - 1], text: `${last[last.length - 1].text}…` };
+  return kept;
+}
+
+async function wrapText(text: string, weight: Weight, style: TextStyle, maxWidth: number, fonts: FontLoader): Promise<Piece[][]> {
+  const paragraphs = text.split(/\r?\n/);
+  const wrapped = await Promise.all(paragraphs.map(async paragraph =>
+    paragraph.trim() ? wrapPieces(await textPieces(paragraph, weight, fonts), style.size, maxWidth) : [[]]
+  ));
+  return wrapped.flat();
+}
+
+function blockHeight(lines: Piece[][], style: TextStyle): number {
+  return lines.length * style.size * (style.lineHeight || 1.3);
+}
+
+// Draws lines downwards from `top` (measured from the page top); right-to-left lines hug the right edge.
+// Returns the top of whatever comes next.
+function drawLines(page: PDFPage, lines: Piece[][], style: TextStyle, x: number, top: number, width: number): number {
+  const lineHeight = style.size * (style.lineHeight || 1.3);
+  lines.forEach((line, index) => {
+    const baseline = PAGE_HEIGHT - (top + index * lineHeight + lineHeight / 2 + style.size * 0.35);
+    let cursor = style.rtl ? x + width : x;
+    line.forEach(piece => {
+      const pieceSize = pieceWidth(piece, style.size);
+      if (style.rtl) cursor -= pieceSize;
+      page.drawText(piece.text, { x: cursor, y: baseline, size: style.size, font: piece.font, color: style.color });
+      if (!style.rtl) cursor += pieceSize;
+    });
+  });
+  return top + lines.length * lineHeight;
+}
+
+function drawLogo(page: PDFPage, x: number, top: number) {
+  for (const [tag] of logoSvg.matchAll(/<path\b[^>]*>/g)) {
+    const path = /\sd="([^"]+)"/.exec(tag)?.[1];
+    const fill = /\sfill="([^"]+)"/.exec(tag)?.[1] || '#000000';
+    if (!path || fill === 'none') continue;
+    page.drawSvgPath(path, { x, y: PAGE_HEIGHT - top, scale: LOGO_SIZE / 512, color: hexColor(fill) });
+  }
+}
+
+// Medium error correction survives a scuffed placard
+function drawQrCode(page: PDFPage, url: string, x: number, top: number) {
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: 'M' });
+  const cell = QR_SIZE / modules.size;
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (!modules.get(row, col)) continue;
+      // A hair of overlap keeps viewers from drawing seams between modules
+      page.drawRectangle({
+        x: x + col * cell,
+        y: PAGE_HEIGHT - top - (row + 1) * cell,
+        width: cell + 0.05,
+        height: cell + 0.05,
+        color: INK
+      });
+    }
+  }
+}
+
+async function drawPlacard(page: PDFPage, placard: PlacardContent, fonts: FontLoader, mono: PDFFont) {
+  const { english, local } = placard;
+  const isRtl = local?.dir === 'rtl';
+  const lines = (text: string, weight: Weight, style: TextStyle, width = CONTENT_WIDTH) =>
+    wrapText(text, weight, style, width, fonts);
+
+  drawLogo(page, MARGIN, MARGIN);
+  const brandStyle: TextStyle = { size: 13.5, color: DARK_GREEN, lineHeight: LOGO_SIZE / 13.5 };
+  drawLines(page, await lines('Sing for Hope Pianos', 'bold', brandStyle), brandStyle, MARGIN + LOGO_SIZE + 9, MARGIN, CONTENT_WIDTH);
+  let top = MARGIN + LOGO_SIZE + 25;
+
+  const playStyle: TextStyle = { size: 45, color: GREEN, lineHeight: 1.05 };
+  top = drawLines(page, await lines(english.playMe, 'bold', playStyle), playStyle, MARGIN, top, CONTENT_WIDTH);
+  if (local) {
+    const style: TextStyle = { size: 30, color: DARK_GREEN, lineHeight: 1.15, rtl: isRtl };
+    top = drawLines(page, await lines(local.playMe, 'bold', style), style, MARGIN, top, CONTENT_WIDTH);
+  }
+
+  // Long titles step down a size before they are cut off
+  let titleStyle: TextStyle = { size: 28, color: INK, lineHeight: 1.15 };
+  let titleLines = await lines(placard.title, 'bold', titleStyle);
+  if (titleLines.length > 2) {
+    titleStyle = { ...titleStyle, size: 22 };
+    titleLines = truncateLines(await lines(placard.title, 'bold', titleStyle), 3);
+  }
+  top = drawLines(page, titleLines, titleStyle, MARGIN, top + 11, CONTENT_WIDTH) + 4;
+
+  const metaStyle: TextStyle = { size: 15, color: GRAY };
+  const localMetaStyle: TextStyle = { size: 13, color: MUTED, rtl: isRtl };
+  const meta = [{ label: english.by, localLabel: local?.by, value: placard.artistName }];
+  if (placard.programTitle) meta.push({ label: english.partOf, localLabel: local?.partOf, value: placard.programTitle });
+  for (const { label, localLabel, value } of meta) {
+    top = drawLines(page, truncateLines(await lines(`${label} ${value}`, 'regular', metaStyle), 2), metaStyle, MARGIN, top, CONTENT_WIDTH);
+    if (localLabel) {
+      top = drawLines(page, truncateLines(await lines(`${localLabel} ${value}`, 'regular', localMetaStyle), 2), localMetaStyle, MARGIN, top, CONTENT_WIDTH);
+    }
+  }
+
+  // The footer is laid out from the bottom up; the statement gets whatever space is left
+  const careStyle: TextStyle = { size: 9, color: MUTED, lineHeight: 1.4 };
+  const careLines = await lines(english.care, 'regular', careStyle);
+  const localCareLines = local ? await lines(local.care, 'regular', { ...careStyle, rtl: isRtl }) : [];
+  const careTop = PAGE_HEIGHT - MARGIN - blockHeight([...careLines, ...localCareLines], careStyle);
+  drawLines(page, localCareLines, { ...careStyle, rtl: isRtl }, MARGIN, drawLines(page, careLines, careStyle, MARGIN, careTop, CONTENT_WIDTH), CONTENT_WIDTH);
+
+  const scanTop = careTop - 18 - QR_SIZE;
+  drawQrCode(page, placard.shortUrl, MARGIN, scanTop);
+
+  const scanX = MARGIN + QR_SIZE + 25;
+  const scanWidth = PAGE_WIDTH - MARGIN - scanX;
+  const scanStyle: TextStyle = { size: 13.5, color: INK, lineHeight: 1.35 };
+  const scanLines = await lines(english.scan, 'regular', scanStyle, scanWidth);
+  const localScanLines = local ? await lines(local.scan, 'regular', { ...scanStyle, rtl: isRtl }, scanWidth) : [];
+  const urlStyle: TextStyle = { size: 12, color: DARK_GREEN };
+  const urlLines = [[{ text: placard.shortUrl.replace(/^https?:\/\//, ''), font: mono }]];
+  const scanHeight = blockHeight([...scanLines, ...localScanLines], scanStyle) + (local ? 16 : 8) + blockHeight(urlLines, urlStyle);
+
+  let scanTextTop = scanTop + Math.max(0, (QR_SIZE - scanHeight) / 2);
+  scanTextTop = drawLines(page, scanLines, scanStyle, scanX, scanTextTop, scanWidth) + 8;
+  if (local) scanTextTop = drawLines(page, localScanLines, { ...scanStyle, rtl: isRtl }, scanX, scanTextTop, scanWidth) + 8;
+  drawLines(page, urlLines, urlStyle, scanX, scanTextTop, scanWidth);
+
+  const statementTop = top + 22;
+  page.drawLine({
+    start: { x: MARGIN, y: PAGE_HEIGHT - statementTop },
+    end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - statementTop },
+    thickness: 2.25,
+    color: GREEN
+  });
+  if (!placard.statement) return;
+
+  const headingStyle: TextStyle = { size: 10, color: DARK_GREEN };
+  const bodyTop = drawLines(page, await lines(english.artistStatement.toUpperCase(), 'bold', headingStyle), headingStyle, MARGIN, statementTop + 14, CONTENT_WIDTH) + 4;
+  const bodyStyle: TextStyle = { size: placard.statement.length > LONG_STATEMENT ? 9.5 : 11, color: INK, lineHeight: 1.55 };
+  const maxLines = Math.floor((scanTop - 22 - bodyTop) / (bodyStyle.size * bodyStyle.lineHeight!));
+  if (maxLines > 0) {
+    drawLines(page, truncateLines(await lines(placard.statement, 'regular', bodyStyle), maxLines), bodyStyle, MARGIN, bodyTop, CONTENT_WIDTH);
+  }
+}
+
+/**
+ * Render placards as a print-ready PDF, one US Letter page each: the SFH logo, "Play me" in
+ * English and the program's second language, title, artist and program, the artist statement
+ * cut to fit, and the QR code with its short URL above the care note. Returns PDF bytes.
+ */
+export async function renderPlacardsPdf(placards: PlacardContent[], title: string): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(title);
+  doc.setCreator('Sing for Hope Pianos');
+
+  const fonts = fontLoader(doc);
+  const mono = await doc.embedFont(StandardFonts.Courier);
+  for (const placard of placards) {
+    await drawPlacard(doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), placard, fonts, mono);
+  }
+  return doc.save();
+}
@@ -0,0 +1,66 @@
+import { DEFAULT_LANGUAGE, LANGUAGES, loadTranslations, t, type LanguageCode } from './i18n';
+import { SITE_URL } from './structured-data';
+
+// Placards print a short URL, /p/<code>, that logs the scan and redirects to the piano page
+export const PLACARD_SCAN_PATH = '/p';
+
+export interface PianoScanCount {
+  piano_id: number;
+  total_scans: number;
+  recent_scans: number; // last 30 days
+  last_scanned_at: string | null;
+}
+
+export interface PlacardCopy {
+  lang: LanguageCode;
+  dir: 'ltr' | 'rtl';
+  playMe: string;
+  by: string;
+  partOf: string;
+  artistStatement: string;
+  scan: string;
+  care: string;
+}
+
+// The code is the piano id in base 36: short to type, stable across renames
+export function placardCode(pianoId: number): string {
+  return pianoId.toString(36);
+}
+
+export function pianoIdFromPlacardCode(code: string): number | null {
+  if (!/^[0-9a-z]{1,10}$/i.test(code)) return null;
+  const id = parseInt(code, 36);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+export function placardShortUrl(pianoId: number, origin = SITE_URL): string {
+  return new URL(`${PLACARD_SCAN_PATH}/${placardCode(pianoId)}`, origin).toString();
+}
+
+// The placard PDF for one piano or for every piano in a program
+export function placardPdfUrl(target: { piano?: number; program?: number }): string {
+  const params = new URLSearchParams();
+  if (target.piano) params.set('piano', String(target.piano));
+  if (target.program) params.set('program', String(target.program));
+  return `/api/admin/placards?${params.toString()}`;
+}
+
+// The program's second placard language, when we have placard copy for it
+export function placardLanguage(actLanguage?: string | null): LanguageCode | null {
+  if (!actLanguage || actLanguage === DEFAULT_LANGUAGE) return null;
+  return Object.hasOwn(LANGUAGES, actLanguage) ? (actLanguage as LanguageCode) : null;
+}
+
+export async function loadPlacardCopy(lang: LanguageCode): Promise<PlacardCopy> {
+  const translations = await loadTranslations(lang);
+  return {
+    lang,
+    dir: LANGUAGES[lang].dir,
+    playMe: t('placard.play_me', translations),
+    by: t('placard.by', translations),
+    partOf: t('placard.part_of', translations),
+    artistStatement: t('placard.artist_statement', translations),
+    scan: t('placard.scan', translations),
+    care: t('placard.care', translations)
+  };
+}
@@ -0,0 +1,33 @@
+import type { Program } from './supabase';
+
+export function programUrl(program: Pick<Program, 'id'>): string {
+  return `/program/${program.id}`;
+}
+
+// Only Active programs take applications, matching the list in ApplicationPage
+export function isAcceptingApplications(program: Pick<Program, 'status'>): boolean {
+  return program.status === 'Active';
+}
+
+export function applyUrl(program: Pick<Program, 'id'>): string {
+  return `/apply?program=${program.id}`;
+}
+
+// "Jun 1 – Jun 30, 2025", "From Jun 1, 2025" or null when no dates are set
+export function formatProgramDates(program: Pick<Program, 'act_start_date' | 'act_end_date'>): string | null {
+  const format = (date: string, withYear = true) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear ? { year: 'numeric' } : {})
+    });
+
+  const { act_start_date: start, act_end_date: end } = program;
+  if (start && end) {
+    const sameYear = start.slice(0, 4) === end.slice(0, 4);
+    return `${format(start, !sameYear)} – ${format(end)}`;
+  }
+  if (start) return `From ${format(start)}`;
+  if (end) return `Until ${format(end)}`;
+  return null;
+}
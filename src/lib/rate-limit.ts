@@ -0,0 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Anonymous public submissions allowed per IP per hour, per table
+export const HOURLY_SUBMISSION_LIMIT = 5;
+
+// Client IPs are only ever stored hashed
+export async function hashClientAddress(address: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(address));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Server helper: whether this IP already made `limit` rows in `table` (which needs ip_hash and created_at) in the last hour
+export async function isRateLimited(
+  client: SupabaseClient,
+  table: string,
+  ipHash: string,
+  limit = HOURLY_SUBMISSION_LIMIT
+): Promise<boolean> {
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { count, error } = await client
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('ip_hash', ipHash)
+    .gte('created_at', since);
+
+  if (error) throw error;
+  return (count || 0) >= limit;
+}
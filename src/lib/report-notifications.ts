@@ -0,0 +1,105 @@
+import { Resend } from 'resend';
+import { sanitizeHtml } from './security';
+import { getSupabaseServiceClient } from './admin-auth';
+import { ISSUE_TYPE_LABELS, REPORT_STATUS_LABELS, reportStatusUrl, signReportPhotos, type PianoReport } from './piano-reports';
+
+// Reports for pianos without a site coordinator go to the general inbox
+const FALLBACK_EMAIL = 'hello@singforhope.org';
+
+interface ReportContext {
+  report: PianoReport & { status_token: string };
+  piano: { piano_title: string; piano_url: string };
+  site?: { site_title: string; coordinator_name?: string | null; coordinator_email?: string | null } | null;
+  origin: string;
+}
+
+// Emails are best effort: the ticket is already saved, so failures are logged rather than thrown
+async function send(options: { from: string; to: string[]; subject: string; html: string; replyTo?: string }) {
+  const RESEND_API_KEY = import.meta.env.RESEND_API_KEY;
+  if (!RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not set; skipping report notification');
+    return;
+  }
+
+  try {
+    const { error } = await new Resend(RESEND_API_KEY).emails.send(options);
+    if (error) {
+      console.error('Report notification error:', error);
+    }
+  } catch (error) {
+    console.error('Report notification error:', error);
+  }
+}
+
+function layout(heading: string, subheading: string, body: string): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: #10b981; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0;">${heading}</h1>
+        <p style="margin: 5px 0 0 0;">${subheading}</p>
+      </div>
+      <div style="padding: 20px;">
+        ${body}
+      </div>
+    </div>
+  `;
+}
+
+// Tell the site coordinator (or the general inbox) about a new report
+export async function notifyCoordinator({ report, piano, site, origin }: ReportContext) {
+  const safeTitle = sanitizeHtml(piano.piano_title);
+  const safeDescription = report.description ? sanitizeHtml(report.description).replace(/\n/g, '<br>') : '';
+  const safeReporter = [report.reporter_name, report.reporter_email].filter(Boolean).map(sanitizeHtml).join(' · ');
+  const photoUrl = report.photo_path
+    ? (await signReportPhotos(getSupabaseServiceClient(), [report.photo_path]))[report.photo_path]
+    : undefined;
+
+  const html = layout('Piano Problem Report', `Ticket ${report.ticket_id}`, `
+    ${site?.coordinator_name ? `<p>Hi ${sanitizeHtml(site.coordinator_name)},</p>` : ''}
+    <p>A visitor reported a problem with <a href="${origin}/piano/${piano.piano_url}" style="color: #10b981;">${safeTitle}</a>${site ? ` at ${sanitizeHtml(site.site_title)}` : ''}.</p>
+    <div style="background: #f9f9f9; padding: 15px; border-left: 4px solid #10b981; margin: 20px 0;">
+      <p style="margin: 0;"><strong>Issue:</strong> ${ISSUE_TYPE_LABELS[report.issue_type]}</p>
+      ${safeReporter ? `<p style="margin: 10px 0 0 0;"><strong>Reported by:</strong> ${safeReporter}</p>` : ''}
+    </div>
+    ${safeDescription ? `<div style="background: #f3f4f6; padding: 15px; border-radius: 8px;">${safeDescription}</div>` : ''}
+    ${photoUrl ? `<p><img src="${photoUrl}" alt="Reported problem" style="max-width: 100%; border-radius: 8px;"></p>` : ''}
+    <p style="color: #6b7280; font-size: 12px; margin-top: 20px;">Update the ticket status in the admin panel under Reports.</p>
+  `);
+
+  await send({
+    from: 'SFH Piano Reports <notifications@mail.singforhope.org>',
+    to: [site?.coordinator_email || FALLBACK_EMAIL],
+    subject: `[${ISSUE_TYPE_LABELS[report.issue_type]}] ${safeTitle} (${report.ticket_id})`,
+    html,
+    ...(report.reporter_email ? { replyTo: report.reporter_email } : {})
+  });
+}
+
+// Confirmation or status update for a reporter who left an email address
+export async function notifyReporter({ report, piano, origin }: ReportContext) {
+  if (!report.reporter_email) return;
+
+  const statusLink = `${origin}${reportStatusUrl(report.ticket_id, report.status_token)}`;
+  const statusLabel = REPORT_STATUS_LABELS[report.status];
+  const isNew = report.status === 'reported';
+
+  const html = layout(isNew ? 'Thank You!' : 'Report Update', sanitizeHtml(piano.piano_title), `
+    <p>${isNew
+      ? 'Thanks for letting us know. The people who look after this piano have been notified.'
+      : `Your report is now: <strong>${statusLabel}</strong>.`}</p>
+    ${report.status === 'technician_scheduled' && report.scheduled_for ? `<p>A visit is planned for ${sanitizeHtml(report.scheduled_for)}.</p>` : ''}
+    ${report.status === 'resolved' && report.resolution_note ? `<p>${sanitizeHtml(report.resolution_note)}</p>` : ''}
+    <div style="background: #f0f9f4; border: 1px solid #10b981; padding: 15px; border-radius: 8px; margin: 20px 0;">
+      <p style="margin: 0;"><strong>Your Reference Number:</strong> ${report.ticket_id}</p>
+      <p style="margin: 10px 0 0 0;"><a href="${statusLink}" style="color: #059669;">Check the status of your report</a></p>
+    </div>
+    <p style="color: #6b7280; font-size: 14px;">Best regards,<br>The Sing for Hope Team</p>
+  `);
+
+  await send({
+    from: 'Sing for Hope <hello@mail.singforhope.org>',
+    to: [report.reporter_email],
+    subject: `${isNew ? 'We received your piano report' : `Piano report ${statusLabel.toLowerCase()}`} - ${report.ticket_id}`,
+    html
+  });
+}
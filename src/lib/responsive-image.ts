@@ -0,0 +1,40 @@
+import { getImage, imageConfig } from 'astro:assets';
+import { isRemoteAllowed } from 'astro/assets/utils';
+import type { PianoImage } from './supabase';
+import { normalizeImageUrl, type GalleryImage } from './piano-images';
+
+export const GALLERY_WIDTHS = [640, 828, 1200, 1920];
+export const GALLERY_SIZES = '(min-width: 1024px) 66vw, 100vw';
+
+/**
+ * Run gallery images through Astro's image service (Vercel image optimization in
+ * production). Hosts outside `image.remotePatterns` are passed through untouched.
+ * Server-only: astro:assets is not available in the browser bundle.
+ */
+export async function toResponsiveImages(images: PianoImage[], sizes = GALLERY_SIZES): Promise<GalleryImage[]> {
+  return Promise.all(images.map(async image => {
+    const src = normalizeImageUrl(image.src);
+    if (!/^https?:\/\//i.test(src) || !isRemoteAllowed(src, imageConfig)) {
+      return { ...image, src };
+    }
+
+    // Never upscale past the original when its size is known
+    const maxWidth = image.width ? Math.min(image.width, GALLERY_WIDTHS[GALLERY_WIDTHS.length - 1]) : 1200;
+    const widths = GALLERY_WIDTHS.filter(width => width <= maxWidth);
+
+    try {
+      const optimized = await getImage({
+        src,
+        width: maxWidth,
+        height: image.width && image.height ? Math.round(maxWidth * image.height / image.width) : undefined,
+        widths: widths.length ? widths : [maxWidth],
+        sizes
+      });
+
+      return { ...image, src: optimized.src, srcset: optimized.srcSet.attribute, sizes };
+    } catch (error) {
+      console.warn('Image optimization skipped:', src, error);
+      return { ...image, src };
+    }
+  }));
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { supabase } from './supabase';
+
+export interface PianoCollection {
+  user_id: string;
+  title: string | null;
+  is_public: boolean;
+  share_token: string;
+}
+
+export function collectionShareUrl(collection: Pick<PianoCollection, 'share_token'>): string {
+  return `/collection/${collection.share_token}`;
+}
+
+// Saved ids are shared by every save button on the page, so the list loads once
+let savedIds: Set<number> | null = null;
+let loadingSaved: Promise<Set<number>> | null = null;
+const listeners = new Set<(ids: Set<number>) => void>();
+
+function publish(ids: Set<number>) {
+  savedIds = ids;
+  listeners.forEach(listener => listener(ids));
+}
+
+async function loadSavedIds(userId: string): Promise<Set<number>> {
+  if (savedIds) return savedIds;
+  if (!loadingSaved) {
+    loadingSaved = (async () => {
+      const { data, error } = await supabase
+        .from('saved_pianos')
+        .select('piano_id')
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error fetching saved pianos:', error);
+        return new Set<number>();
+      }
+      return new Set((data || []).map(row => row.piano_id as number));
+    })().finally(() => { loadingSaved = null; });
+  }
+
+  const ids = await loadingSaved;
+  publish(ids);
+  return ids;
+}
+
+/**
+ * Saved state for one piano plus a toggle. Islands are separate React roots, so this reads the
+ * Supabase session directly instead of going through the AuthProvider context.
+ */
+export function useSavedPiano(pianoId: number | null | undefined) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [ids, setIds] = useState<Set<number>>(savedIds || new Set());
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    listeners.add(setIds);
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user.id || null);
+      if (session?.user) loadSavedIds(session.user.id);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id || null);
+      if (!session?.user) {
+        savedIds = null;
+        setIds(new Set());
+      } else {
+        loadSavedIds(session.user.id);
+      }
+    });
+
+    return () => {
+      listeners.delete(setIds);
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const isSaved = pianoId != null && ids.has(pianoId);
+
+  const toggle = async () => {
+    if (pianoId == null) return;
+    if (!userId) {
+      window.location.href = `/auth/login?redirect=${encodeURIComponent(window.location.pathname)}`;
+      return;
+    }
+
+    const next = new Set(ids);
+    if (isSaved) next.delete(pianoId); else next.add(pianoId);
+    publish(next);
+    setIsWorking(true);
+
+    const { error } = isSaved
+      ? await supabase.from('saved_pianos').delete().eq('user_id', userId).eq('piano_id', pianoId)
+      : await supabase.from('saved_pianos').upsert({ user_id: userId, piano_id: pianoId });
+
+    if (error) {
+      console.error('Error saving piano:', error);
+      publish(ids);
+    }
+    setIsWorking(false);
+  };
+
+  return { isSaved, toggle, isWorking, isSignedIn: !!userId };
+}
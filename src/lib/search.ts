@@ -1,5 +1,7 @@
 import Fuse from 'fuse.js';
 import { fetchPianos, fetchNews, type Piano, type NewsItem } from './supabase';
+import { fetchAllPianos } from './piano-query';
+import { artistUrl, pianoArtistName } from './artists';
 
 // Search result types
 export interface SearchResult {
@@ -45,19 +47,23 @@ const fuseOptions: Fuse.IFuseOptions<SearchableContent> = {
 
 // Convert Piano data to searchable content
 function pianoToSearchable(piano: Piano): SearchableContent {
+  const artist = pianoArtistName(piano);
+  // Curated tags are searchable as words, e.g. "in-memoriam" as "in memoriam"
+  const tags = (piano.piano_tag_slugs || []).map(slug => slug.replace(/-/g, ' ')).join(' ');
   return {
     id: `piano-${piano.id}`,
     title: piano.piano_title,
-    content: `${piano.piano_title} ${piano.artist_name} ${piano.piano_search || ''}`,
+    content: `${piano.piano_title} ${artist} ${piano.piano_search || ''} ${tags}`,
     type: 'piano',
     url: `/piano/${piano.piano_url}`,
-    description: `Piano by ${piano.artist_name}${piano.piano_year ? ` (${piano.piano_year})` : ''}`,
+    description: `Piano by ${artist}${piano.piano_year ? ` (${piano.piano_year})` : ''}`,
     image: piano.piano_image,
     metadata: {
-      artist: piano.artist_name,
+      artist,
+      artistUrl: piano.artists ? artistUrl(piano.artists) : null,
       year: piano.piano_year,
       program: piano.piano_program,
-      tags: piano.piano_search,
+      tags: [piano.piano_search, tags].filter(Boolean).join(' '),
       coordinates: piano.perm_lat && piano.perm_lng ? [piano.perm_lat, piano.perm_lng] : null
     }
   };
@@ -161,8 +167,9 @@ export class SearchService {
 
     try {
       // Fetch data from Supabase
+      // In the browser go through /api/pianos; during SSR query Supabase directly
       const [pianos, news] = await Promise.all([
-        fetchPianos(),
+        typeof window !== 'undefined' ? fetchAllPianos() : fetchPianos(),
         fetchNews(100) // Limit to most recent 100 news items
       ]);
 
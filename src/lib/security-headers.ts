@@ -31,7 +31,7 @@ export function getSecurityHeaders(nonce?: string) {
     'X-Frame-Options': 'DENY',
     'X-XSS-Protection': '1; mode=block',
     'Referrer-Policy': 'strict-origin-when-cross-origin',
-    'Permissions-Policy': 'camera=(), microphone=(), geolocation=(), interest-cohort=()',
+    'Permissions-Policy': 'camera=(), microphone=(), geolocation=(self), interest-cohort=()',
     'Strict-Transport-Security': 'max-age=31536000; includeSubDomains; preload'
   };
 }
@@ -0,0 +1,168 @@
+import type { PianoSite } from './supabase';
+
+// Piano sites for visitors: opening hours in the site's own time zone, access and amenities
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Weekly hours as ['HH:MM', 'HH:MM'] pairs in site time; see the piano_site_details migration
+export type OpeningHours = Partial<Record<Weekday, [string, string][]>>;
+
+export interface OpenStatus {
+  state: 'open' | 'closed' | 'out_of_season' | 'unknown';
+  label: string;
+}
+
+export const WEEKDAYS: { id: Weekday; label: string }[] = [
+  { id: 'mon', label: 'Mon' },
+  { id: 'tue', label: 'Tue' },
+  { id: 'wed', label: 'Wed' },
+  { id: 'thu', label: 'Thu' },
+  { id: 'fri', label: 'Fri' },
+  { id: 'sat', label: 'Sat' },
+  { id: 'sun', label: 'Sun' }
+];
+
+export const DEFAULT_SITE_TIME_ZONE = 'America/New_York';
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function toMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= DAY_MINUTES ? minutes : null;
+}
+
+export function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+function formatMonthDay(monthDay: string): string {
+  const [month, day] = monthDay.split('-').map(Number);
+  return `${MONTHS[month - 1]} ${day}`;
+}
+
+// Weekday, minutes past midnight and 'MM-DD' on the site's clock
+function siteClock(timeZone: string, now: Date): { day: number; minutes: number; monthDay: string } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone, weekday: 'short', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+    }).formatToParts(now);
+  } catch {
+    // An unknown zone name; show the hours as if the site were in the default zone
+    return siteClock(DEFAULT_SITE_TIME_ZONE, now);
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    day: WEEKDAYS.findIndex(weekday => weekday.label === part('weekday')),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+    monthDay: `${part('month')}-${part('day')}`
+  };
+}
+
+// The hours come straight from jsonb; a day that isn't a list of ['HH:MM', 'HH:MM'] pairs counts as closed
+function daySpans(hours: OpeningHours, day: Weekday): [string, string][] {
+  const spans: unknown = hours[day];
+  if (!Array.isArray(spans)) return [];
+  return spans.filter((span): span is [string, string] =>
+    Array.isArray(span) && span.length === 2 && typeof span[0] === 'string' && typeof span[1] === 'string'
+  );
+}
+
+// Opening spans as minutes since Monday 00:00; overnight spans end on the next day
+function weeklySpans(hours: OpeningHours): [number, number][] {
+  const spans: [number, number][] = [];
+  WEEKDAYS.forEach((weekday, index) => {
+    daySpans(hours, weekday.id).forEach(([open, close]) => {
+      const start = toMinutes(open);
+      const end = toMinutes(close);
+      if (start === null || end === null || start === end) return;
+      const dayStart = index * DAY_MINUTES;
+      spans.push([dayStart + start, dayStart + (end < start ? end + DAY_MINUTES : end)]);
+    });
+  });
+  return spans;
+}
+
+export function inSeason(site: Pick<PianoSite, 'season_start' | 'season_end'>, monthDay: string): boolean {
+  const { season_start: start, season_end: end } = site;
+  if (!start || !end) return true;
+  return start <= end ? monthDay >= start && monthDay <= end : monthDay >= start || monthDay <= end;
+}
+
+// "Open now" on the site's clock, with when that changes next
+export function openStatus(
+  site: Pick<PianoSite, 'time_zone' | 'opening_hours' | 'season_start' | 'season_end'>,
+  now = new Date()
+): OpenStatus {
+  const clock = siteClock(site.time_zone || DEFAULT_SITE_TIME_ZONE, now);
+
+  if (!inSeason(site, clock.monthDay)) {
+    return { state: 'out_of_season', label: `Closed for the season · back ${formatMonthDay(site.season_start!)}` };
+  }
+  if (!site.opening_hours) {
+    return { state: 'unknown', label: 'Hours not listed' };
+  }
+
+  const spans = weeklySpans(site.opening_hours);
+  const time = clock.day * DAY_MINUTES + clock.minutes;
+
+  // Sunday night's overnight span runs into Monday morning
+  const current = spans.find(([start, end]) =>
+    (time >= start && time < end) || (time + WEEK_MINUTES >= start && time + WEEK_MINUTES < end)
+  );
+  if (current) {
+    if (current[1] - current[0] >= DAY_MINUTES) return { state: 'open', label: 'Open now · 24 hours' };
+    return { state: 'open', label: `Open now · until ${formatTime(current[1] % DAY_MINUTES)}` };
+  }
+
+  const next = spans
+    .map(([start]) => (start > time ? start : start + WEEK_MINUTES))
+    .sort((a, b) => a - b)[0];
+  if (next === undefined) return { state: 'closed', label: 'Closed' };
+
+  const daysAhead = Math.floor(next / DAY_MINUTES) - clock.day;
+  const day = daysAhead === 0 ? '' : daysAhead === 1 ? 'tomorrow ' : `${WEEKDAYS[Math.floor(next / DAY_MINUTES) % 7].label} `;
+  return { state: 'closed', label: `Closed · opens ${day}at ${formatTime(next % DAY_MINUTES)}` };
+}
+
+// One row per run of days with the same hours, e.g. "Mon–Fri 9:00 AM – 5:00 PM"
+export function formatOpeningHours(hours: OpeningHours): { days: string; hours: string }[] {
+  const daily = WEEKDAYS.map(weekday => {
+    const spans = daySpans(hours, weekday.id).filter(([open, close]) => toMinutes(open) !== null && toMinutes(close) !== null);
+    if (!spans.length) return 'Closed';
+    if (spans.some(([open, close]) => open === '00:00' && close === '24:00')) return 'Open 24 hours';
+    return spans.map(([open, close]) => `${formatTime(toMinutes(open)!)} – ${formatTime(toMinutes(close)!)}`).join(', ');
+  });
+
+  const rows: { days: string; hours: string }[] = [];
+  let first = 0;
+  daily.forEach((text, index) => {
+    if (index < 6 && daily[index + 1] === text) return;
+    const days = first === index ? WEEKDAYS[index].label : `${WEEKDAYS[first].label}–${WEEKDAYS[index].label}`;
+    rows.push({ days, hours: text });
+    first = index + 1;
+  });
+  return rows;
+}
+
+export function formatSeason(site: Pick<PianoSite, 'season_start' | 'season_end'>): string | null {
+  if (!site.season_start || !site.season_end) return null;
+  return `${formatMonthDay(site.season_start)} – ${formatMonthDay(site.season_end)}`;
+}
+
+// Short access and amenity labels, leaving out what the site hasn't told us
+export function siteAmenities(site: Pick<PianoSite, 'setting' | 'wheelchair_accessible'>): string[] {
+  const amenities: string[] = [];
+  if (site.setting) amenities.push(site.setting === 'indoor' ? 'Indoors' : 'Outdoors');
+  if (site.wheelchair_accessible === true) amenities.push('Wheelchair accessible');
+  if (site.wheelchair_accessible === false) amenities.push('Not wheelchair accessible');
+  return amenities;
+}
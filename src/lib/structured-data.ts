@@ -0,0 +1,118 @@
+// Schema.org JSON-LD for search engines and link previews
+
+export const SITE_URL = 'https://singforhope.org';
+
+// Social card size, declared in the og:image tags and rendered by og-image.ts
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+const ORGANIZATION_ID = `${SITE_URL}/#organization`;
+
+export type JsonLd = Record<string, unknown>;
+
+export interface PianoArtworkData {
+  title: string;
+  slug: string;
+  image?: string | null;
+  description?: string | null;
+  year?: number | null;
+  artistName?: string | null;
+  artistUrl?: string | null; // site-relative
+  programName?: string | null;
+  place?: {
+    name?: string | null;
+    address?: string | null;
+    lat?: number | null;
+    lng?: number | null;
+  } | null;
+}
+
+export interface NewsArticleData {
+  title: string;
+  slug: string;
+  image?: string | null;
+  description?: string | null;
+  datePublished?: string | null;
+  dateModified?: string | null;
+  author?: string | null;
+}
+
+export function absoluteUrl(path: string): string {
+  return new URL(path, SITE_URL).toString();
+}
+
+// Drop empty values so the output only claims what we know
+function compact<T extends JsonLd>(data: T): T {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== null && value !== undefined && value !== '')
+  ) as T;
+}
+
+// Sing for Hope itself; other nodes point at it by @id
+export function organizationJsonLd(): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'NGO',
+    '@id': ORGANIZATION_ID,
+    name: 'Sing for Hope',
+    url: SITE_URL,
+    logo: absoluteUrl('/sfh-logo.svg'),
+    image: absoluteUrl('/singforhope.jpg'),
+    description: 'Sing for Hope harnesses the power of the arts to create a better world.',
+    email: 'hello@singforhope.org'
+  };
+}
+
+export function pianoJsonLd(piano: PianoArtworkData): JsonLd {
+  const { place } = piano;
+  const hasGeo = place?.lat != null && place?.lng != null;
+
+  return compact({
+    '@context': 'https://schema.org',
+    '@type': 'VisualArtwork',
+    name: piano.title,
+    url: absoluteUrl(`/piano/${piano.slug}`),
+    image: piano.image,
+    description: piano.description,
+    dateCreated: piano.year ? String(piano.year) : null,
+    artform: 'Painted piano',
+    artMedium: 'Paint on piano',
+    creator: piano.artistName
+      ? compact({ '@type': 'Person', name: piano.artistName, url: piano.artistUrl ? absoluteUrl(piano.artistUrl) : null })
+      : null,
+    isPartOf: piano.programName ? { '@type': 'CreativeWorkSeries', name: piano.programName } : null,
+    contentLocation: place && (place.name || hasGeo)
+      ? compact({
+          '@type': 'Place',
+          name: place.name,
+          address: place.address,
+          geo: hasGeo ? { '@type': 'GeoCoordinates', latitude: Number(place.lat), longitude: Number(place.lng) } : null
+        })
+      : null,
+    sourceOrganization: { '@id': ORGANIZATION_ID }
+  });
+}
+
+export function newsArticleJsonLd(article: NewsArticleData): JsonLd {
+  const url = absoluteUrl(`/news/${article.slug}`);
+
+  return compact({
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    headline: article.title.slice(0, 110), // Google truncates longer headlines
+    url,
+    mainEntityOfPage: url,
+    image: article.image ? [article.image] : null,
+    description: article.description,
+    datePublished: article.datePublished,
+    dateModified: article.dateModified || article.datePublished,
+    author: article.author
+      ? { '@type': 'Person', name: article.author }
+      : { '@id': ORGANIZATION_ID },
+    publisher: { '@id': ORGANIZATION_ID }
+  });
+}
+
+// JSON for an inline <script>; escaping "<" keeps "</script>" in the data from closing the tag
+export function serializeJsonLd(data: JsonLd | JsonLd[]): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -1,4 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
+import { summarizePlacements } from './piano-lifecycle';
+import type { CheckinMediaType, CheckinStatus } from './checkins';
+import { boundingBoxAround, fromKm, haversineKm, toKm } from './geo';
+import { rankBySimilarity, type ColorFamily, type PaletteColor } from './palette';
+import type { OpeningHours } from './sites';
+import { decodeCursor, encodeCursor, DEFAULT_PIANO_LIMIT, MAX_PIANO_LIMIT, type NearbyPianoQuery, type NearbyPianoResult, type PianoQuery, type PianoQueryResult } from './piano-query';
 
 const SUPABASE_URL = import.meta.env.PUBLIC_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.PUBLIC_SUPABASE_ANON_KEY;
@@ -33,21 +39,112 @@ export interface NewsItem {
   news_author?: string;
   news_link?: string;
   featured?: boolean;
+  news_program?: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export type PianoLifecycleStatus = 'in_studio' | 'public_display' | 'permanent_home' | 'retired';
+
+export interface PianoPlacement {
+  id: number;
+  piano_id: number;
+  site_id: number | null;
+  status: PianoLifecycleStatus;
+  location_name: string | null;
+  lat: number | null;
+  lng: number | null;
+  started_on: string;
+  ended_on: string | null;
+  notes?: string | null;
+  piano_sites?: {
+    site_title: string;
+    site_location?: string | null;
+  } | null;
+}
+
+export interface PianoImage {
+  id: number;
+  piano_id: number;
+  position: number;
+  src: string;
+  width?: number | null;
+  height?: number | null;
+  alt?: string | null;
+  caption?: string | null;
+  credit?: string | null;
+  focal_x: number;
+  focal_y: number;
+}
+
+export interface PianoCheckin {
+  id: number;
+  piano_id: number;
+  user_id?: string | null;
+  display_name: string | null;
+  note: string | null;
+  media_path: string | null;
+  media_type: CheckinMediaType | null;
+  status: CheckinStatus;
+  moderated_by?: string | null;
+  moderated_at?: string | null;
+  created_at: string;
+}
+
+// A resolved point in a piano's history, used by the map
+export interface PianoLocation {
+  lat: number;
+  lng: number;
+  name: string | null;
+  status: PianoLifecycleStatus;
+  since: string;
+}
+
+export interface Artist {
+  id: number;
+  name: string;
+  slug: string;
+  bio?: string | null;
+  website?: string | null;
+  headshot?: string | null;
+  profile_id?: string | null;
+  merged_into_id?: number | null;
+  created_at?: string;
+}
+
+export type PianoTagCategory = 'theme' | 'technique' | 'dedication';
+
+export interface PianoTag {
+  id: number;
+  slug: string;
+  label: string;
+  category: PianoTagCategory;
+  description?: string | null;
+}
+
 export interface Piano {
   id: number;
   piano_title: string;
   piano_year: number | null;
   piano_image: string;
   artist_name: string;
+  artist_id?: number | null;
+  artists?: Pick<Artist, 'name' | 'slug'> | null;
   piano_program: number | null;
   piano_url: string;
   perm_lat: number | null;
   perm_lng: number | null;
   piano_search?: string;
+  lifecycle_status?: PianoLifecycleStatus | null;
+  times_played?: number;
+  piano_colors?: ColorFamily[]; // colour families in the artwork, see palette.ts
+  piano_palette?: PaletteColor[] | null;
+  piano_tag_slugs?: string[]; // curated tags, see tags.ts
+  piano_site?: number | null;
+  site?: PianoSite | null;
+  distance?: number;
+  current_location?: PianoLocation | null;
+  debut_location?: PianoLocation | null;
   program?: {
     act_title: string;
     act_location: string;
@@ -55,9 +152,37 @@ export interface Piano {
   };
 }
 
+export type SiteSetting = 'indoor' | 'outdoor';
+
+// Where a piano lives, with what visitors need to know before they go
+export interface PianoSite {
+  id: number;
+  site_title: string;
+  site_description?: string | null;
+  site_location?: string | null; // street address
+  lat?: number | null;
+  lon?: number | null;
+  time_zone: string; // IANA zone the opening hours are in
+  opening_hours?: OpeningHours | null;
+  hours_note?: string | null;
+  setting?: SiteSetting | null;
+  wheelchair_accessible?: boolean | null;
+  transit?: string | null;
+  partner_name?: string | null;
+  partner_url?: string | null;
+  season_start?: string | null; // 'MM-DD'
+  season_end?: string | null;
+}
+
 export interface Program {
   id: number;
   act_title: string;
+  act_location?: string | null;
+  act_description?: string | null;
+  act_start_date?: string | null;
+  act_end_date?: string | null;
+  act_image?: string | null;
+  act_language?: string | null; // second language on placards, ISO 639-1
   status?: string;
 }
 
@@ -140,7 +265,7 @@ export async function fetchPianos(limit?: number) {
     // First, try to get pianos with coordinates (deployed pianos)
     let query = supabase
       .from('pianos')
-      .select('id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng, piano_search')
+      .select('id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng, piano_search, piano_tag_slugs')
       .not('perm_lat', 'is', null)
       .not('perm_lng', 'is', null)
       .order('piano_year', { ascending: false });
@@ -153,7 +278,7 @@ export async function fetchPianos(limit?: number) {
     if (!coordsError && allPianos.length < (limit || 50)) {
       const { data: allPianosData, error: allError } = await supabase
         .from('pianos')
-        .select('id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng, piano_search')
+        .select('id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng, piano_search, piano_tag_slugs')
         .order('piano_year', { ascending: false });
       
       if (!allError && allPianosData) {
@@ -201,6 +326,481 @@ export async function fetchPianos(limit?: number) {
   }
 }
 
+const PIANO_LIST_COLUMNS = 'id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng, piano_search, lifecycle_status, times_played, piano_colors, piano_tag_slugs, piano_site, artist_id, artists (name, slug)';
+
+// Public site fields; coordinator contacts stay out of page data
+const PIANO_SITE_COLUMNS = 'id, site_title, site_description, site_location, lat, lon, time_zone, opening_hours, hours_note, setting, wheelchair_accessible, transit, partner_name, partner_url, season_start, season_end';
+
+// Strip characters that have meaning inside a PostgREST or() filter
+function escapeFilterValue(value: string) {
+  return value.replace(/[,()%*\\]/g, ' ').trim();
+}
+
+// Attach program information to a set of pianos with a single lookup
+async function attachPrograms<T extends { piano_program: number | null }>(pianos: T[]) {
+  const programIds = [...new Set(pianos.map(p => p.piano_program).filter((id): id is number => id !== null))];
+  if (!programIds.length) return pianos.map(piano => ({ ...piano, program: undefined }));
+
+  const { data: programsData, error } = await supabase
+    .from('piano_activations')
+    .select('id, act_title, act_location, status')
+    .in('id', programIds);
+
+  if (error) {
+    console.warn('Error fetching programs (non-critical):', error);
+  }
+
+  const programsMap = new Map((programsData || []).map(p => [p.id, p]));
+  return pianos.map(piano => ({
+    ...piano,
+    program: piano.piano_program ? programsMap.get(piano.piano_program) : undefined
+  }));
+}
+
+// Attach each piano's site, for opening hours and access in map popups
+async function attachSites<T extends { piano_site?: number | null }>(pianos: T[]) {
+  const siteIds = [...new Set(pianos.map(p => p.piano_site).filter((id): id is number => id != null))];
+  if (!siteIds.length) return pianos;
+
+  const { data: sitesData, error } = await supabase
+    .from('piano_sites')
+    .select(PIANO_SITE_COLUMNS)
+    .in('id', siteIds);
+
+  if (error) {
+    console.warn('Error fetching sites (non-critical):', error);
+    return pianos;
+  }
+
+  const sitesMap = new Map(((sitesData || []) as PianoSite[]).map(site => [site.id, site]));
+  return pianos.map(piano => ({
+    ...piano,
+    site: piano.piano_site != null ? sitesMap.get(piano.piano_site) || null : null
+  }));
+}
+
+// Attach where each piano is today and where it debuted, from its placement history
+async function attachLocations<T extends { id: number }>(pianos: T[]) {
+  if (!pianos.length) return pianos;
+
+  const { data: placements, error } = await supabase
+    .from('piano_placements')
+    .select('id, piano_id, site_id, status, location_name, lat, lng, started_on, ended_on')
+    .in('piano_id', pianos.map(p => p.id))
+    .order('started_on', { ascending: true });
+
+  if (error) {
+    console.warn('Error fetching placements (non-critical):', error);
+    return pianos;
+  }
+
+  const byPiano = new Map<number, PianoPlacement[]>();
+  (placements || []).forEach(placement => {
+    byPiano.set(placement.piano_id, [...(byPiano.get(placement.piano_id) || []), placement]);
+  });
+
+  return pianos.map(piano => ({
+    ...piano,
+    ...summarizePlacements(byPiano.get(piano.id) || [])
+  }));
+}
+
+// Pianos whose open placement is at a site, on top of those assigned to it directly
+async function fetchPianoIdsAtSite(siteId: number): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('piano_placements')
+    .select('piano_id')
+    .eq('site_id', siteId)
+    .is('ended_on', null);
+
+  if (error) {
+    console.warn('Error fetching site placements (non-critical):', error);
+    return [];
+  }
+
+  return [...new Set((data || []).map(placement => placement.piano_id as number))];
+}
+
+// Filtered, sorted and paginated piano lookup backing /api/pianos
+export async function queryPianos(params: PianoQuery): Promise<PianoQueryResult> {
+  const offset = decodeCursor(params.cursor);
+  const limit = params.limit || DEFAULT_PIANO_LIMIT;
+
+  let query = supabase
+    .from('pianos')
+    .select(PIANO_LIST_COLUMNS, { count: 'exact' });
+
+  if (params.programs?.length) {
+    query = query.in('piano_program', params.programs);
+  }
+
+  if (params.site != null) {
+    const pianoIds = await fetchPianoIdsAtSite(params.site);
+    query = pianoIds.length
+      ? query.or(`piano_site.eq.${params.site},id.in.(${pianoIds.join(',')})`)
+      : query.eq('piano_site', params.site);
+  }
+
+  if (params.yearFrom != null) {
+    query = query.gte('piano_year', params.yearFrom);
+  }
+
+  if (params.yearTo != null) {
+    query = query.lte('piano_year', params.yearTo);
+  }
+
+  if (params.artist) {
+    query = query.ilike('artist_name', `%${escapeFilterValue(params.artist)}%`);
+  }
+
+  if (params.search) {
+    const term = escapeFilterValue(params.search);
+    if (term) {
+      query = query.or(`piano_title.ilike.%${term}%,artist_name.ilike.%${term}%,piano_search.ilike.%${term}%`);
+    }
+  }
+
+  if (params.lifecycle?.length) {
+    query = query.in('lifecycle_status', params.lifecycle);
+  }
+
+  if (params.colors?.length) {
+    query = query.overlaps('piano_colors', params.colors);
+  }
+
+  if (params.tags?.length) {
+    query = query.contains('piano_tag_slugs', params.tags);
+  }
+
+  if (params.located || params.bbox) {
+    query = query.not('perm_lat', 'is', null).not('perm_lng', 'is', null);
+  }
+
+  if (params.bbox) {
+    const [west, south, east, north] = params.bbox;
+    query = query.gte('perm_lat', south).lte('perm_lat', north);
+
+    // A box crossing the antimeridian has west > east
+    if (west <= east) {
+      query = query.gte('perm_lng', west).lte('perm_lng', east);
+    } else {
+      query = query.or(`perm_lng.gte.${west},perm_lng.lte.${east}`);
+    }
+  }
+
+  switch (params.sort) {
+    case 'year_asc':
+      query = query.order('piano_year', { ascending: true, nullsFirst: false });
+      break;
+    case 'title':
+      query = query.order('piano_title', { ascending: true });
+      break;
+    case 'artist':
+      query = query.order('artist_name', { ascending: true });
+      break;
+    default:
+      query = query.order('piano_year', { ascending: false, nullsFirst: false });
+  }
+
+  // Stable tiebreaker so pages never overlap
+  query = query.order('id', { ascending: true }).range(offset, offset + limit - 1);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+
+  // Untyped client: the many-to-one artists embed is inferred as an array but arrives as an object
+  const items = await attachSites(await attachLocations(await attachPrograms((data || []) as unknown as Piano[])));
+  const total = count || 0;
+  const nextOffset = offset + items.length;
+
+  return {
+    items,
+    total,
+    nextCursor: items.length === limit && nextOffset < total ? encodeCursor(nextOffset) : null
+  };
+}
+
+// Server-side helper: follow cursors until every matching piano has been loaded
+export async function queryAllPianos(params: PianoQuery): Promise<Piano[]> {
+  const pianos: Piano[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await queryPianos({ ...params, cursor, limit: MAX_PIANO_LIMIT });
+    pianos.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return pianos;
+}
+
+// Nearest pianos to a point: bounding-box prefilter in the database, exact distance here
+export async function queryNearbyPianos(params: NearbyPianoQuery): Promise<NearbyPianoResult> {
+  const radiusKm = toKm(params.radius, params.unit);
+  const candidates = await queryAllPianos({
+    programs: params.programs,
+    yearFrom: params.yearFrom,
+    yearTo: params.yearTo,
+    bbox: boundingBoxAround(params.lat, params.lng, radiusKm)
+  });
+
+  const items = candidates
+    .map(piano => ({
+      ...piano,
+      distance: haversineKm([params.lat, params.lng], [Number(piano.perm_lat), Number(piano.perm_lng)])
+    }))
+    .filter(piano => piano.distance <= radiusKm)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, params.limit)
+    .map(piano => ({ ...piano, distance: Math.round(fromKm(piano.distance, params.unit) * 100) / 100 }));
+
+  return { items, unit: params.unit, radius: params.radius };
+}
+
+// Gallery images for a piano in display order
+export async function fetchPianoImages(pianoId: number): Promise<PianoImage[]> {
+  try {
+    const { data, error } = await supabase
+      .from('piano_images')
+      .select('id, piano_id, position, src, width, height, alt, caption, credit, focal_x, focal_y')
+      .eq('piano_id', pianoId)
+      .order('position', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching piano images:', error);
+    return [];
+  }
+}
+
+// Pianos whose artwork looks most like this one's. Candidates share at least one
+// colour family, then get ranked by palette distance.
+export async function fetchSimilarLookingPianos(
+  piano: Pick<Piano, 'id' | 'piano_colors' | 'piano_palette'>,
+  limit = 6
+): Promise<Piano[]> {
+  if (!piano.piano_colors?.length || !piano.piano_palette?.length) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('pianos')
+      .select('id, piano_title, piano_year, piano_image, artist_name, piano_program, piano_url, perm_lat, perm_lng, piano_palette')
+      .overlaps('piano_colors', piano.piano_colors)
+      .neq('id', piano.id)
+      .limit(MAX_PIANO_LIMIT);
+
+    if (error) throw error;
+    return rankBySimilarity(piano, (data || []) as Piano[], limit);
+  } catch (error) {
+    console.error('Error fetching similar-looking pianos:', error);
+    return [];
+  }
+}
+
+// Approved check-ins for a piano, newest first
+export async function fetchApprovedCheckins(pianoId: number, limit = 20): Promise<PianoCheckin[]> {
+  try {
+    const { data, error } = await supabase
+      .from('piano_checkins')
+      .select('id, piano_id, display_name, note, media_path, media_type, status, created_at')
+      .eq('piano_id', pianoId)
+      .eq('status', 'approved')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching piano check-ins:', error);
+    return [];
+  }
+}
+
+export async function fetchPianoPlacements(pianoId: number): Promise<PianoPlacement[]> {
+  try {
+    const { data, error } = await supabase
+      .from('piano_placements')
+      .select('*, piano_sites (site_title, site_location)')
+      .eq('piano_id', pianoId)
+      .order('started_on', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching piano placements:', error);
+    return [];
+  }
+}
+
+export async function fetchPianoSite(id: number): Promise<PianoSite | null> {
+  try {
+    const { data, error } = await supabase
+      .from('piano_sites')
+      .select(PIANO_SITE_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as PianoSite | null;
+  } catch (error) {
+    console.error('Error fetching piano site:', error);
+    return null;
+  }
+}
+
+// The whole tag taxonomy, grouped by category
+export async function fetchPianoTags(): Promise<PianoTag[]> {
+  try {
+    const { data, error } = await supabase
+      .from('piano_tags')
+      .select('id, slug, label, category, description')
+      .order('category', { ascending: true })
+      .order('label', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching piano tags:', error);
+    return [];
+  }
+}
+
+export async function fetchPianoTagBySlug(slug: string): Promise<PianoTag | null> {
+  try {
+    const { data, error } = await supabase
+      .from('piano_tags')
+      .select('id, slug, label, category, description')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching piano tag:', error);
+    return null;
+  }
+}
+
+// Artist by slug; a merged artist resolves to the record it was merged into
+export async function fetchArtistBySlug(slug: string): Promise<{ artist: Artist; redirectTo?: string } | null> {
+  try {
+    const { data, error } = await supabase
+      .from('artists')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    if (data.merged_into_id) {
+      const { data: target, error: targetError } = await supabase
+        .from('artists')
+        .select('*')
+        .eq('id', data.merged_into_id)
+        .single();
+
+      if (targetError) throw targetError;
+      return { artist: target, redirectTo: target.slug };
+    }
+
+    return { artist: data };
+  } catch (error) {
+    console.error('Error fetching artist:', error);
+    return null;
+  }
+}
+
+// Every piano by an artist, newest first, with program details
+export async function fetchArtistPianos(artistId: number): Promise<Piano[]> {
+  try {
+    const { data, error } = await supabase
+      .from('pianos')
+      .select(PIANO_LIST_COLUMNS)
+      .eq('artist_id', artistId)
+      .order('piano_year', { ascending: false, nullsFirst: false })
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return attachPrograms((data || []) as unknown as Piano[]);
+  } catch (error) {
+    console.error('Error fetching artist pianos:', error);
+    return [];
+  }
+}
+
+export type SlugEntity = 'piano' | 'news';
+
+const SLUG_TABLES: Record<SlugEntity, { table: string; column: string }> = {
+  piano: { table: 'pianos', column: 'piano_url' },
+  news: { table: 'news', column: 'news_url' }
+};
+
+// Current slug for a record that used to live at `slug`, or null if it was never renamed
+export async function resolveRenamedSlug(entity: SlugEntity, slug: string): Promise<string | null> {
+  try {
+    const { data: previous, error } = await supabase
+      .from('slug_history')
+      .select('entity_id')
+      .eq('entity_type', entity)
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!previous) return null;
+
+    const { table, column } = SLUG_TABLES[entity];
+    const { data: current, error: currentError } = await supabase
+      .from(table)
+      .select(column)
+      .eq('id', previous.entity_id)
+      .maybeSingle();
+
+    if (currentError) throw currentError;
+    return current?.[column] || null;
+  } catch (error) {
+    console.error('Error resolving renamed slug:', error);
+    return null;
+  }
+}
+
+export async function fetchProgram(id: number): Promise<Program | null> {
+  try {
+    const { data, error } = await supabase
+      .from('piano_activations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching program:', error);
+    return null;
+  }
+}
+
+// News tagged to a program, falling back to articles that mention it by name
+export async function fetchProgramNews(program: Program, limit = 3): Promise<NewsItem[]> {
+  try {
+    const title = escapeFilterValue(program.act_title);
+    const { data, error } = await supabase
+      .from('news')
+      .select('*')
+      .or(title ? `news_program.eq.${program.id},news_title.ilike.*${title}*` : `news_program.eq.${program.id}`)
+      .order('news_date', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching program news:', error);
+    return [];
+  }
+}
+
 export async function fetchPianoPrograms() {
   try {
     const { data, error } = await supabase
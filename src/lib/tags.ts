@@ -0,0 +1,44 @@
+import type { PianoTag, PianoTagCategory } from './supabase';
+
+// Curated piano tags: a taxonomy managed in the admin panel, browsable at /pianos/tag/[slug]
+
+export const TAG_CATEGORIES: { id: PianoTagCategory; label: string }[] = [
+  { id: 'theme', label: 'Themes' },
+  { id: 'technique', label: 'Techniques' },
+  { id: 'dedication', label: 'Dedications' }
+];
+
+// Mirrors the check constraint on piano_tags.slug
+export const TAG_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export function tagSlug(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function tagUrl(tag: Pick<PianoTag, 'slug'>): string {
+  return `/pianos/tag/${tag.slug}`;
+}
+
+// A piano matches when it carries every selected tag, so each extra tag narrows the results
+export function matchesTags(pianoTags: string[] | undefined, selected: string[]): boolean {
+  return selected.every(slug => pianoTags?.includes(slug));
+}
+
+// How many of these pianos carry each tag: the facet counts next to each option
+export function tagCounts(pianos: { piano_tag_slugs?: string[] }[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  pianos.forEach(piano => piano.piano_tag_slugs?.forEach(slug => {
+    counts[slug] = (counts[slug] || 0) + 1;
+  }));
+  return counts;
+}
+
+// Labels for a piano's tag slugs in taxonomy order, skipping slugs the taxonomy no longer has
+export function pianoTags(slugs: string[] | undefined, taxonomy: PianoTag[]): PianoTag[] {
+  return taxonomy.filter(tag => slugs?.includes(tag.slug));
+}
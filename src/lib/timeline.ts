@@ -0,0 +1,57 @@
+import type { Piano } from './supabase';
+
+export interface YearCount {
+  year: number;
+  count: number; // pianos deployed that year
+  total: number; // pianos deployed up to and including that year
+}
+
+// How long the timeline lingers on each year while playing
+export const TIMELINE_STEP_MS = 1200;
+
+// Sing for Hope was founded in 2006; years before that or after next year are typos
+// (0, 20244) that would stretch the timeline over centuries
+const EARLIEST_YEAR = 2006;
+
+function plausibleYear(year: number | null | undefined): number | null {
+  if (year == null || isNaN(year)) return null;
+  return year >= EARLIEST_YEAR && year <= new Date().getUTCFullYear() + 1 ? year : null;
+}
+
+// The year a piano first went out: its first public placement when the history
+// has one, otherwise the year it was painted. Null when neither gives a believable year.
+export function deploymentYear(piano: Piano): number | null {
+  const since = piano.debut_location?.since;
+  const placedYear = since ? plausibleYear(new Date(since).getUTCFullYear()) : null;
+  return placedYear ?? plausibleYear(piano.piano_year);
+}
+
+// One entry per year from the first deployment to the last, including empty years
+export function yearCounts(pianos: Piano[]): YearCount[] {
+  const byYear: Record<number, number> = {};
+  pianos.forEach(piano => {
+    const year = deploymentYear(piano);
+    if (year !== null) byYear[year] = (byYear[year] || 0) + 1;
+  });
+
+  const years = Object.keys(byYear).map(Number);
+  if (!years.length) return [];
+
+  const counts: YearCount[] = [];
+  let total = 0;
+  for (let year = Math.min(...years); year <= Math.max(...years); year++) {
+    const count = byYear[year] || 0;
+    total += count;
+    counts.push({ year, count, total });
+  }
+  return counts;
+}
+
+// Pianos already deployed by the end of `year`; undated pianos only show with the full collection
+export function deployedBy(pianos: Piano[], year: number | null): Piano[] {
+  if (year === null) return pianos;
+  return pianos.filter(piano => {
+    const deployed = deploymentYear(piano);
+    return deployed !== null && deployed <= year;
+  });
+}
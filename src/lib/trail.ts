@@ -0,0 +1,153 @@
+import { haversineKm } from './geo';
+import type { Piano } from './supabase';
+
+// Enough for an afternoon; also keeps the exhaustive start search below cheap
+export const MAX_TRAIL_STOPS = 25;
+export const TRAIL_PARAM = 'trail';
+
+// Average walking pace for a family group, in km/h
+const WALKING_SPEED_KMH = 4;
+
+type Point = [number, number]; // [lat, lng]
+
+export function trailPoint(piano: Piano): Point | null {
+  if (piano.perm_lat == null || piano.perm_lng == null) return null;
+  const lat = Number(piano.perm_lat);
+  const lng = Number(piano.perm_lng);
+  return isNaN(lat) || isNaN(lng) ? null : [lat, lng];
+}
+
+function pathLength(order: number[], distances: number[][]): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) total += distances[order[i - 1]][order[i]];
+  return total;
+}
+
+function nearestNeighbour(start: number, distances: number[][]): number[] {
+  const order = [start];
+  const visited = new Set(order);
+
+  while (order.length < distances.length) {
+    const last = order[order.length - 1];
+    let next = -1;
+    for (let i = 0; i < distances.length; i++) {
+      if (!visited.has(i) && (next === -1 || distances[last][i] < distances[last][next])) next = i;
+    }
+    order.push(next);
+    visited.add(next);
+  }
+
+  return order;
+}
+
+// Reverse segments while that shortens the open path (ends are free, it is not a loop)
+function twoOpt(order: number[], distances: number[][]): number[] {
+  const route = [...order];
+  const d = (a: number, b: number) => (a < 0 || b < 0 ? 0 : distances[route[a]][route[b]]);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const before = d(i - 1, i) + (j + 1 < route.length ? d(j, j + 1) : 0);
+        const after = d(i - 1, j) + (j + 1 < route.length ? d(i, j + 1) : 0);
+        if (after < before - 1e-9) {
+          route.splice(i, j - i + 1, ...route.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return route;
+}
+
+/**
+ * Put trail stops in a sensible walking order: nearest neighbour from every possible
+ * starting piano, each tidied up with 2-opt, keeping the shortest. Runs entirely offline.
+ * Pianos without coordinates are left at the end in their original order.
+ */
+export function orderTrail(pianos: Piano[]): Piano[] {
+  const located = pianos.filter(piano => trailPoint(piano));
+  const unlocated = pianos.filter(piano => !trailPoint(piano));
+  if (located.length < 3) return [...located, ...unlocated];
+
+  const points = located.map(piano => trailPoint(piano)!);
+  const distances = points.map(from => points.map(to => haversineKm(from, to)));
+
+  let best: number[] = [];
+  let bestLength = Infinity;
+  for (let start = 0; start < located.length; start++) {
+    const route = twoOpt(nearestNeighbour(start, distances), distances);
+    const length = pathLength(route, distances);
+    if (length < bestLength) {
+      best = route;
+      bestLength = length;
+    }
+  }
+
+  return [...best.map(i => located[i]), ...unlocated];
+}
+
+// Walking distance along the trail, straight line between stops
+export function trailDistanceKm(stops: Piano[]): number {
+  const points = stops.map(trailPoint).filter((point): point is Point => !!point);
+  let total = 0;
+  for (let i = 1; i < points.length; i++) total += haversineKm(points[i - 1], points[i]);
+  return total;
+}
+
+export function estimateWalkingMinutes(km: number): number {
+  return Math.round((km / WALKING_SPEED_KMH) * 60);
+}
+
+// Route line for the map, as [lng, lat] pairs
+export function trailLine(stops: Piano[]): [number, number][] {
+  return stops
+    .map(trailPoint)
+    .filter((point): point is Point => !!point)
+    .map(([lat, lng]) => [lng, lat]);
+}
+
+export function encodeTrail(stops: Piano[]): string {
+  return stops.map(piano => piano.id).join(',');
+}
+
+// Piano ids from a ?trail= value, in order, without duplicates
+export function decodeTrail(value: string | null): number[] {
+  if (!value) return [];
+  const ids = value.split(',').map(id => parseInt(id, 10)).filter(id => Number.isInteger(id) && id > 0);
+  return [...new Set(ids)].slice(0, MAX_TRAIL_STOPS);
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// GPX 1.1 with each stop as a waypoint and the walking order as a route
+export function trailToGpx(stops: Piano[], name: string, origin: string): string {
+  const located = stops.filter(piano => trailPoint(piano));
+  const point = (tag: 'wpt' | 'rtept', piano: Piano, index: number) => {
+    const [lat, lng] = trailPoint(piano)!;
+    return [
+      `  <${tag} lat="${lat.toFixed(6)}" lon="${lng.toFixed(6)}">`,
+      `    <name>${escapeXml(`${index + 1}. ${piano.piano_title}`)}</name>`,
+      `    <desc>${escapeXml(`by ${piano.artist_name}`)}</desc>`,
+      `    <link href="${escapeXml(`${origin}/piano/${piano.piano_url}`)}"><text>View piano</text></link>`,
+      `  </${tag}>`
+    ].map(line => (tag === 'rtept' ? `  ${line}` : line)).join('\n');
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Sing for Hope Pianos" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    ...located.map((piano, index) => point('wpt', piano, index)),
+    '  <rte>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...located.map((piano, index) => point('rtept', piano, index)),
+    '  </rte>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,120 @@
+import { isColorFamily, type ColorFamily } from './palette';
+import { TAG_SLUG_PATTERN } from './tags';
+import type { MapViewport } from './map-providers';
+
+// What the piano map and gallery are showing, kept in the query string so it can be shared:
+// ?year=2024&program=12&color=blue&tag=nature&search=bach&view=gallery&piano=345&page=2&map=40.71,-73.95,13
+
+export interface MapView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export interface PianoBrowseState {
+  year: number | null;
+  program: number | null;
+  colors: ColorFamily[];
+  tags: string[];
+  search: string;
+  view: 'map' | 'gallery';
+  piano: number | null; // id of the open piano
+  page: number; // gallery pages loaded
+  map: MapView | null;
+}
+
+export const DEFAULT_BROWSE_STATE: PianoBrowseState = {
+  year: null,
+  program: null,
+  colors: [],
+  tags: [],
+  search: '',
+  view: 'map',
+  piano: null,
+  page: 1,
+  map: null
+};
+
+const BROWSE_PARAMS = ['year', 'program', 'color', 'tag', 'search', 'view', 'piano', 'page', 'map'];
+
+// Typing, panning and loading more replace the current history entry; every other change adds
+// one, so the back button steps through filters and selections rather than each keystroke
+const REPLACE_PARAMS = ['search', 'map', 'page'];
+
+function positiveInt(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const number = parseInt(value, 10);
+  return number > 0 ? number : null;
+}
+
+function list(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+export function parseMapView(value: string | null): MapView | null {
+  const [lat, lng, zoom] = list(value).map(Number);
+  if ([lat, lng, zoom].some(number => number === undefined || isNaN(number))) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > 22) return null;
+  return { lat, lng, zoom };
+}
+
+// Shared links come from anywhere, so anything unrecognised falls back to the default
+export function parseBrowseState(params: URLSearchParams): PianoBrowseState {
+  return {
+    year: positiveInt(params.get('year')),
+    program: positiveInt(params.get('program')),
+    colors: list(params.get('color')).filter(isColorFamily),
+    tags: list(params.get('tag')).filter(slug => TAG_SLUG_PATTERN.test(slug)),
+    search: params.get('search')?.trim() || '',
+    view: params.get('view') === 'gallery' ? 'gallery' : 'map',
+    piano: positiveInt(params.get('piano')),
+    page: positiveInt(params.get('page')) || 1,
+    map: parseMapView(params.get('map'))
+  };
+}
+
+// Defaults are left out to keep links short
+export function browseStateToParams(state: PianoBrowseState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.year !== null) params.set('year', String(state.year));
+  if (state.program !== null) params.set('program', String(state.program));
+  if (state.colors.length) params.set('color', state.colors.join(','));
+  if (state.tags.length) params.set('tag', state.tags.join(','));
+  if (state.search.trim()) params.set('search', state.search.trim());
+  if (state.view !== 'map') params.set('view', state.view);
+  if (state.piano !== null) params.set('piano', String(state.piano));
+  if (state.page > 1) params.set('page', String(state.page));
+  if (state.map) params.set('map', `${state.map.lat},${state.map.lng},${state.map.zoom}`);
+  return params;
+}
+
+// The centre and zoom of a map viewport, rounded to about a metre
+export function viewportCenter(viewport: MapViewport): MapView {
+  const [west, south, east, north] = viewport.bounds;
+  const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+  return {
+    lat: round((south + north) / 2, 5),
+    lng: round((west + east) / 2, 5),
+    zoom: round(viewport.zoom, 2)
+  };
+}
+
+export function readBrowseState(): PianoBrowseState {
+  return parseBrowseState(new URLSearchParams(window.location.search));
+}
+
+// Other parameters, such as a shared trail, are left as they are
+export function writeBrowseState(state: PianoBrowseState): void {
+  const url = new URL(window.location.href);
+  BROWSE_PARAMS.forEach(key => url.searchParams.delete(key));
+  browseStateToParams(state).forEach((value, key) => url.searchParams.set(key, value));
+  if (url.search === window.location.search) return;
+
+  const current = new URLSearchParams(window.location.search);
+  const isNewStep = BROWSE_PARAMS
+    .filter(key => !REPLACE_PARAMS.includes(key))
+    .some(key => current.get(key) !== url.searchParams.get(key));
+
+  if (isNewStep) window.history.pushState(window.history.state, '', url);
+  else window.history.replaceState(window.history.state, '', url);
+}
@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { requireStaff, getSupabaseServiceClient } from '../../../../lib/admin-auth';
+
+// Merge duplicate artists into one. Pianos move to the target, and the merged records
+// are kept with merged_into_id so their old slugs redirect and their spellings keep matching.
+// Sources that were already merged into another artist are rejected.
+// POST { targetId: number, sourceIds: number[] }
+export const POST: APIRoute = async ({ request, cookies }) => {
+  try {
+    const auth = await requireStaff(cookies, ['admin']);
+    if (auth instanceof Response) return auth;
+
+    const { targetId, sourceIds } = await request.json();
+    const sources = Array.isArray(sourceIds)
+      ? [...new Set(sourceIds.map(Number).filter(id => Number.isInteger(id) && id !== Number(targetId)))]
+      : [];
+
+    if (!Number.isInteger(Number(targetId)) || sources.length === 0) {
+      return new Response(JSON.stringify({ error: 'targetId and at least one other sourceId are required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // One transaction in merge_artists, so a failure part-way leaves nothing half merged
+    const { data, error } = await getSupabaseServiceClient()
+      .rpc('merge_artists', { target_id: Number(targetId), source_ids: sources });
+
+    if (error?.code === 'P0002') {
+      return new Response(JSON.stringify({ error: 'Artist not found or already merged' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (error) throw error;
+
+    return new Response(JSON.stringify({
+      success: true,
+      artist: data.artist,
+      merged: sources.length,
+      pianosMoved: data.pianos_moved
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Artist merge API error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,129 @@
+import type { APIRoute } from 'astro';
+import { requireStaff, getSupabaseServiceClient } from '../../../../lib/admin-auth';
+import { parseImportFile, planImport, type ExistingPiano, type ImportFormat } from '../../../../lib/piano-import';
+
+const MAX_CONTENT_LENGTH = 2 * 1024 * 1024;
+const PAGE_SIZE = 1000;
+
+// Load every existing piano in pages, since PostgREST caps a single response
+async function fetchExistingPianos(client: ReturnType<typeof getSupabaseServiceClient>) {
+  const pianos: ExistingPiano[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('pianos')
+      .select('id, piano_title, artist_name, piano_year, piano_program, perm_lat, perm_lng, piano_image, piano_url')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    pianos.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return pianos;
+}
+
+// Dry-run or commit a bulk piano import.
+// POST { format: 'csv' | 'geojson', content: string, commit?: boolean }
+export const POST: APIRoute = async ({ request, cookies }) => {
+  try {
+    const auth = await requireStaff(cookies, ['admin']);
+    if (auth instanceof Response) return auth;
+
+    const { format, content, commit } = await request.json();
+
+    if (format !== 'csv' && format !== 'geojson') {
+      return new Response(JSON.stringify({ error: 'format must be "csv" or "geojson"' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (typeof content !== 'string' || !content.trim() || content.length > MAX_CONTENT_LENGTH) {
+      return new Response(JSON.stringify({ error: 'File is empty or larger than 2 MB' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    let records;
+    try {
+      records = parseImportFile(format as ImportFormat, content);
+    } catch (parseError) {
+      return new Response(JSON.stringify({
+        error: parseError instanceof Error ? parseError.message : 'Could not parse file'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const serviceSupabase = getSupabaseServiceClient();
+
+    const [existing, { data: programs, error: programsError }, { data: history, error: historyError }] = await Promise.all([
+      fetchExistingPianos(serviceSupabase),
+      serviceSupabase.from('piano_activations').select('id, act_title'),
+      serviceSupabase.from('slug_history').select('slug, entity_id').eq('entity_type', 'piano')
+    ]);
+
+    if (programsError) throw programsError;
+    if (historyError) throw historyError;
+
+    const renamedSlugs = new Map<string, number>((history || []).map(entry => [entry.slug, entry.entity_id]));
+
+    // The plan is always recomputed server-side, so a commit never trusts a stale client diff
+    const plan = planImport(records, existing, programs || [], renamedSlugs);
+
+    if (!commit) {
+      return new Response(JSON.stringify({ dryRun: true, ...plan }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const inserts = plan.rows.filter(r => r.action === 'insert').map(r => r.record);
+    const updates = plan.rows.filter(r => r.action === 'update');
+
+    if (inserts.length) {
+      const { error: insertError } = await serviceSupabase.from('pianos').insert(inserts);
+      if (insertError) {
+        console.error('Piano import insert error:', insertError);
+        return new Response(JSON.stringify({ error: 'Failed to insert pianos', details: insertError.message }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    const failedUpdates: number[] = [];
+    for (const row of updates) {
+      const changes = Object.fromEntries(row.changes.map(change => [change.field, change.to]));
+      const { error: updateError } = await serviceSupabase
+        .from('pianos')
+        .update(changes)
+        .eq('id', row.existingId);
+
+      if (updateError) {
+        console.error(`Piano import update error (row ${row.row}):`, updateError);
+        failedUpdates.push(row.row);
+      }
+    }
+
+    return new Response(JSON.stringify({
+      dryRun: false,
+      ...plan,
+      inserted: inserts.length,
+      updated: updates.length - failedUpdates.length,
+      failedUpdates
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Piano import API error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
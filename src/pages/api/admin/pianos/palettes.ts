@@ -0,0 +1,36 @@
+import type { APIRoute } from 'astro';
+import { requireStaff, getSupabaseServiceClient } from '../../../../lib/admin-auth';
+import { refreshPianoPalettes } from '../../../../lib/palette-extract';
+
+// Stop starting new images after this, well inside the function time limit
+const JOB_BUDGET_MS = 8000;
+
+// Compute colour palettes for pianos with new or changed cover images, a batch per call.
+// Vercel Cron calls GET hourly with the CRON_SECRET bearer token; staff can POST to run a batch now.
+const runPaletteJob: APIRoute = async ({ request, cookies }) => {
+  try {
+    const cronSecret = import.meta.env.CRON_SECRET;
+    const fromCron = Boolean(cronSecret) && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+    if (!fromCron) {
+      const auth = await requireStaff(cookies);
+      if (auth instanceof Response) return auth;
+    }
+
+    const result = await refreshPianoPalettes(getSupabaseServiceClient(), JOB_BUDGET_MS);
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Palette job API error:', error);
+    return new Response(JSON.stringify({ error: 'Failed to compute piano palettes' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+export const GET = runPaletteJob;
+export const POST = runPaletteJob;
@@ -0,0 +1,99 @@
+import type { APIRoute } from 'astro';
+import { requireStaff } from '../../../lib/admin-auth';
+import { supabase, type Artist, type Program } from '../../../lib/supabase';
+import { pianoArtistName } from '../../../lib/artists';
+import { loadPlacardCopy, placardLanguage, placardShortUrl } from '../../../lib/placards';
+import { renderPlacardsPdf } from '../../../lib/placard-pdf';
+import { slugify } from '../../../lib/utils';
+
+interface PlacardPiano {
+  id: number;
+  piano_title: string;
+  piano_url: string;
+  piano_statement: string | null;
+  piano_program: number | null;
+  artist_name: string;
+  artists: Pick<Artist, 'name'> | null;
+}
+
+// Print-ready placards as one PDF, a US Letter page per piano
+// GET /api/admin/placards?piano=12,13 or ?program=34
+export const GET: APIRoute = async ({ url, cookies }) => {
+  try {
+    const auth = await requireStaff(cookies);
+    if (auth instanceof Response) return auth;
+
+    const pianoIds = (url.searchParams.get('piano') || '')
+      .split(',')
+      .map(id => parseInt(id, 10))
+      .filter(id => !isNaN(id));
+    const programId = parseInt(url.searchParams.get('program') || '', 10);
+
+    if (!pianoIds.length && isNaN(programId)) {
+      return new Response(JSON.stringify({ error: 'A piano or program id is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    let query = supabase
+      .from('pianos')
+      .select('id, piano_title, piano_url, piano_statement, piano_program, artist_name, artists (name)')
+      .order('piano_title', { ascending: true });
+    query = pianoIds.length ? query.in('id', pianoIds) : query.eq('piano_program', programId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // Embedded many-to-one relations come back typed as arrays without generated types
+    const pianos = (data || []) as unknown as PlacardPiano[];
+    if (!pianos.length) {
+      return new Response(JSON.stringify({ error: 'No pianos found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const programIds = [...new Set(pianos.map(piano => piano.piano_program).filter((id): id is number => id != null))];
+    const { data: programData, error: programError } = programIds.length
+      ? await supabase.from('piano_activations').select('id, act_title, act_language').in('id', programIds)
+      : { data: [], error: null };
+    if (programError) throw programError;
+    const programs = new Map(((programData || []) as Program[]).map(program => [program.id, program]));
+
+    const english = await loadPlacardCopy('en');
+    const placards = await Promise.all(pianos.map(async piano => {
+      const program = piano.piano_program != null ? programs.get(piano.piano_program) : undefined;
+      const local = placardLanguage(program?.act_language);
+      return {
+        title: piano.piano_title,
+        artistName: pianoArtistName(piano),
+        programTitle: program?.act_title || null,
+        statement: piano.piano_statement,
+        english,
+        local: local ? await loadPlacardCopy(local) : null,
+        shortUrl: placardShortUrl(piano.id) // always the live site: placards outlast preview deploys
+      };
+    }));
+
+    const filename = pianos.length === 1
+      ? `placard-${pianos[0].piano_url}`
+      : `placards-${slugify(placards[0].programTitle || '') || 'pianos'}`;
+    const pdf = await renderPlacardsPdf(placards, filename);
+
+    return new Response(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}.pdf"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Placards API error:', error);
+    return new Response(JSON.stringify({ error: 'Failed to render placards' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
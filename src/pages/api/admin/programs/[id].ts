@@ -0,0 +1,48 @@
+import type { APIRoute } from 'astro';
+import { requireStaff, getSupabaseServiceClient } from '../../../../lib/admin-auth';
+import { LANGUAGES } from '../../../../lib/i18n';
+
+// Set the second language printed on a program's placards
+// PATCH { language: 'es' | 'fr' | 'ar' | 'zh' | null }
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  try {
+    const auth = await requireStaff(cookies);
+    if (auth instanceof Response) return auth;
+
+    const programId = parseInt(params.id || '', 10);
+    const { language } = await request.json();
+
+    if (isNaN(programId) || (language !== null && !Object.hasOwn(LANGUAGES, language))) {
+      return new Response(JSON.stringify({ error: 'A valid program id and language are required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data: program, error } = await getSupabaseServiceClient()
+      .from('piano_activations')
+      .update({ act_language: language === 'en' ? null : language })
+      .eq('id', programId)
+      .select('id, act_title, act_language')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!program) {
+      return new Response(JSON.stringify({ error: 'Program not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true, program }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Admin program API error:', error);
+    return new Response(JSON.stringify({ error: 'Failed to update program' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
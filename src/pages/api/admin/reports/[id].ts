@@ -0,0 +1,71 @@
+import type { APIRoute } from 'astro';
+import { requireStaff, getSupabaseServiceClient } from '../../../../lib/admin-auth';
+import { isReportStatus } from '../../../../lib/piano-reports';
+import { notifyReporter } from '../../../../lib/report-notifications';
+
+// Move a maintenance ticket along and let the reporter know
+// PATCH { status: ReportStatus, scheduledFor?: string | null, resolutionNote?: string | null }
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  try {
+    const auth = await requireStaff(cookies);
+    if (auth instanceof Response) return auth;
+
+    const reportId = parseInt(params.id || '', 10);
+    const { status, scheduledFor, resolutionNote } = await request.json();
+
+    if (isNaN(reportId) || !isReportStatus(status)) {
+      return new Response(JSON.stringify({ error: 'A valid report id and status are required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const serviceSupabase = getSupabaseServiceClient();
+
+    const { data: existing, error: existingError } = await serviceSupabase
+      .from('piano_reports')
+      .select('status, resolved_at')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'Report not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data: report, error: updateError } = await serviceSupabase
+      .from('piano_reports')
+      .update({
+        status,
+        scheduled_for: scheduledFor || null,
+        resolution_note: resolutionNote?.trim() || null,
+        resolved_at: status === 'resolved' ? existing.resolved_at || new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', reportId)
+      .select('*, pianos (piano_title, piano_url)')
+      .single();
+
+    if (updateError) throw updateError;
+
+    // Only a change of status is worth an email; note edits are internal
+    if (existing.status !== status && report.pianos) {
+      await notifyReporter({ report, piano: report.pianos, origin: new URL(request.url).origin });
+    }
+
+    const { pianos, status_token, ...ticket } = report;
+    return new Response(JSON.stringify({ success: true, report: ticket }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Report update API error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,48 @@
+import type { APIRoute } from 'astro';
+import { supabase } from '../../../../lib/supabase';
+import { normalizeImageUrl } from '../../../../lib/piano-images';
+import { renderOgCard, OG_CACHE_CONTROL } from '../../../../lib/og-image';
+
+// 1200×630 social card for a news article, cached at the edge
+// GET /api/og/news/:news_url
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const { data: article, error } = await supabase
+      .from('news')
+      .select('news_title, news_image, news_date, news_author')
+      .eq('news_url', params.news_url || '')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!article) {
+      return new Response(JSON.stringify({ error: 'Article not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const date = article.news_date
+      ? new Date(article.news_date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+      : null;
+
+    const image = await renderOgCard({
+      kicker: 'Sing for Hope News',
+      title: article.news_title,
+      subtitle: [date, article.news_author].filter(Boolean).join(' · '),
+      imageUrl: article.news_image ? normalizeImageUrl(article.news_image) : null,
+      accent: '#38516a'
+    });
+
+    return new Response(new Uint8Array(image), {
+      status: 200,
+      headers: { 'Content-Type': 'image/jpeg', 'Cache-Control': OG_CACHE_CONTROL }
+    });
+  } catch (error) {
+    console.error('News OG image error:', error);
+    return new Response(JSON.stringify({ error: 'Failed to render image' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
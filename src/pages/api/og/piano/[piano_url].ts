@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import { supabase, type Artist } from '../../../../lib/supabase';
+import { pianoArtistName } from '../../../../lib/artists';
+import { normalizeImageUrl } from '../../../../lib/piano-images';
+import { renderOgCard, OG_CACHE_CONTROL } from '../../../../lib/og-image';
+
+// 1200×630 social card for a piano page, cached at the edge
+// GET /api/og/piano/:piano_url
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const { data: piano, error } = await supabase
+      .from('pianos')
+      .select('piano_title, piano_year, piano_image, artist_name, artists (name)')
+      .eq('piano_url', params.piano_url || '')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!piano) {
+      return new Response(JSON.stringify({ error: 'Piano not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Embedded many-to-one relations come back typed as arrays without generated types
+    const artistName = pianoArtistName({
+      artist_name: piano.artist_name,
+      artists: piano.artists as unknown as Pick<Artist, 'name'> | null
+    });
+
+    const image = await renderOgCard({
+      kicker: 'Sing for Hope Pianos',
+      title: piano.piano_title,
+      subtitle: [artistName && `by ${artistName}`, piano.piano_year].filter(Boolean).join(' · '),
+      imageUrl: piano.piano_image ? normalizeImageUrl(piano.piano_image) : null
+    });
+
+    return new Response(new Uint8Array(image), {
+      status: 200,
+      headers: { 'Content-Type': 'image/jpeg', 'Cache-Control': OG_CACHE_CONTROL }
+    });
+  } catch (error) {
+    console.error('Piano OG image error:', error);
+    return new Response(JSON.stringify({ error: 'Failed to render image' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,34 @@
+import type { APIRoute } from 'astro';
+import { queryPianos } from '../../lib/supabase';
+import { parsePianoQuery } from '../../lib/piano-query';
+
+// Query pianos with filters, bounding box, sort and cursor pagination.
+// GET /api/pianos?program=34,35&site=12&yearFrom=2020&yearTo=2024&artist=&q=&bbox=w,s,e,n&status=public_display&color=blue,green&tag=nature,mural&sort=year_desc&limit=50&cursor=
+export const GET: APIRoute = async ({ url }) => {
+  const { query, error } = parsePianoQuery(url.searchParams);
+
+  if (error) {
+    return new Response(JSON.stringify({ error }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const result = await queryPianos(query!);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=60, s-maxage=300, stale-while-revalidate=600'
+      }
+    });
+  } catch (err) {
+    console.error('Pianos API error:', err);
+    return new Response(JSON.stringify({ error: 'Failed to fetch pianos' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,126 @@
+import type { APIRoute } from 'astro';
+import { getSupabaseClient, getSupabaseServiceClient } from '../../../../lib/admin-auth';
+import { stripHtml } from '../../../../lib/security';
+import {
+  CHECKIN_BUCKET,
+  CHECKIN_NAME_MAX,
+  CHECKIN_NOTE_MAX,
+  checkinMediaType
+} from '../../../../lib/checkins';
+import { hashClientAddress, isRateLimited } from '../../../../lib/rate-limit';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm'
+};
+
+// Post an "I played this piano" check-in. It is held for moderation before it is shown.
+// POST { displayName?: string, note?: string, mediaPath?: string, website?: string (honeypot) }
+export const POST: APIRoute = async ({ params, request, clientAddress, cookies }) => {
+  try {
+    const pianoId = parseInt(params.id || '', 10);
+    const { displayName, note, mediaPath, website } = await request.json();
+
+    // Bots fill in every field; people never see this one
+    if (website) {
+      return new Response(JSON.stringify({ success: true, status: 'pending' }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const cleanName = stripHtml(String(displayName || '')).trim().slice(0, CHECKIN_NAME_MAX);
+    const cleanNote = stripHtml(String(note || '')).trim();
+
+    if (isNaN(pianoId) || cleanNote.length > CHECKIN_NOTE_MAX) {
+      return new Response(JSON.stringify({ error: `Notes can be up to ${CHECKIN_NOTE_MAX} characters` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Media must be a fresh upload for this piano from the signed-URL endpoint
+    const mediaExtension = typeof mediaPath === 'string' ? mediaPath.split('.').pop() || '' : '';
+    const mediaType = mediaPath ? checkinMediaType(MIME_BY_EXTENSION[mediaExtension] || '') : null;
+    if (mediaPath && (!mediaType || !String(mediaPath).startsWith(`pending/${pianoId}/`) || mediaPath.includes('..'))) {
+      return new Response(JSON.stringify({ error: 'Invalid media upload' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const serviceSupabase = getSupabaseServiceClient();
+    const ipHash = await hashClientAddress(clientAddress);
+
+    if (await isRateLimited(serviceSupabase, 'piano_checkins', ipHash)) {
+      return new Response(JSON.stringify({ error: 'Too many check-ins. Please try again later.' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data: piano, error: pianoError } = await serviceSupabase
+      .from('pianos')
+      .select('id')
+      .eq('id', pianoId)
+      .maybeSingle();
+
+    if (pianoError) throw pianoError;
+    if (!piano) {
+      return new Response(JSON.stringify({ error: 'Piano not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (mediaPath) {
+      const folder = mediaPath.slice(0, mediaPath.lastIndexOf('/'));
+      const fileName = mediaPath.slice(mediaPath.lastIndexOf('/') + 1);
+      const { data: files, error: listError } = await serviceSupabase.storage
+        .from(CHECKIN_BUCKET)
+        .list(folder, { search: fileName, limit: 1 });
+
+      if (listError) throw listError;
+      if (!files?.length) {
+        return new Response(JSON.stringify({ error: 'Upload not found. Please attach the file again.' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Signed-in players are linked to their profile; everyone else posts anonymously
+    const { data: { session } } = await getSupabaseClient(cookies).auth.getSession();
+
+    const { error: insertError } = await serviceSupabase
+      .from('piano_checkins')
+      .insert({
+        piano_id: pianoId,
+        user_id: session?.user.id || null,
+        display_name: cleanName || null,
+        note: cleanNote || null,
+        media_path: mediaPath || null,
+        media_type: mediaType,
+        ip_hash: ipHash
+      });
+
+    if (insertError) throw insertError;
+
+    return new Response(JSON.stringify({ success: true, status: 'pending' }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Check-in API error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
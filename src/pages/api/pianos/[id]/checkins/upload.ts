@@ -0,0 +1,78 @@
+import type { APIRoute } from 'astro';
+import { getSupabaseServiceClient } from '../../../../../lib/admin-auth';
+import {
+  CHECKIN_BUCKET,
+  checkinMediaType,
+  validateCheckinMedia
+} from '../../../../../lib/checkins';
+import { hashClientAddress, isRateLimited } from '../../../../../lib/rate-limit';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm'
+};
+
+// Issue a signed upload URL for a check-in photo or video. The browser uploads
+// straight to storage, which keeps large videos off the serverless function.
+// POST { contentType: string, size: number }
+export const POST: APIRoute = async ({ params, request, clientAddress }) => {
+  try {
+    const pianoId = parseInt(params.id || '', 10);
+    const { contentType, size } = await request.json();
+
+    const invalid = isNaN(pianoId) ? 'Invalid piano id' : validateCheckinMedia(contentType, Number(size));
+    if (invalid) {
+      return new Response(JSON.stringify({ error: invalid }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const serviceSupabase = getSupabaseServiceClient();
+    const ipHash = await hashClientAddress(clientAddress);
+
+    // Upload slots are limited on their own, not only by the check-ins that follow them
+    if (
+      await isRateLimited(serviceSupabase, 'piano_checkin_uploads', ipHash) ||
+      await isRateLimited(serviceSupabase, 'piano_checkins', ipHash)
+    ) {
+      return new Response(JSON.stringify({ error: 'Too many check-ins. Please try again later.' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const path = `pending/${pianoId}/${crypto.randomUUID()}.${EXTENSIONS[contentType]}`;
+    const { error: logError } = await serviceSupabase
+      .from('piano_checkin_uploads')
+      .insert({ piano_id: pianoId, path, ip_hash: ipHash });
+
+    if (logError) throw logError;
+
+    const { data, error } = await serviceSupabase.storage
+      .from(CHECKIN_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error) throw error;
+
+    return new Response(JSON.stringify({
+      path: data.path,
+      token: data.token,
+      mediaType: checkinMediaType(contentType)
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Check-in upload API error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
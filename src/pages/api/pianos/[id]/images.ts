@@ -0,0 +1,55 @@
+import type { APIRoute } from 'astro';
+import { fetchPianoImages, supabase } from '../../../../lib/supabase';
+import { coverAsGallery } from '../../../../lib/piano-images';
+import { toResponsiveImages } from '../../../../lib/responsive-image';
+
+// Gallery images for one piano with optimized srcsets, for client-side views like PianoDetailModal.
+// GET /api/pianos/42/images?sizes=(min-width:640px)448px,100vw
+export const GET: APIRoute = async ({ params, url }) => {
+  const pianoId = parseInt(params.id || '', 10);
+
+  if (isNaN(pianoId)) {
+    return new Response(JSON.stringify({ error: 'Invalid piano id' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    let images = await fetchPianoImages(pianoId);
+
+    if (!images.length) {
+      const { data: piano, error } = await supabase
+        .from('pianos')
+        .select('id, piano_title, piano_image')
+        .eq('id', pianoId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!piano) {
+        return new Response(JSON.stringify({ error: 'Piano not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      images = coverAsGallery(piano);
+    }
+
+    const sizes = url.searchParams.get('sizes') || undefined;
+    const items = await toResponsiveImages(images, sizes);
+
+    return new Response(JSON.stringify({ items }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400'
+      }
+    });
+  } catch (err) {
+    console.error('Piano images API error:', err);
+    return new Response(JSON.stringify({ error: 'Failed to fetch piano images' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
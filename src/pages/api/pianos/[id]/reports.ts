@@ -0,0 +1,137 @@
+import type { APIRoute } from 'astro';
+import { getSupabaseServiceClient } from '../../../../lib/admin-auth';
+import { stripHtml } from '../../../../lib/security';
+import {
+  REPORT_BUCKET,
+  REPORT_DESCRIPTION_MAX,
+  REPORT_NAME_MAX,
+  generateReportTicketId,
+  isReportIssueType,
+  reportStatusUrl
+} from '../../../../lib/piano-reports';
+import { notifyCoordinator, notifyReporter } from '../../../../lib/report-notifications';
+import { hashClientAddress, isRateLimited } from '../../../../lib/rate-limit';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Report a problem with a piano. Creates a maintenance ticket and notifies the site coordinator.
+// POST { issueType, description?, photoPath?, reporterName?, reporterEmail?, website? (honeypot) }
+export const POST: APIRoute = async ({ params, request, clientAddress }) => {
+  try {
+    const pianoId = parseInt(params.id || '', 10);
+    const { issueType, description, photoPath, reporterName, reporterEmail, website } = await request.json();
+
+    // Bots fill in every field; people never see this one. Answer like a real report.
+    if (website) {
+      return new Response(JSON.stringify({ ticketId: generateReportTicketId(), status: 'reported', statusUrl: '/' }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const cleanDescription = stripHtml(String(description || '')).trim();
+    const cleanName = stripHtml(String(reporterName || '')).trim().slice(0, REPORT_NAME_MAX);
+    const cleanEmail = String(reporterEmail || '').trim().toLowerCase();
+
+    let invalid: string | null = null;
+    if (isNaN(pianoId)) invalid = 'Invalid piano id';
+    else if (!isReportIssueType(issueType)) invalid = 'Choose what is wrong with the piano';
+    else if (cleanDescription.length > REPORT_DESCRIPTION_MAX) invalid = `Descriptions can be up to ${REPORT_DESCRIPTION_MAX} characters`;
+    else if (cleanEmail && !EMAIL_PATTERN.test(cleanEmail)) invalid = 'Enter a valid email address or leave it blank';
+    else if (photoPath && (typeof photoPath !== 'string' || !photoPath.startsWith(`${pianoId}/`) || photoPath.includes('..'))) invalid = 'Invalid photo upload';
+
+    if (invalid) {
+      return new Response(JSON.stringify({ error: invalid }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const serviceSupabase = getSupabaseServiceClient();
+    const ipHash = await hashClientAddress(clientAddress);
+
+    if (await isRateLimited(serviceSupabase, 'piano_reports', ipHash)) {
+      return new Response(JSON.stringify({ error: 'Too many reports. Please try again later.' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data: piano, error: pianoError } = await serviceSupabase
+      .from('pianos')
+      .select('id, piano_title, piano_url, piano_site')
+      .eq('id', pianoId)
+      .maybeSingle();
+
+    if (pianoError) throw pianoError;
+    if (!piano) {
+      return new Response(JSON.stringify({ error: 'Piano not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (photoPath) {
+      const fileName = photoPath.slice(photoPath.lastIndexOf('/') + 1);
+      const { data: files, error: listError } = await serviceSupabase.storage
+        .from(REPORT_BUCKET)
+        .list(String(pianoId), { search: fileName, limit: 1 });
+
+      if (listError) throw listError;
+      if (!files?.length) {
+        return new Response(JSON.stringify({ error: 'Photo not found. Please attach it again.' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    const { data: site } = piano.piano_site
+      ? await serviceSupabase
+        .from('piano_sites')
+        .select('id, site_title, coordinator_name, coordinator_email')
+        .eq('id', piano.piano_site)
+        .maybeSingle()
+      : { data: null };
+
+    const { data: report, error: insertError } = await serviceSupabase
+      .from('piano_reports')
+      .insert({
+        ticket_id: generateReportTicketId(),
+        piano_id: pianoId,
+        site_id: site?.id || null,
+        issue_type: issueType,
+        description: cleanDescription || null,
+        photo_path: photoPath || null,
+        reporter_name: cleanName || null,
+        reporter_email: cleanEmail || null,
+        ip_hash: ipHash
+      })
+      .select('*')
+      .single();
+
+    if (insertError) throw insertError;
+
+    const origin = new URL(request.url).origin;
+    await Promise.all([
+      notifyCoordinator({ report, piano, site, origin }),
+      notifyReporter({ report, piano, origin })
+    ]);
+
+    return new Response(JSON.stringify({
+      ticketId: report.ticket_id,
+      status: report.status,
+      statusUrl: reportStatusUrl(report.ticket_id, report.status_token)
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Piano report API error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
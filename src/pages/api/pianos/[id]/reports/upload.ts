@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro';
+import { getSupabaseServiceClient } from '../../../../../lib/admin-auth';
+import { REPORT_BUCKET, validateReportPhoto } from '../../../../../lib/piano-reports';
+import { hashClientAddress, isRateLimited } from '../../../../../lib/rate-limit';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic'
+};
+
+// Issue a signed upload URL for a problem report photo
+// POST { contentType: string, size: number }
+export const POST: APIRoute = async ({ params, request, clientAddress }) => {
+  try {
+    const pianoId = parseInt(params.id || '', 10);
+    const { contentType, size } = await request.json();
+
+    const invalid = isNaN(pianoId) ? 'Invalid piano id' : validateReportPhoto(contentType, Number(size));
+    if (invalid) {
+      return new Response(JSON.stringify({ error: invalid }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const serviceSupabase = getSupabaseServiceClient();
+
+    if (await isRateLimited(serviceSupabase, 'piano_reports', await hashClientAddress(clientAddress))) {
+      return new Response(JSON.stringify({ error: 'Too many reports. Please try again later.' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data, error } = await serviceSupabase.storage
+      .from(REPORT_BUCKET)
+      .createSignedUploadUrl(`${pianoId}/${crypto.randomUUID()}.${EXTENSIONS[contentType]}`);
+
+    if (error) throw error;
+
+    return new Response(JSON.stringify({ path: data.path, token: data.token }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Report upload API error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
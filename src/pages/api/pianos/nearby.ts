@@ -0,0 +1,34 @@
+import type { APIRoute } from 'astro';
+import { queryNearbyPianos } from '../../../lib/supabase';
+import { parseNearbyQuery } from '../../../lib/piano-query';
+
+// Pianos within a radius of a point, closest first, each with its distance.
+// GET /api/pianos/nearby?lat=37.77&lng=-122.42&radius=10&unit=km&limit=20&program=34&yearFrom=2020&yearTo=2024
+export const GET: APIRoute = async ({ url }) => {
+  const { query, error } = parseNearbyQuery(url.searchParams);
+
+  if (error) {
+    return new Response(JSON.stringify({ error }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const result = await queryNearbyPianos(query!);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=60, s-maxage=300, stale-while-revalidate=600'
+      }
+    });
+  } catch (err) {
+    console.error('Nearby pianos API error:', err);
+    return new Response(JSON.stringify({ error: 'Failed to fetch nearby pianos' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
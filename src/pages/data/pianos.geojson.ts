@@ -0,0 +1,52 @@
+import type { APIRoute } from 'astro';
+import { queryAllPianos } from '../../lib/supabase';
+import { parsePianoQuery } from '../../lib/piano-query';
+import { pianosToFeatureCollection } from '../../lib/geojson';
+
+// Live GeoJSON FeatureCollection of located pianos for partner GIS tools and our map variants.
+// GET /data/pianos.geojson?program=34&year=2024 (or yearFrom/yearTo)
+export const GET: APIRoute = async ({ url, request }) => {
+  const params = new URLSearchParams(url.searchParams);
+
+  // Single-year shortcut
+  const year = params.get('year');
+  if (year) {
+    params.set('yearFrom', year);
+    params.set('yearTo', year);
+  }
+
+  const { query, error } = parsePianoQuery(params);
+  if (error) {
+    return new Response(JSON.stringify({ error }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const pianos = await queryAllPianos({ ...query, located: true, cursor: null });
+    const body = JSON.stringify(pianosToFeatureCollection(pianos));
+
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+    const etag = `"${Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')}"`;
+
+    const headers = {
+      'Content-Type': 'application/geo+json; charset=utf-8',
+      'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+      'Access-Control-Allow-Origin': '*',
+      'ETag': etag
+    };
+
+    if (request.headers.get('If-None-Match') === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, { status: 200, headers });
+  } catch (err) {
+    console.error('GeoJSON export error:', err);
+    return new Response(JSON.stringify({ error: 'Failed to generate GeoJSON' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
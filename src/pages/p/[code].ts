@@ -0,0 +1,41 @@
+import type { APIRoute } from 'astro';
+import { supabase } from '../../lib/supabase';
+import { getSupabaseServiceClient } from '../../lib/admin-auth';
+import { pianoIdFromPlacardCode } from '../../lib/placards';
+
+// Placard QR short URL: log the scan (piano and time only) and send the visitor to the piano page
+// GET /p/:code
+export const GET: APIRoute = async ({ params, redirect }) => {
+  const pianoId = pianoIdFromPlacardCode(params.code || '');
+  if (!pianoId) return redirect('/404');
+
+  try {
+    const { data: piano, error } = await supabase
+      .from('pianos')
+      .select('id, piano_url')
+      .eq('id', pianoId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!piano) return redirect('/404');
+
+    // A failed log must never strand someone standing at the piano
+    try {
+      const { error: scanError } = await getSupabaseServiceClient()
+        .from('piano_scans')
+        .insert({ piano_id: piano.id });
+      if (scanError) throw scanError;
+    } catch (scanError) {
+      console.error('Placard scan log error:', scanError);
+    }
+
+    // Every scan has to reach this function, so nothing may cache the redirect
+    return new Response(null, {
+      status: 302,
+      headers: { Location: `/piano/${piano.piano_url}`, 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Placard scan error:', error);
+    return redirect('/pianos');
+  }
+};
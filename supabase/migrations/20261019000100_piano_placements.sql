@@ -0,0 +1,36 @@
+-- Piano lifecycle status and dated placement history
+
+alter table public.pianos
+  add column if not exists lifecycle_status text
+    check (lifecycle_status in ('in_studio', 'public_display', 'permanent_home', 'retired'));
+
+create table if not exists public.piano_placements (
+  id bigint generated by default as identity primary key,
+  piano_id bigint not null references public.pianos(id) on delete cascade,
+  site_id bigint references public.piano_sites(id) on delete set null,
+  status text not null
+    check (status in ('in_studio', 'public_display', 'permanent_home', 'retired')),
+  location_name text,
+  lat double precision,
+  lng double precision,
+  started_on date not null,
+  ended_on date,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ended_on is null or ended_on >= started_on)
+);
+
+create index if not exists piano_placements_piano_id_idx
+  on public.piano_placements (piano_id, started_on);
+
+alter table public.piano_placements enable row level security;
+
+create policy "Placements are publicly readable"
+  on public.piano_placements for select
+  using (true);
+
+create policy "Staff manage placements"
+  on public.piano_placements for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
@@ -0,0 +1,189 @@
+-- First-class artist records, linked from pianos
+
+-- "Jane  Doe" -> "Jane Doe", "Doe, Jane" -> "Jane Doe" (only when the surname is a single word,
+-- so "Jane Doe, John Smith" is left alone). Mirrors normalizeArtistName in src/lib/artists.ts.
+create or replace function public.normalize_artist_name(raw text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when cleaned ~ '^[^,\s]+,\s*[^,]+$'
+      then trim(split_part(cleaned, ',', 2)) || ' ' || split_part(cleaned, ',', 1)
+    else cleaned
+  end
+  from (select regexp_replace(trim(coalesce(raw, '')), '\s+', ' ', 'g') as cleaned) normalized
+$$;
+
+create or replace function public.artist_slug(raw text)
+returns text
+language sql
+immutable
+as $$
+  select trim(both '-' from regexp_replace(lower(public.normalize_artist_name(raw)), '[^[:alnum:]]+', '-', 'g'))
+$$;
+
+create table if not exists public.artists (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  slug text not null unique,
+  bio text,
+  website text,
+  headshot text,
+  profile_id uuid references public.profiles(id) on delete set null,
+  -- Set when this record was merged into another; kept so old slugs and spellings still resolve
+  merged_into_id bigint references public.artists(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (merged_into_id is null or merged_into_id <> id)
+);
+
+create index if not exists artists_profile_id_idx on public.artists (profile_id);
+
+alter table public.pianos
+  add column if not exists artist_id bigint references public.artists(id) on delete set null;
+
+create index if not exists pianos_artist_id_idx on public.pianos (artist_id);
+
+-- Backfill: one artist per slug, named after the most common spelling
+insert into public.artists (name, slug)
+select distinct on (slug) name, slug
+from (
+  select public.normalize_artist_name(artist_name) as name,
+         public.artist_slug(artist_name) as slug,
+         count(*) as uses
+  from public.pianos
+  where public.artist_slug(artist_name) <> ''
+  group by 1, 2
+) spellings
+order by slug, uses desc, name
+on conflict (slug) do nothing;
+
+update public.pianos p
+set artist_id = a.id
+from public.artists a
+where p.artist_id is null
+  and a.slug = public.artist_slug(p.artist_name);
+
+-- Seed profile details from each artist's most recent piano
+update public.artists a
+set headshot = latest.artist_photo,
+    website = latest.artist_website_url,
+    bio = latest.piano_artist_bio
+from (
+  select distinct on (artist_id) artist_id, artist_photo, artist_website_url, piano_artist_bio
+  from public.pianos
+  where artist_id is not null
+  order by artist_id, piano_year desc nulls last, id desc
+) latest
+where latest.artist_id = a.id;
+
+-- Link new or imported pianos to an artist by name, following merges
+create or replace function public.link_piano_artist()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_slug text := public.artist_slug(new.artist_name);
+  target_id bigint;
+begin
+  -- A renamed artist is relinked, unless the same update also picked the artist explicitly
+  if tg_op = 'UPDATE'
+    and new.artist_name is distinct from old.artist_name
+    and new.artist_id is not distinct from old.artist_id then
+    new.artist_id := null;
+  end if;
+
+  if new.artist_id is not null or target_slug = '' then
+    return new;
+  end if;
+
+  select coalesce(merged_into_id, id) into target_id
+  from public.artists
+  where slug = target_slug;
+
+  if target_id is null then
+    insert into public.artists (name, slug)
+    values (public.normalize_artist_name(new.artist_name), target_slug)
+    returning id into target_id;
+  end if;
+
+  new.artist_id := target_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists pianos_link_artist on public.pianos;
+create trigger pianos_link_artist
+  before insert or update of artist_name, artist_id on public.pianos
+  for each row execute function public.link_piano_artist();
+
+alter table public.artists enable row level security;
+
+create policy "Artists are publicly readable"
+  on public.artists for select
+  using (true);
+
+create policy "Staff manage artists"
+  on public.artists for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
+
+-- Merge duplicate artists into one, all or nothing; called by /api/admin/artists/merge.
+-- Pianos move to the target under its spelling, the target keeps any profile details it was
+-- missing, and the sources stay behind with merged_into_id so old slugs and spellings resolve.
+create or replace function public.merge_artists(target_id bigint, source_ids bigint[])
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.artists;
+  pianos_moved integer;
+begin
+  select * into target from public.artists where id = target_id for update;
+
+  perform 1 from public.artists where id = any(source_ids) for update;
+
+  if target.id is null
+    or target.merged_into_id is not null
+    or target_id = any(source_ids)
+    or cardinality(source_ids) = 0
+    or (select count(*) from public.artists where id = any(source_ids) and merged_into_id is null)
+      <> cardinality(source_ids) then
+    raise exception 'Artist not found or already merged' using errcode = 'P0002';
+  end if;
+
+  -- Profile details the target is missing come from the oldest source that has them
+  update public.artists a
+  set bio = coalesce(nullif(a.bio, ''), (select s.bio from public.artists s where s.id = any(source_ids) and nullif(s.bio, '') is not null order by s.id limit 1)),
+      website = coalesce(nullif(a.website, ''), (select s.website from public.artists s where s.id = any(source_ids) and nullif(s.website, '') is not null order by s.id limit 1)),
+      headshot = coalesce(nullif(a.headshot, ''), (select s.headshot from public.artists s where s.id = any(source_ids) and nullif(s.headshot, '') is not null order by s.id limit 1)),
+      profile_id = coalesce(a.profile_id, (select s.profile_id from public.artists s where s.id = any(source_ids) and s.profile_id is not null order by s.id limit 1)),
+      updated_at = now()
+  where a.id = target_id
+  returning * into target;
+
+  update public.pianos
+  set artist_id = target_id, artist_name = target.name
+  where artist_id = any(source_ids);
+  get diagnostics pianos_moved = row_count;
+
+  -- Re-point earlier merges so redirects never chain
+  update public.artists
+  set merged_into_id = target_id
+  where merged_into_id = any(source_ids);
+
+  update public.artists
+  set merged_into_id = target_id, profile_id = null, updated_at = now()
+  where id = any(source_ids);
+
+  return jsonb_build_object('artist', to_jsonb(target), 'pianos_moved', pianos_moved);
+end;
+$$;
+
+-- Only the service role may merge; the API checks for an admin first
+revoke execute on function public.merge_artists(bigint, bigint[]) from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- Details for the /program/[id] landing pages, and news tagged to a program
+
+alter table public.piano_activations
+  add column if not exists act_description text,
+  add column if not exists act_start_date date,
+  add column if not exists act_end_date date,
+  add column if not exists act_image text;
+
+alter table public.piano_activations
+  drop constraint if exists piano_activations_dates_check;
+
+alter table public.piano_activations
+  add constraint piano_activations_dates_check
+    check (act_end_date is null or act_start_date is null or act_end_date >= act_start_date);
+
+alter table public.news
+  add column if not exists news_program bigint references public.piano_activations(id) on delete set null;
+
+create index if not exists news_news_program_idx on public.news (news_program);
@@ -0,0 +1,105 @@
+-- Unique slugs for pianos and news, with a history of previous slugs for permanent redirects
+
+create table if not exists public.slug_history (
+  id bigint generated by default as identity primary key,
+  entity_type text not null check (entity_type in ('piano', 'news')),
+  entity_id bigint not null,
+  slug text not null,
+  created_at timestamptz not null default now(),
+  unique (entity_type, slug)
+);
+
+create index if not exists slug_history_entity_idx on public.slug_history (entity_type, entity_id);
+
+-- Existing duplicates could never be opened (the detail routes expect a single row),
+-- so every copy after the first gets its id appended before uniqueness is enforced
+update public.pianos p
+set piano_url = p.piano_url || '-' || p.id
+where exists (select 1 from public.pianos o where o.piano_url = p.piano_url and o.id < p.id);
+
+update public.news n
+set news_url = n.news_url || '-' || n.id
+where exists (select 1 from public.news o where o.news_url = n.news_url and o.id < n.id);
+
+create unique index if not exists pianos_piano_url_key on public.pianos (piano_url);
+create unique index if not exists news_news_url_key on public.news (news_url);
+
+-- Record the old slug on rename, refuse slugs that still redirect to a different record,
+-- and clean up history when a record is deleted.
+-- Trigger arguments: entity type ('piano' | 'news'), slug column name.
+create or replace function public.track_slug_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  entity text := tg_argv[0];
+  slug_column text := tg_argv[1];
+  new_slug text;
+  old_slug text;
+begin
+  if tg_op = 'DELETE' then
+    delete from slug_history where entity_type = entity and entity_id = old.id;
+    return old;
+  end if;
+
+  new_slug := to_jsonb(new) ->> slug_column;
+  old_slug := case when tg_op = 'UPDATE' then to_jsonb(old) ->> slug_column end;
+
+  if new_slug is null or new_slug is not distinct from old_slug then
+    return new;
+  end if;
+
+  if exists (
+    select 1 from slug_history
+    where entity_type = entity and slug = new_slug and entity_id <> new.id
+  ) then
+    raise exception 'The % slug "%" is reserved as a redirect for another record', entity, new_slug
+      using errcode = '23505';
+  end if;
+
+  -- A record may take back one of its own earlier slugs
+  delete from slug_history where entity_type = entity and slug = new_slug;
+
+  if coalesce(old_slug, '') <> '' then
+    insert into slug_history (entity_type, entity_id, slug)
+    values (entity, new.id, old_slug)
+    on conflict (entity_type, slug) do update
+      set entity_id = excluded.entity_id, created_at = now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists pianos_slug_history on public.pianos;
+create trigger pianos_slug_history
+  before insert or update of piano_url on public.pianos
+  for each row execute function public.track_slug_history('piano', 'piano_url');
+
+drop trigger if exists pianos_slug_history_cleanup on public.pianos;
+create trigger pianos_slug_history_cleanup
+  after delete on public.pianos
+  for each row execute function public.track_slug_history('piano', 'piano_url');
+
+drop trigger if exists news_slug_history on public.news;
+create trigger news_slug_history
+  before insert or update of news_url on public.news
+  for each row execute function public.track_slug_history('news', 'news_url');
+
+drop trigger if exists news_slug_history_cleanup on public.news;
+create trigger news_slug_history_cleanup
+  after delete on public.news
+  for each row execute function public.track_slug_history('news', 'news_url');
+
+alter table public.slug_history enable row level security;
+
+create policy "Slug history is publicly readable"
+  on public.slug_history for select
+  using (true);
+
+create policy "Staff manage slug history"
+  on public.slug_history for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
@@ -0,0 +1,39 @@
+-- Ordered photo galleries per piano
+
+create table if not exists public.piano_images (
+  id bigint generated by default as identity primary key,
+  piano_id bigint not null references public.pianos(id) on delete cascade,
+  position integer not null default 0,
+  src text not null,
+  width integer check (width > 0),
+  height integer check (height > 0),
+  alt text,
+  caption text,
+  credit text,
+  -- Point of interest kept in frame when the image is cropped, as fractions of width/height
+  focal_x real not null default 0.5 check (focal_x between 0 and 1),
+  focal_y real not null default 0.5 check (focal_y between 0 and 1),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists piano_images_piano_id_idx
+  on public.piano_images (piano_id, position);
+
+-- Start every gallery with the piano's existing cover image
+insert into public.piano_images (piano_id, position, src, alt)
+select p.id, 0, p.piano_image, p.piano_title
+from public.pianos p
+where coalesce(trim(p.piano_image), '') <> ''
+  and not exists (select 1 from public.piano_images i where i.piano_id = p.id);
+
+alter table public.piano_images enable row level security;
+
+create policy "Piano images are publicly readable"
+  on public.piano_images for select
+  using (true);
+
+create policy "Staff manage piano images"
+  on public.piano_images for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
@@ -0,0 +1,105 @@
+-- Public "I played this piano" check-ins, moderated before they are shown
+
+create table if not exists public.piano_checkins (
+  id bigint generated by default as identity primary key,
+  piano_id bigint not null references public.pianos(id) on delete cascade,
+  user_id uuid references public.profiles(id) on delete set null,
+  display_name text check (char_length(display_name) <= 60),
+  note text check (char_length(note) <= 500),
+  media_path text,
+  media_type text check (media_type in ('image', 'video')),
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  -- SHA-256 of the submitter's IP, only used to rate-limit anonymous posts
+  ip_hash text,
+  moderated_by uuid references public.profiles(id) on delete set null,
+  moderated_at timestamptz,
+  created_at timestamptz not null default now(),
+  check ((media_path is null) = (media_type is null))
+);
+
+create index if not exists piano_checkins_piano_id_idx on public.piano_checkins (piano_id, status, created_at desc);
+create index if not exists piano_checkins_status_idx on public.piano_checkins (status, created_at);
+create index if not exists piano_checkins_ip_hash_idx on public.piano_checkins (ip_hash, created_at);
+
+-- Every approved check-in counts as a play
+alter table public.pianos
+  add column if not exists times_played integer not null default 0;
+
+create or replace function public.refresh_piano_times_played()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected bigint := coalesce(new.piano_id, old.piano_id);
+begin
+  update pianos
+  set times_played = (
+    select count(*) from piano_checkins
+    where piano_id = affected and status = 'approved'
+  )
+  where id = affected;
+
+  if tg_op = 'UPDATE' and new.piano_id <> old.piano_id then
+    update pianos
+    set times_played = (
+      select count(*) from piano_checkins
+      where piano_id = old.piano_id and status = 'approved'
+    )
+    where id = old.piano_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists piano_checkins_times_played on public.piano_checkins;
+create trigger piano_checkins_times_played
+  after insert or update of status, piano_id or delete on public.piano_checkins
+  for each row execute function public.refresh_piano_times_played();
+
+alter table public.piano_checkins enable row level security;
+
+-- Submissions go through /api/pianos/[id]/checkins with the service role, so there is no public insert policy
+create policy "Approved check-ins are publicly readable"
+  on public.piano_checkins for select
+  using (status = 'approved');
+
+create policy "Staff moderate check-ins"
+  on public.piano_checkins for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
+
+-- Signed upload URLs handed out, so one client can't claim unlimited upload slots
+create table if not exists public.piano_checkin_uploads (
+  id bigint generated by default as identity primary key,
+  piano_id bigint not null,
+  path text not null,
+  ip_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists piano_checkin_uploads_ip_hash_idx on public.piano_checkin_uploads (ip_hash, created_at);
+
+-- Written and read only by the upload endpoint with the service role
+alter table public.piano_checkin_uploads enable row level security;
+
+-- Photos and videos attached to check-ins, uploaded through signed URLs. The bucket is private:
+-- approved media is shown through signed URLs, so nothing is reachable before moderation.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'checkins',
+  'checkins',
+  false,
+  52428800,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'video/mp4', 'video/quicktime', 'video/webm']
+)
+on conflict (id) do update set public = false;
+
+create policy "Staff read check-in media"
+  on storage.objects for select
+  using (
+    bucket_id = 'checkins'
+    and exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor'))
+  );
@@ -0,0 +1,62 @@
+-- Public problem reports for pianos, tracked as maintenance tickets
+
+-- Who looks after each site; notified when one of its pianos is reported
+alter table public.piano_sites
+  add column if not exists coordinator_name text,
+  add column if not exists coordinator_email text;
+
+create table if not exists public.piano_reports (
+  id bigint generated by default as identity primary key,
+  ticket_id text not null unique,
+  piano_id bigint not null references public.pianos(id) on delete cascade,
+  -- Site at the time of the report, so tickets stay with the coordinator who was notified
+  site_id bigint references public.piano_sites(id) on delete set null,
+  issue_type text not null
+    check (issue_type in ('damaged', 'uncovered', 'out_of_tune', 'missing', 'other')),
+  description text check (char_length(description) <= 1000),
+  photo_path text,
+  reporter_name text check (char_length(reporter_name) <= 100),
+  reporter_email text check (char_length(reporter_email) <= 254),
+  status text not null default 'reported'
+    check (status in ('reported', 'technician_scheduled', 'resolved')),
+  -- Secret for the reporter's status link; tickets are not otherwise publicly readable
+  status_token uuid not null default gen_random_uuid(),
+  scheduled_for date,
+  resolution_note text,
+  -- SHA-256 of the submitter's IP, only used to rate-limit reports
+  ip_hash text,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists piano_reports_piano_id_idx on public.piano_reports (piano_id, created_at desc);
+create index if not exists piano_reports_status_idx on public.piano_reports (status, created_at);
+create index if not exists piano_reports_ip_hash_idx on public.piano_reports (ip_hash, created_at);
+
+alter table public.piano_reports enable row level security;
+
+-- Reports are filed through /api/pianos/[id]/reports and read back on /report/[ticket] with the service role
+create policy "Staff manage piano reports"
+  on public.piano_reports for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
+
+-- Photos attached to reports, uploaded through signed URLs. Private: uploads are anonymous and
+-- unmoderated, so staff and coordinators see them through short-lived signed URLs.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'reports',
+  'reports',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+on conflict (id) do update set public = false;
+
+create policy "Staff read report photos"
+  on storage.objects for select
+  using (
+    bucket_id = 'reports'
+    and exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor'))
+  );
@@ -0,0 +1,35 @@
+-- "My Pianos": pianos a signed-in user has saved, with an optional public share link
+
+create table if not exists public.saved_pianos (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  piano_id bigint not null references public.pianos(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, piano_id)
+);
+
+create index if not exists saved_pianos_piano_id_idx on public.saved_pianos (piano_id);
+
+-- One collection per user; sharing is off until they turn it on
+create table if not exists public.piano_collections (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  title text check (char_length(title) <= 100),
+  is_public boolean not null default false,
+  share_token uuid not null unique default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.saved_pianos enable row level security;
+alter table public.piano_collections enable row level security;
+
+create policy "Users manage their saved pianos"
+  on public.saved_pianos for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their piano collection"
+  on public.piano_collections for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Shared collections are read on /collection/[token] with the service role, so owners stay private
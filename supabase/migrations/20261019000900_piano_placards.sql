@@ -0,0 +1,32 @@
+-- QR placards: each program's local language and an anonymous log of placard scans
+
+-- ISO 639-1 code for the second language printed on placards, e.g. 'es'
+alter table public.piano_activations
+  add column if not exists act_language text check (act_language is null or act_language ~ '^[a-z]{2}$');
+
+-- One row per scan of a placard's short URL. Deliberately no IP, user agent or user id.
+create table if not exists public.piano_scans (
+  id bigint generated by default as identity primary key,
+  piano_id bigint not null references public.pianos(id) on delete cascade,
+  scanned_at timestamptz not null default now()
+);
+
+create index if not exists piano_scans_piano_id_idx on public.piano_scans (piano_id, scanned_at desc);
+
+alter table public.piano_scans enable row level security;
+
+-- Scans are logged by /p/[code] with the service role, so there is no public insert policy
+create policy "Staff read placard scans"
+  on public.piano_scans for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
+
+-- Per-piano totals for the admin panel; security_invoker keeps the staff-only policy in force
+create or replace view public.piano_scan_counts
+with (security_invoker = true) as
+select
+  piano_id,
+  count(*)::integer as total_scans,
+  (count(*) filter (where scanned_at > now() - interval '30 days'))::integer as recent_scans,
+  max(scanned_at) as last_scanned_at
+from public.piano_scans
+group by piano_id;
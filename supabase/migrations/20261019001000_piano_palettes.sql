@@ -0,0 +1,15 @@
+-- Dominant-colour palettes of piano artwork, filled in by /api/admin/pianos/palettes
+
+-- Up to five colours by share of the image, e.g. [{"hex": "#1e40af", "share": 0.42}, ...]
+alter table public.pianos
+  add column if not exists piano_palette jsonb;
+
+-- Colour families that make up a noticeable part of the artwork, for "search by colour"
+alter table public.pianos
+  add column if not exists piano_colors text[] not null default '{}';
+
+-- The image the palette was computed from; the job redoes pianos whose cover has changed since
+alter table public.pianos
+  add column if not exists piano_palette_source text;
+
+create index if not exists pianos_piano_colors_idx on public.pianos using gin (piano_colors);
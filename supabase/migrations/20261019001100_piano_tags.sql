@@ -0,0 +1,121 @@
+-- Curated tag taxonomy for pianos: themes, techniques and dedications
+
+create table if not exists public.piano_tags (
+  id bigint generated by default as identity primary key,
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  label text not null,
+  category text not null default 'theme' check (category in ('theme', 'technique', 'dedication')),
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.piano_tag_assignments (
+  piano_id bigint not null references public.pianos(id) on delete cascade,
+  tag_id bigint not null references public.piano_tags(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (piano_id, tag_id)
+);
+
+create index if not exists piano_tag_assignments_tag_id_idx on public.piano_tag_assignments (tag_id);
+
+-- Denormalized copy of each piano's tag slugs, so list queries and filters need no join
+alter table public.pianos
+  add column if not exists piano_tag_slugs text[] not null default '{}';
+
+create index if not exists pianos_piano_tag_slugs_idx on public.pianos using gin (piano_tag_slugs);
+
+create or replace function public.sync_piano_tag_slugs(target_piano bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.pianos
+  set piano_tag_slugs = coalesce((
+    select array_agg(t.slug order by t.slug)
+    from public.piano_tag_assignments a
+    join public.piano_tags t on t.id = a.tag_id
+    where a.piano_id = target_piano
+  ), '{}')
+  where id = target_piano;
+$$;
+
+create or replace function public.piano_tag_assignments_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.sync_piano_tag_slugs(new.piano_id);
+  end if;
+  if tg_op in ('DELETE', 'UPDATE') then
+    perform public.sync_piano_tag_slugs(old.piano_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists piano_tag_assignments_sync on public.piano_tag_assignments;
+create trigger piano_tag_assignments_sync
+  after insert or update or delete on public.piano_tag_assignments
+  for each row execute function public.piano_tag_assignments_sync();
+
+-- Renaming a tag's slug rewrites it on every piano that carries it
+create or replace function public.piano_tags_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.sync_piano_tag_slugs(a.piano_id)
+  from public.piano_tag_assignments a
+  where a.tag_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists piano_tags_sync on public.piano_tags;
+create trigger piano_tags_sync
+  after update of slug on public.piano_tags
+  for each row execute function public.piano_tags_sync();
+
+-- A starting taxonomy; staff curate the rest in the admin panel
+insert into public.piano_tags (slug, label, category) values
+  ('nature', 'Nature', 'theme'),
+  ('community', 'Community', 'theme'),
+  ('portraiture', 'Portraiture', 'theme'),
+  ('music', 'Music', 'theme'),
+  ('cityscape', 'Cityscape', 'theme'),
+  ('abstract', 'Abstract', 'theme'),
+  ('mural', 'Mural', 'technique'),
+  ('pattern', 'Pattern', 'technique'),
+  ('collage', 'Collage', 'technique'),
+  ('mosaic', 'Mosaic', 'technique'),
+  ('in-memoriam', 'In Memoriam', 'dedication'),
+  ('tribute', 'Tribute', 'dedication')
+on conflict (slug) do nothing;
+
+alter table public.piano_tags enable row level security;
+alter table public.piano_tag_assignments enable row level security;
+
+create policy "Piano tags are publicly readable"
+  on public.piano_tags for select
+  using (true);
+
+create policy "Staff manage piano tags"
+  on public.piano_tags for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
+
+create policy "Piano tag assignments are publicly readable"
+  on public.piano_tag_assignments for select
+  using (true);
+
+create policy "Staff manage piano tag assignments"
+  on public.piano_tag_assignments for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
@@ -0,0 +1,29 @@
+-- Visitor details for piano sites: opening hours, access, amenities and seasonal availability.
+-- site_location stays the street address.
+
+alter table public.piano_sites
+  -- IANA zone the opening hours are written in, e.g. 'Europe/Paris'
+  add column if not exists time_zone text not null default 'America/New_York',
+  -- Weekly hours in the site's local time: {"mon": [["09:00", "17:00"]], "sat": [["10:00", "14:00"], ["15:00", "18:00"]]}.
+  -- Days left out are closed; '24:00' closes at midnight; a close before the open runs past midnight.
+  -- Null when the hours are unknown.
+  add column if not exists opening_hours jsonb
+    check (opening_hours is null or jsonb_typeof(opening_hours) = 'object'),
+  add column if not exists hours_note text, -- e.g. 'Closed on public holidays'
+  add column if not exists setting text check (setting in ('indoor', 'outdoor')),
+  add column if not exists wheelchair_accessible boolean,
+  add column if not exists transit text, -- nearest transit, as free text
+  add column if not exists partner_name text,
+  add column if not exists partner_url text,
+  -- Yearly availability as 'MM-DD'; an end before the start wraps over new year
+  add column if not exists season_start text check (season_start ~ '^(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$'),
+  add column if not exists season_end text check (season_end ~ '^(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$');
+
+-- A season needs both ends; constraints have no "if not exists", so check first to keep re-runs safe
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'piano_sites_season_check') then
+    alter table public.piano_sites
+      add constraint piano_sites_season_check check ((season_start is null) = (season_end is null));
+  end if;
+end $$;